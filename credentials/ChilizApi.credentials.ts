@@ -52,6 +52,29 @@ export class ChilizApi implements ICredentialType {
         },
       },
     },
+    {
+      displayName: 'Fallback RPC URLs',
+      name: 'fallbackRpcUrls',
+      type: 'string',
+      typeOptions: {
+        rows: 2,
+      },
+      default: '',
+      placeholder: 'https://chiliz.publicnode.com',
+      description:
+        'RPC endpoints to fail over to, in order, one per line or comma-separated (optional)',
+    },
+    {
+      displayName: 'Max Retries',
+      name: 'maxRetries',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 3,
+      description:
+        'How many times to retry a request across all endpoints after transient errors (429, 5xx, timeouts)',
+    },
     {
       displayName: 'Private Key',
       name: 'privateKey',
@@ -63,6 +86,39 @@ export class ChilizApi implements ICredentialType {
       description:
         'Private key for signing transactions (optional - only needed for write operations)',
     },
+    {
+      displayName: 'Fee Strategy',
+      name: 'feeStrategy',
+      type: 'options',
+      options: [
+        {
+          name: 'Slow',
+          value: 'slow',
+        },
+        {
+          name: 'Standard',
+          value: 'standard',
+        },
+        {
+          name: 'Fast',
+          value: 'fast',
+        },
+      ],
+      default: 'standard',
+      description:
+        'EIP-1559 priority fee used when signing: the 10th, 50th or 90th percentile of recent block rewards',
+    },
+    {
+      displayName: 'Gas Limit Multiplier',
+      name: 'gasLimitMultiplier',
+      type: 'number',
+      typeOptions: {
+        minValue: 1,
+        numberPrecision: 2,
+      },
+      default: 1.2,
+      description: 'Safety margin applied to eth_estimateGas when a transaction has no gas limit set',
+    },
     {
       displayName: 'ChilizScan API Key',
       name: 'chilizScanApiKey',
@@ -83,6 +139,44 @@ export class ChilizApi implements ICredentialType {
       default: '',
       description: 'Socios API key for voting/rewards operations (optional - partner access)',
     },
+    {
+      displayName: 'Sandbox Mode',
+      name: 'sandbox',
+      type: 'boolean',
+      default: false,
+      description:
+        'Whether to serve fixed fixture data for polls, rewards, prices and token holders instead of calling the Socios, price and explorer APIs. For building and testing workflows only.',
+    },
+    {
+      displayName: 'Multicall Address',
+      name: 'multicallAddress',
+      type: 'string',
+      default: '',
+      placeholder: '0xcA11bde05977b3631167028862bE2a173976CA11',
+      description:
+        'Multicall3 contract used to batch contract reads into one call (optional - JSON-RPC batches are used otherwise)',
+    },
+    {
+      displayName: 'Price API URL',
+      name: 'priceApiUrl',
+      type: 'string',
+      default: '',
+      placeholder: 'https://api.binance.com',
+      description:
+        'Base URL of a Binance-compatible ticker API for the Ticker price source (optional)',
+    },
+    {
+      displayName: 'Token List',
+      name: 'tokenList',
+      type: 'string',
+      typeOptions: {
+        rows: 4,
+      },
+      default: '',
+      placeholder: '[{"symbol": "BAR", "address": "0x...", "network": "mainnet"}]',
+      description:
+        'Fan Token contracts to add to (or override in) the built-in registry, as JSON (optional)',
+    },
   ];
 
   authenticate: IAuthenticateGeneric = {
@@ -12,7 +12,9 @@
 
 import type {
 	IExecuteFunctions,
+	ILoadOptionsFunctions,
 	INodeExecutionData,
+	INodeListSearchResult,
 	INodeType,
 	INodeTypeDescription,
 	IDataObject,
@@ -268,6 +270,24 @@ export class Chiliz implements INodeType {
 						description: 'Get transaction receipt',
 						action: 'Get transaction receipt',
 					},
+					{
+						name: 'Replace Transaction',
+						value: 'replaceTransaction',
+						description: 'Resend a stuck transaction with a higher fee',
+						action: 'Replace transaction',
+					},
+					{
+						name: 'Cancel Transaction',
+						value: 'cancelTransaction',
+						description: 'Cancel a stuck transaction or fill a nonce gap',
+						action: 'Cancel transaction',
+					},
+					{
+						name: 'Wait For Confirmation',
+						value: 'waitForConfirmation',
+						description: 'Wait until a transaction is mined and confirmed',
+						action: 'Wait for confirmation',
+					},
 					{
 						name: 'Get Pending Transactions',
 						value: 'getPendingTransactions',
@@ -574,6 +594,12 @@ export class Chiliz implements INodeType {
 						description: 'Get events for a specific contract',
 						action: 'Get contract events',
 					},
+					{
+						name: 'Decode Event',
+						value: 'decodeEvent',
+						description: 'Decode an event log using an ABI or event signature',
+						action: 'Decode event',
+					},
 					{
 						name: 'Decode Transfer Event',
 						value: 'decodeTransferEvent',
@@ -666,6 +692,107 @@ export class Chiliz implements INodeType {
 				description: 'Token contract address or symbol (e.g., BAR, PSG, 0x...)',
 			},
 
+			// Price Source
+			{
+				displayName: 'Price Source',
+				name: 'priceSource',
+				type: 'options',
+				options: [
+					{
+						name: 'DEX Pair (On-Chain)',
+						value: 'dex',
+						description: 'Read reserves and swaps from a Uniswap V2 style pair on a Chiliz DEX',
+					},
+					{
+						name: 'Ticker API',
+						value: 'ticker',
+						description: 'Binance-compatible ticker API at the Price API URL set on the credential',
+					},
+				],
+				default: 'dex',
+				displayOptions: {
+					show: {
+						resource: ['fanToken'],
+						operation: ['getTokenPrice', 'getTokenVolume'],
+					},
+				},
+				description: 'Where to read the price and volume from',
+			},
+			{
+				displayName: 'Pair Address',
+				name: 'pairAddress',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['fanToken'],
+						operation: ['getTokenPrice', 'getTokenVolume'],
+						priceSource: ['dex'],
+					},
+				},
+				description: 'DEX pair contract holding the token (e.g., the BAR/WCHZ pair)',
+			},
+			{
+				displayName: 'USD Pair Address',
+				name: 'usdPairAddress',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['fanToken'],
+						operation: ['getTokenPrice'],
+						priceSource: ['dex'],
+					},
+				},
+				description:
+					'Pair of the quote token against a USD stablecoin (e.g., WCHZ/USDT), used to convert the price to USD. Not needed when the pair is already quoted in a stablecoin.',
+			},
+			{
+				displayName: 'BTC Pair Address',
+				name: 'btcPairAddress',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['fanToken'],
+						operation: ['getTokenPrice'],
+						priceSource: ['dex'],
+					},
+				},
+				description:
+					'Pair of wrapped BTC against the USD stablecoin of the price. Without it the BTC price is left empty.',
+			},
+			{
+				displayName: 'ETH Pair Address',
+				name: 'ethPairAddress',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['fanToken'],
+						operation: ['getTokenPrice'],
+						priceSource: ['dex'],
+					},
+				},
+				description:
+					'Pair of wrapped ETH against the USD stablecoin of the price. Without it the ETH price is left empty.',
+			},
+			{
+				displayName: 'Quote Symbol',
+				name: 'quoteSymbol',
+				type: 'string',
+				default: 'USDT',
+				displayOptions: {
+					show: {
+						resource: ['fanToken'],
+						operation: ['getTokenPrice', 'getTokenVolume'],
+						priceSource: ['ticker'],
+					},
+				},
+				description: 'USD stablecoin the ticker market is quoted in',
+			},
+
 			// User Address (common)
 			{
 				displayName: 'Address',
@@ -708,11 +835,88 @@ export class Chiliz implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['transaction'],
-						operation: ['getTransaction', 'getTransactionReceipt'],
+						operation: [
+							'getTransaction',
+							'getTransactionReceipt',
+							'waitForConfirmation',
+							'replaceTransaction',
+						],
 					},
 				},
 				description: 'Transaction hash (0x...)',
 			},
+			{
+				displayName: 'Transaction Hash',
+				name: 'transactionHash',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: ['cancelTransaction'],
+					},
+				},
+				description: 'Pending transaction to cancel (0x...). Leave empty to cancel by nonce.',
+			},
+			{
+				displayName: 'Nonce',
+				name: 'nonce',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: ['cancelTransaction'],
+					},
+				},
+				description:
+					'Nonce to cancel when no transaction hash is given, such as a gap reported by Get Account Nonce',
+			},
+			{
+				displayName: 'Fee Bump (%)',
+				name: 'feeBumpPercent',
+				type: 'number',
+				typeOptions: {
+					minValue: 10,
+				},
+				default: 15,
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: ['replaceTransaction', 'cancelTransaction'],
+					},
+				},
+				description:
+					'How much to raise the original fees by. Nodes require at least 10% to accept a replacement.',
+			},
+			{
+				displayName: 'Decode Logs',
+				name: 'decodeLogs',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: ['getTransactionReceipt'],
+					},
+				},
+				description:
+					"Whether to decode each log with the ERC-20/721 events, or the emitting contract's verified ABI from ChilizScan",
+			},
+			{
+				displayName: 'Decode Revert Reason',
+				name: 'decodeRevertReason',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: ['getTransactionReceipt'],
+					},
+				},
+				description:
+					'Whether to replay a failed transaction at its parent block to find out why it reverted',
+			},
 
 			// Contract Address
 			{
@@ -730,6 +934,59 @@ export class Chiliz implements INodeType {
 				description: 'Smart contract address',
 			},
 
+			// Contract ABI
+			{
+				displayName: 'ABI',
+				name: 'abi',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['smartContract'],
+						operation: ['readContract', 'writeContract'],
+					},
+				},
+				description:
+					'Contract ABI as JSON or human-readable fragments (one per line). Leave empty to fetch the verified ABI from ChilizScan.',
+			},
+
+			// View Function (from the ABI, or a typed signature)
+			{
+				displayName: 'Function',
+				name: 'functionName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['smartContract'],
+						operation: ['readContract'],
+					},
+				},
+				description:
+					'View function to call. Pick it from the contract ABI, or type a name, full signature or selector when no ABI is available.',
+				modes: [
+					{
+						displayName: 'From ABI',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchContractViewFunctions',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Signature',
+						name: 'signature',
+						type: 'string',
+						placeholder: 'e.g. balanceOf(address) or function balanceOf(address) view returns (uint256)',
+					},
+				],
+			},
+
 			// Function Selector/Name
 			{
 				displayName: 'Function',
@@ -740,10 +997,11 @@ export class Chiliz implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['smartContract'],
-						operation: ['readContract', 'writeContract'],
+						operation: ['writeContract'],
 					},
 				},
-				description: 'Function name or selector (e.g., balanceOf, 0x70a08231)',
+				description:
+					'Function name from the ABI, full signature (e.g., transfer(address,uint256)) or selector',
 			},
 
 			// Function Parameters (JSON)
@@ -761,6 +1019,63 @@ export class Chiliz implements INodeType {
 				description: 'Function parameters as JSON array',
 			},
 
+			// Write Contract Options
+			{
+				displayName: 'Value (CHZ)',
+				name: 'value',
+				type: 'string',
+				default: '0',
+				displayOptions: {
+					show: {
+						resource: ['smartContract'],
+						operation: ['writeContract'],
+					},
+				},
+				description: 'Amount of CHZ to send with the call (for payable functions)',
+			},
+			{
+				displayName: 'Gas Limit',
+				name: 'gasLimit',
+				type: 'number',
+				default: 0,
+				displayOptions: {
+					show: {
+						resource: ['smartContract'],
+						operation: ['writeContract'],
+					},
+				},
+				description: 'Gas limit for the call (0 to estimate)',
+			},
+			{
+				displayName: 'Confirmations',
+				name: 'confirmations',
+				type: 'number',
+				default: 1,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['smartContract', 'transaction'],
+						operation: ['writeContract', 'waitForConfirmation'],
+					},
+				},
+				description: 'Number of block confirmations to wait for',
+			},
+			{
+				displayName: 'Receipt Timeout (Seconds)',
+				name: 'receiptTimeout',
+				type: 'number',
+				default: 60,
+				displayOptions: {
+					show: {
+						resource: ['smartContract'],
+						operation: ['writeContract'],
+					},
+				},
+				description: 'How long to wait for the confirmations (0 to return immediately)',
+			},
+
 			// Token Symbol for Fan Token Contract
 			{
 				displayName: 'Token Symbol',
@@ -777,6 +1092,32 @@ export class Chiliz implements INodeType {
 				description: 'Fan Token symbol (e.g., BAR, PSG)',
 			},
 
+			// Token List (extends the fan token registry)
+			{
+				displayName: 'Token List',
+				name: 'tokenList',
+				type: 'json',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['fanToken', 'account', 'smartContract'],
+						operation: [
+							'listFanTokens',
+							'getUserTokens',
+							'getFanTokenInfo',
+							'getTokenPrice',
+							'getTokenHolders',
+							'getTokenVolume',
+							'getTokenSupply',
+							'getTokenBalances',
+							'getFanTokenContract',
+						],
+					},
+				},
+				description:
+					'Extra fan tokens for this node as [{"symbol":"BAR","address":"0x..."}] or {"BAR":"0x..."}. Overrides the built-in addresses and the credential token list.',
+			},
+
 			// Token Symbol Filter (optional)
 			{
 				displayName: 'Token Symbol',
@@ -786,12 +1127,60 @@ export class Chiliz implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['poll', 'reward'],
-						operation: ['getActivePolls', 'getAvailableRewards', 'getRewardHistory'],
+						operation: [
+							'getActivePolls',
+							'getUpcomingPolls',
+							'getAvailableRewards',
+							'getRewardHistory',
+						],
 					},
 				},
 				description: 'Filter by token symbol',
 			},
 
+			// Poll backend
+			{
+				displayName: 'Poll Source',
+				name: 'pollBackend',
+				type: 'options',
+				options: [
+					{
+						name: 'Socios Partner API',
+						value: 'socios',
+						description: 'Polls from the Socios API (needs the Socios API key on the credential)',
+					},
+					{
+						name: 'On-Chain Voting Contract',
+						value: 'onChain',
+						description:
+							'Polls, options and token-weighted tallies read from a voting contract on Chiliz Chain',
+					},
+				],
+				default: 'socios',
+				displayOptions: {
+					show: {
+						resource: ['poll'],
+					},
+				},
+				description: 'Where polls are read from and votes are sent to',
+			},
+			{
+				displayName: 'Voting Contract',
+				name: 'votingContract',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['poll'],
+						pollBackend: ['onChain'],
+					},
+				},
+				placeholder: '0x...',
+				description:
+					'Address of the voting contract (pollCount, getPoll, vote and the VoteCast event, see the README)',
+			},
+
 			// Poll ID
 			{
 				displayName: 'Poll ID',
@@ -823,6 +1212,64 @@ export class Chiliz implements INodeType {
 				},
 				description: 'Vote option identifier',
 			},
+			{
+				displayName: 'Include Analytics',
+				name: 'resultsAnalytics',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['poll'],
+						operation: ['getVoteResults'],
+					},
+				},
+				description:
+					'Whether to add option shares, the winning margin, turnout against the token holder count and a token-weighted tally',
+			},
+			{
+				displayName: 'Vote Signature',
+				name: 'voteSignature',
+				type: 'options',
+				options: [
+					{
+						name: 'EIP-712 Typed Data',
+						value: 'eip712',
+						description: 'Sign the vote as typed data bound to the chain ID',
+					},
+					{
+						name: 'EIP-191 Personal Message',
+						value: 'eip191',
+						description: 'Sign the vote as a readable personal_sign message',
+					},
+				],
+				default: 'eip712',
+				displayOptions: {
+					show: {
+						resource: ['poll'],
+						operation: ['voteOnPoll'],
+						pollBackend: ['socios'],
+					},
+				},
+				description:
+					'How the vote (poll, option, nonce and expiry) is signed with the credential private key',
+			},
+			{
+				displayName: 'Signature Validity (Seconds)',
+				name: 'voteValidity',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 300,
+				displayOptions: {
+					show: {
+						resource: ['poll'],
+						operation: ['voteOnPoll'],
+						pollBackend: ['socios'],
+					},
+				},
+				description: 'How long the signed vote stays valid before the API must reject it',
+			},
 
 			// Reward ID
 			{
@@ -919,19 +1366,42 @@ export class Chiliz implements INodeType {
 			},
 
 			// NFT Transfer Parameters
+			{
+				displayName: 'Token Standard',
+				name: 'nftStandard',
+				type: 'options',
+				options: [
+					{
+						name: 'ERC-721',
+						value: 'erc721',
+					},
+					{
+						name: 'ERC-1155',
+						value: 'erc1155',
+					},
+				],
+				default: 'erc721',
+				displayOptions: {
+					show: {
+						resource: ['nft'],
+						operation: ['transferNFT'],
+					},
+				},
+				description: 'Token standard implemented by the collection',
+			},
 			{
 				displayName: 'From Address',
 				name: 'fromAddress',
 				type: 'string',
 				default: '',
-				required: true,
 				displayOptions: {
 					show: {
 						resource: ['nft'],
 						operation: ['transferNFT'],
 					},
 				},
-				description: 'Current owner address',
+				description:
+					'Current owner address. Leave empty to transfer from the credential account; otherwise the credential account must be approved by the owner.',
 			},
 			{
 				displayName: 'To Address',
@@ -961,6 +1431,33 @@ export class Chiliz implements INodeType {
 				},
 				description: 'NFT collection contract address',
 			},
+			{
+				displayName: 'Amount',
+				name: 'nftAmount',
+				type: 'string',
+				default: '1',
+				displayOptions: {
+					show: {
+						resource: ['nft'],
+						operation: ['transferNFT'],
+						nftStandard: ['erc1155'],
+					},
+				},
+				description: 'Number of tokens to transfer',
+			},
+			{
+				displayName: 'Receipt Timeout (Seconds)',
+				name: 'receiptTimeout',
+				type: 'number',
+				default: 60,
+				displayOptions: {
+					show: {
+						resource: ['nft'],
+						operation: ['transferNFT'],
+					},
+				},
+				description: 'How long to wait for the transaction to be mined (0 to return immediately)',
+			},
 
 			// Block Parameters
 			{
@@ -998,7 +1495,7 @@ export class Chiliz implements INodeType {
 				default: 'latest',
 				displayOptions: {
 					show: {
-						resource: ['event'],
+						resource: ['event', 'smartContract'],
 						operation: ['getLogs', 'filterEvents', 'getContractEvents', 'createEventFilter'],
 					},
 				},
@@ -1011,7 +1508,7 @@ export class Chiliz implements INodeType {
 				default: 'latest',
 				displayOptions: {
 					show: {
-						resource: ['event'],
+						resource: ['event', 'smartContract'],
 						operation: ['getLogs', 'filterEvents', 'getContractEvents', 'createEventFilter'],
 					},
 				},
@@ -1024,12 +1521,42 @@ export class Chiliz implements INodeType {
 				default: '[]',
 				displayOptions: {
 					show: {
-						resource: ['event'],
-						operation: ['getLogs', 'filterEvents', 'createEventFilter'],
+						resource: ['event', 'smartContract'],
+						operation: ['getLogs', 'filterEvents', 'getContractEvents', 'createEventFilter'],
 					},
 				},
 				description: 'Event topics as JSON array',
 			},
+			{
+				displayName: 'Block Chunk Size',
+				name: 'blockChunkSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 5000,
+				displayOptions: {
+					show: {
+						resource: ['event', 'smartContract'],
+						operation: ['getLogs', 'filterEvents', 'getContractEvents'],
+					},
+				},
+				description:
+					'Blocks per eth_getLogs request. Larger ranges are split, and a chunk is halved when the RPC node rejects it as too large.',
+			},
+			{
+				displayName: 'Output Per Chunk',
+				name: 'outputPerChunk',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['event', 'smartContract'],
+						operation: ['getLogs', 'filterEvents', 'getContractEvents'],
+					},
+				},
+				description: 'Whether to output one item per block-range chunk instead of one item per log',
+			},
 
 			// Event Log for Decoding
 			{
@@ -1041,10 +1568,29 @@ export class Chiliz implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['event'],
-						operation: ['decodeTransferEvent'],
+						operation: ['decodeTransferEvent', 'decodeEvent'],
+					},
+				},
+				description:
+					'Raw event log to decode. For Decode Event, leave as {} to decode the input item, such as a log output by Get Logs.',
+			},
+			{
+				displayName: 'Event ABI',
+				name: 'eventAbi',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				placeholder: 'event Transfer(address indexed from, address indexed to, uint256 value)',
+				displayOptions: {
+					show: {
+						resource: ['event'],
+						operation: ['decodeEvent'],
 					},
 				},
-				description: 'Raw event log to decode',
+				description:
+					'Contract ABI as JSON, or event signatures one per line. Leave empty to decode the standard ERC-20 and ERC-721 events.',
 			},
 
 			// Filter ID
@@ -1242,6 +1788,22 @@ export class Chiliz implements INodeType {
 				description: 'Filter by status (e.g., claimed, pending)',
 			},
 
+			// Return All
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['account', 'nft'],
+						operation: ['getTransactionHistory', 'getTokenTransfers', 'getUserNFTs'],
+					},
+				},
+				description:
+					'Whether to page through the full history on ChilizScan instead of returning a single page',
+			},
+
 			// Limit
 			{
 				displayName: 'Limit',
@@ -1253,6 +1815,9 @@ export class Chiliz implements INodeType {
 						resource: ['account', 'poll', 'reward', 'nft', 'fanToken'],
 						operation: ['getTransactionHistory', 'getTokenTransfers', 'getActivePolls', 'getUserVotes', 'getUpcomingPolls', 'getAvailableRewards', 'getUserRewards', 'getRewardHistory', 'getUserNFTs', 'getTokenHolders'],
 					},
+					hide: {
+						returnAll: [true],
+					},
 				},
 				description: 'Maximum number of results',
 			},
@@ -1268,6 +1833,9 @@ export class Chiliz implements INodeType {
 						resource: ['account', 'fanToken'],
 						operation: ['getTransactionHistory', 'getTokenTransfers', 'getTokenHolders'],
 					},
+					hide: {
+						returnAll: [true],
+					},
 				},
 				description: 'Page number for pagination',
 			},
@@ -1354,6 +1922,66 @@ export class Chiliz implements INodeType {
 				},
 				description: 'Sender address (for estimation)',
 			},
+			{
+				displayName: 'Gas Limit',
+				name: 'gasLimit',
+				type: 'number',
+				default: 0,
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: ['sendTransaction', 'transferToken'],
+					},
+				},
+				description:
+					"Gas limit for the transaction (0 to estimate, with the credential's gas limit multiplier)",
+			},
+			{
+				displayName: 'Decimals',
+				name: 'decimals',
+				type: 'number',
+				default: 18,
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: ['transferToken'],
+					},
+				},
+				description: 'Token decimals (default: 18)',
+			},
+			{
+				displayName: 'Gas Price (Gwei)',
+				name: 'gasPriceGwei',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: ['sendTransaction'],
+					},
+				},
+				description:
+					"Gas price in Gwei for a legacy transaction (leave empty for EIP-1559 fees from the credential's fee strategy)",
+			},
+			{
+				displayName: 'Receipt Timeout (Seconds)',
+				name: 'receiptTimeout',
+				type: 'number',
+				default: 60,
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+						operation: [
+							'sendTransaction',
+							'transferToken',
+							'waitForConfirmation',
+							'replaceTransaction',
+							'cancelTransaction',
+						],
+					},
+				},
+				description: 'How long to wait for the transaction to be mined (0 to return immediately)',
+			},
 
 			// Fee History Parameters
 			{
@@ -1398,6 +2026,17 @@ export class Chiliz implements INodeType {
 		],
 	};
 
+	methods = {
+		listSearch: {
+			async searchContractViewFunctions(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+			): Promise<INodeListSearchResult> {
+				return smartContractsActions.searchContractViewFunctions.call(this, filter);
+			},
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		// Log licensing notice once per node load
 		if (!licensingNoticeShown) {
@@ -1489,6 +2128,15 @@ export class Chiliz implements INodeType {
 						case 'getTransactionReceipt':
 							result = await transactionsActions.getTransactionReceipt.call(this, i);
 							break;
+						case 'waitForConfirmation':
+							result = await transactionsActions.waitForConfirmation.call(this, i);
+							break;
+						case 'replaceTransaction':
+							result = await transactionsActions.replaceTransaction.call(this, i);
+							break;
+						case 'cancelTransaction':
+							result = await transactionsActions.cancelTransaction.call(this, i);
+							break;
 						case 'getPendingTransactions':
 							result = await transactionsActions.getPendingTransactions.call(this, i);
 							break;
@@ -1633,6 +2281,9 @@ export class Chiliz implements INodeType {
 						case 'getContractEvents':
 							result = await eventsActions.getContractEvents.call(this, i);
 							break;
+						case 'decodeEvent':
+							result = await eventsActions.decodeEvent.call(this, i);
+							break;
 						case 'decodeTransferEvent':
 							result = await eventsActions.decodeTransferEvent.call(this, i);
 							break;
@@ -12,78 +12,130 @@
 
 import type {
 	IPollFunctions,
+	ILoadOptionsFunctions,
 	INodeExecutionData,
+	INodePropertyOptions,
 	INodeType,
 	INodeTypeDescription,
 	IDataObject,
 } from 'n8n-workflow';
-import { KNOWN_FAN_TOKENS, NETWORKS } from './constants/constants';
-import type { IChilizCredentials } from './utils/types';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import {
+	chilizScanRequestAll,
+	formatCHZToWei,
+	formatWeiToCHZ,
+	jsonRpcBatchRequest,
+	sociosApiRequest,
+} from './transport/client';
+import { commitCursor, getCursorRange } from './transport/cursor';
+import { getLogsInChunks } from './transport/logs';
+import { resolvePriceProvider } from './transport/priceProviders';
+import { MAX_BATCH_SIZE, POLL_LIFECYCLE, TRIGGER_CURSOR } from './constants/constants';
+import { chunkArray, isValidAddress, numberToHex } from './utils/helpers';
+import { canonicalSymbol, loadTokenRegistry, resolveToken } from './utils/tokenRegistry';
+import type {
+	IChzMovement,
+	ICursorRange,
+	IPollLifecycleState,
+	IPriceHistory,
+	IPricePoint,
+	IProcessedBlock,
+} from './utils/types';
 
 // Licensing notice - logged once per node load
 let licensingNoticeShown = false;
 
-// Helper function for JSON-RPC requests from trigger context
-async function triggerJsonRpcRequest(
-	context: IPollFunctions,
-	method: string,
-	params: unknown[] = [],
-): Promise<unknown> {
-	const credentials = (await context.getCredentials('chilizApi')) as unknown as IChilizCredentials;
-
-	let rpcUrl: string;
-	if (credentials.network === 'custom' && credentials.rpcEndpoint) {
-		rpcUrl = credentials.rpcEndpoint;
-	} else if (credentials.network === 'mainnet') {
-		rpcUrl = NETWORKS.mainnet.rpcUrl;
-	} else {
-		rpcUrl = NETWORKS.spicy.rpcUrl;
-	}
+// Upper bound on stored price points per trigger
+const MAX_PRICE_HISTORY = 1000;
 
-	const response = await context.helpers.httpRequest({
-		method: 'POST',
-		url: rpcUrl,
-		headers: { 'Content-Type': 'application/json' },
-		body: JSON.stringify({
-			jsonrpc: '2.0',
-			method,
-			params,
-			id: Date.now(),
-		}),
-	});
+// Id of a log within its block, as remembered by the block cursor
+function logEventId(log: IDataObject): string {
+	return `${log.transactionHash}:${parseInt(log.logIndex as string, 16)}`;
+}
 
-	if (response.error) {
-		throw new Error(`JSON-RPC Error: ${response.error.message || JSON.stringify(response.error)}`);
+// Group emitted logs by block for the block cursor
+function processedBlocksFromLogs(logs: IDataObject[]): IProcessedBlock[] {
+	const blocks = new Map<number, IProcessedBlock>();
+	for (const log of logs) {
+		const number = parseInt(log.blockNumber as string, 16);
+		const block = blocks.get(number) ?? { number, hash: log.blockHash as string, events: [] };
+		block.events.push(logEventId(log));
+		blocks.set(number, block);
 	}
+	return [...blocks.values()];
+}
+
+// Items retracting the logs of blocks that were reorged out
+function retractedLogItems(range: ICursorRange, json: IDataObject): INodeExecutionData[] {
+	return range.retracted.flatMap((block) =>
+		block.events.map((id) => {
+			const [transactionHash, logIndex] = id.split(':');
+			return {
+				json: {
+					...json,
+					removed: true,
+					blockNumber: block.number,
+					blockHash: block.hash,
+					transactionHash,
+					logIndex: Number(logIndex),
+					timestamp: new Date().toISOString(),
+				},
+			};
+		}),
+	);
+}
 
-	return response.result;
+// Fetch the logs of a cursor range (none when the poll only retracts)
+async function getRangeLogs(
+	context: IPollFunctions,
+	filter: { address?: string; topics?: (string | null)[] },
+	range: ICursorRange,
+): Promise<IDataObject[]> {
+	if (range.toBlock < range.fromBlock) return [];
+	const chunks = await getLogsInChunks.call(context, filter, range.fromBlock, range.toBlock);
+	return chunks.flatMap((chunk) => chunk.logs).filter((log) => !log.removed);
 }
 
-// Helper function for Socios API requests from trigger context
-async function triggerSociosApiRequest(
+// Fetch the blocks of a cursor range in JSON-RPC batches, optionally with full transactions
+async function getRangeBlocks(
 	context: IPollFunctions,
-	endpoint: string,
-	method: 'GET' | 'POST' = 'GET',
-	body?: IDataObject,
-): Promise<unknown> {
-	const credentials = (await context.getCredentials('chilizApi')) as unknown as IChilizCredentials;
-
-	if (!credentials.sociosApiKey) {
-		// Return mock data for testing without API key
-		return [];
+	range: ICursorRange,
+	fullTransactions = false,
+): Promise<IDataObject[]> {
+	const blockNumbers: number[] = [];
+	for (let n = range.fromBlock; n <= range.toBlock; n++) blockNumbers.push(n);
+
+	const blocks: IDataObject[] = [];
+	for (const batch of chunkArray(blockNumbers, MAX_BATCH_SIZE)) {
+		const responses = await jsonRpcBatchRequest.call(
+			context,
+			batch.map((n) => ({
+				method: 'eth_getBlockByNumber',
+				params: [numberToHex(n), fullTransactions],
+			})),
+		);
+		responses.forEach((response, i) => {
+			if (response.error || !response.result) {
+				throw new Error(response.error?.message || `Block ${batch[i]} not found`);
+			}
+			blocks.push(response.result as IDataObject);
+		});
 	}
+	return blocks;
+}
 
-	const requestOptions = {
-		method,
-		url: `https://api.socios.com/v1${endpoint}`,
-		headers: {
-			'Content-Type': 'application/json',
-			Authorization: `Bearer ${credentials.sociosApiKey}`,
-		},
-		body: body ? JSON.stringify(body) : undefined,
+// Block cursor options from the node parameters
+function getCursorOptions(context: IPollFunctions): { confirmations: number; maxBlocks: number } {
+	return {
+		confirmations: context.getNodeParameter(
+			'confirmations',
+			TRIGGER_CURSOR.confirmations,
+		) as number,
+		maxBlocks: context.getNodeParameter(
+			'maxBlocksPerPoll',
+			TRIGGER_CURSOR.maxBlocksPerPoll,
+		) as number,
 	};
-
-	return await context.helpers.httpRequest(requestOptions);
 }
 
 export class ChilizTrigger implements INodeType {
@@ -124,6 +176,12 @@ export class ChilizTrigger implements INodeType {
 						value: 'pollEnded',
 						description: 'Trigger when a poll ends',
 					},
+					{
+						name: 'Poll Lifecycle',
+						value: 'pollLifecycle',
+						description:
+							'Trigger when an active poll is closing soon, its leading option changes, or it ends',
+					},
 					{
 						name: 'Token Transfer',
 						value: 'tokenTransfer',
@@ -144,6 +202,11 @@ export class ChilizTrigger implements INodeType {
 						value: 'newFanTokenListed',
 						description: 'Trigger when a new Fan Token is listed',
 					},
+					{
+						name: 'CHZ Transfer',
+						value: 'chzTransfer',
+						description: 'Trigger on native CHZ sent to or from watched addresses',
+					},
 					{
 						name: 'New Block',
 						value: 'newBlock',
@@ -163,14 +226,19 @@ export class ChilizTrigger implements INodeType {
 				displayName: 'Token',
 				name: 'tokenSymbol',
 				type: 'options',
-				options: KNOWN_FAN_TOKENS.map((t) => ({
-					name: `${t.name} (${t.symbol})`,
-					value: t.symbol,
-				})),
+				typeOptions: {
+					loadOptionsMethod: 'getFanTokens',
+				},
 				default: 'BAR',
 				displayOptions: {
 					show: {
-						event: ['tokenTransfer', 'priceChangeAlert', 'newPollCreated', 'pollEnded'],
+						event: [
+							'tokenTransfer',
+							'priceChangeAlert',
+							'newPollCreated',
+							'pollEnded',
+							'pollLifecycle',
+						],
 					},
 				},
 				description: 'Fan Token to monitor',
@@ -190,7 +258,96 @@ export class ChilizTrigger implements INodeType {
 				description: 'Only trigger for transfers to/from this address (leave empty for all)',
 			},
 
+			// Price source
+			{
+				displayName: 'Price Source',
+				name: 'priceSource',
+				type: 'options',
+				options: [
+					{
+						name: 'DEX Pair (On-Chain)',
+						value: 'dex',
+						description: 'Read reserves from a Uniswap V2 style pair on a Chiliz DEX',
+					},
+					{
+						name: 'Ticker API',
+						value: 'ticker',
+						description: 'Binance-compatible ticker API at the Price API URL set on the credential',
+					},
+				],
+				default: 'dex',
+				displayOptions: {
+					show: {
+						event: ['priceChangeAlert'],
+					},
+				},
+				description: 'Where to read the price from',
+			},
+			{
+				displayName: 'Pair Address',
+				name: 'pairAddress',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						event: ['priceChangeAlert'],
+						priceSource: ['dex'],
+					},
+				},
+				description: 'DEX pair contract holding the token (e.g., the BAR/WCHZ pair)',
+			},
+			{
+				displayName: 'USD Pair Address',
+				name: 'usdPairAddress',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						event: ['priceChangeAlert'],
+						priceSource: ['dex'],
+					},
+				},
+				description:
+					'Pair of the quote token against a USD stablecoin (e.g., WCHZ/USDT). Not needed when the pair is already quoted in a stablecoin.',
+			},
+			{
+				displayName: 'Quote Symbol',
+				name: 'quoteSymbol',
+				type: 'string',
+				default: 'USDT',
+				displayOptions: {
+					show: {
+						event: ['priceChangeAlert'],
+						priceSource: ['ticker'],
+					},
+				},
+				description: 'USD stablecoin the ticker market is quoted in',
+			},
+
 			// Price change threshold
+			{
+				displayName: 'Threshold Type',
+				name: 'thresholdType',
+				type: 'options',
+				options: [
+					{
+						name: 'Percentage',
+						value: 'percent',
+					},
+					{
+						name: 'Absolute (USD)',
+						value: 'absolute',
+					},
+				],
+				default: 'percent',
+				displayOptions: {
+					show: {
+						event: ['priceChangeAlert'],
+					},
+				},
+				description: 'Whether the threshold is a percentage or a USD amount',
+			},
 			{
 				displayName: 'Price Change Threshold (%)',
 				name: 'priceThreshold',
@@ -199,10 +356,210 @@ export class ChilizTrigger implements INodeType {
 				displayOptions: {
 					show: {
 						event: ['priceChangeAlert'],
+						thresholdType: ['percent'],
 					},
 				},
 				description: 'Minimum percentage change to trigger',
 			},
+			{
+				displayName: 'Price Change Threshold (USD)',
+				name: 'absoluteThreshold',
+				type: 'number',
+				typeOptions: {
+					numberPrecision: 6,
+				},
+				default: 0.1,
+				displayOptions: {
+					show: {
+						event: ['priceChangeAlert'],
+						thresholdType: ['absolute'],
+					},
+				},
+				description: 'Minimum USD price change to trigger',
+			},
+			{
+				displayName: 'Direction',
+				name: 'priceDirection',
+				type: 'options',
+				options: [
+					{
+						name: 'Up or Down',
+						value: 'both',
+					},
+					{
+						name: 'Up Only',
+						value: 'up',
+					},
+					{
+						name: 'Down Only',
+						value: 'down',
+					},
+				],
+				default: 'both',
+				displayOptions: {
+					show: {
+						event: ['priceChangeAlert'],
+					},
+				},
+				description: 'Which price moves should trigger',
+			},
+			{
+				displayName: 'Window (Minutes)',
+				name: 'windowMinutes',
+				type: 'number',
+				default: 0,
+				displayOptions: {
+					show: {
+						event: ['priceChangeAlert'],
+					},
+				},
+				description:
+					'Only compare against prices seen within this many minutes (e.g., 60 for "moved 5% within 1 hour"). 0 compares against the price at the last alert.',
+			},
+
+			// CHZ transfer parameters
+			{
+				displayName: 'Watched Addresses',
+				name: 'watchAddresses',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						event: ['chzTransfer'],
+					},
+				},
+				placeholder: '0x..., 0x...',
+				description: 'Comma-separated addresses whose CHZ movements should trigger',
+			},
+			{
+				displayName: 'Direction',
+				name: 'transferDirection',
+				type: 'options',
+				options: [
+					{
+						name: 'Incoming or Outgoing',
+						value: 'both',
+					},
+					{
+						name: 'Incoming Only',
+						value: 'incoming',
+					},
+					{
+						name: 'Outgoing Only',
+						value: 'outgoing',
+					},
+				],
+				default: 'both',
+				displayOptions: {
+					show: {
+						event: ['chzTransfer'],
+					},
+				},
+				description: 'Which movements of the watched addresses should trigger',
+			},
+			{
+				displayName: 'Minimum Amount (CHZ)',
+				name: 'minAmount',
+				type: 'string',
+				default: '0',
+				displayOptions: {
+					show: {
+						event: ['chzTransfer'],
+					},
+				},
+				description: 'Ignore transfers below this amount of CHZ',
+			},
+			{
+				displayName: 'Include Internal Transfers',
+				name: 'includeInternal',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						event: ['chzTransfer'],
+					},
+				},
+				description:
+					'Whether to also report CHZ moved by contracts (internal transactions), read from the ChilizScan txlistinternal API. Blocks the explorer has not indexed yet are missed, so use enough confirmations.',
+			},
+
+			// Poll lifecycle parameters
+			{
+				displayName: 'Lifecycle Events',
+				name: 'lifecycleEvents',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Poll Closing Soon',
+						value: 'pollClosingSoon',
+					},
+					{
+						name: 'Leader Changed',
+						value: 'leaderChanged',
+					},
+					{
+						name: 'Poll Ended',
+						value: 'pollEnded',
+					},
+				],
+				default: ['pollClosingSoon', 'leaderChanged', 'pollEnded'],
+				displayOptions: {
+					show: {
+						event: ['pollLifecycle'],
+					},
+				},
+				description: 'Which poll lifecycle changes to emit',
+			},
+			{
+				displayName: 'Closing Soon Lead Time (Minutes)',
+				name: 'closingLeadMinutes',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: POLL_LIFECYCLE.closingLeadMinutes,
+				displayOptions: {
+					show: {
+						event: ['pollLifecycle'],
+					},
+				},
+				description: 'How long before its end date a poll is reported as closing soon',
+			},
+
+			// Block cursor parameters
+			{
+				displayName: 'Confirmations',
+				name: 'confirmations',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: TRIGGER_CURSOR.confirmations,
+				displayOptions: {
+					show: {
+						event: ['tokenTransfer', 'chzTransfer', 'newBlock', 'contractEvent'],
+					},
+				},
+				description:
+					'Blocks that must follow a block before it is processed. Events from blocks later reorged out are emitted again with removed set to true.',
+			},
+			{
+				displayName: 'Max Blocks Per Poll',
+				name: 'maxBlocksPerPoll',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: TRIGGER_CURSOR.maxBlocksPerPoll,
+				displayOptions: {
+					show: {
+						event: ['tokenTransfer', 'chzTransfer', 'newBlock', 'contractEvent'],
+					},
+				},
+				description:
+					'Most blocks scanned in one poll. When the trigger falls further behind, the rest is scanned by the next polls.',
+			},
 
 			// Contract event parameters
 			{
@@ -232,6 +589,19 @@ export class ChilizTrigger implements INodeType {
 		],
 	};
 
+	methods = {
+		loadOptions: {
+			async getFanTokens(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const registry = await loadTokenRegistry.call(this);
+				return Object.values(registry).map((token) => ({
+					name: `${token.name} (${token.symbol})`,
+					value: token.symbol,
+					description: token.address || `No ${token.network} address configured`,
+				}));
+			},
+		},
+	};
+
 	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
 		// Show licensing notice once
 		if (!licensingNoticeShown) {
@@ -252,6 +622,8 @@ export class ChilizTrigger implements INodeType {
 					return await pollNewPolls(this, webhookData);
 				case 'pollEnded':
 					return await pollEndedPolls(this, webhookData);
+				case 'pollLifecycle':
+					return await pollPollLifecycle(this, webhookData);
 				case 'tokenTransfer':
 					return await pollTokenTransfers(this, webhookData);
 				case 'newRewardAvailable':
@@ -260,6 +632,8 @@ export class ChilizTrigger implements INodeType {
 					return await pollPriceChanges(this, webhookData);
 				case 'newFanTokenListed':
 					return await pollNewTokens(this, webhookData);
+				case 'chzTransfer':
+					return await pollChzTransfers(this, webhookData);
 				case 'newBlock':
 					return await pollNewBlocks(this, webhookData);
 				case 'contractEvent':
@@ -268,6 +642,13 @@ export class ChilizTrigger implements INodeType {
 					return null;
 			}
 		} catch (error) {
+			// Errors an event reports on purpose reach the editor on a manual run
+			if (
+				this.getMode() === 'manual' &&
+				(error instanceof NodeApiError || error instanceof NodeOperationError)
+			) {
+				throw error;
+			}
 			this.logger.error(`Chiliz Trigger error: ${error instanceof Error ? error.message : 'Unknown error'}`);
 			return null;
 		}
@@ -276,38 +657,66 @@ export class ChilizTrigger implements INodeType {
 
 // Poll functions as standalone helpers
 
+// Polls of a list not seen in the previous list. The seen IDs are replaced by the IDs of
+// the current list, so they never outgrow the API response. A last ID stored by earlier
+// versions (compared as a string) marks the polls up to it as seen.
+function takeUnseenPolls(
+	webhookData: IDataObject,
+	polls: IDataObject[],
+	seenKey: 'seenPollIds' | 'seenEndedPollIds',
+	legacyKey: 'lastPollId' | 'lastEndedPollId',
+): IDataObject[] {
+	const ids = polls.map((poll) => String(poll.id ?? ''));
+	let seen = webhookData[seenKey] as string[] | undefined;
+	const lastId = webhookData[legacyKey] as string | undefined;
+	if (!seen && lastId !== undefined) {
+		seen = ids.filter((id) => !(id > lastId));
+	}
+
+	const seenIds = new Set(seen ?? []);
+	webhookData[seenKey] = ids;
+	delete webhookData[legacyKey];
+	return polls.filter((_, i) => ids[i] && !seenIds.has(ids[i]));
+}
+
+// ID of the option leading a poll, or null while no option has votes or the top is tied
+function getPollLeader(options: IDataObject[]): string | null {
+	const ranked = [...options].sort((a, b) => (Number(b.votes) || 0) - (Number(a.votes) || 0));
+	const [first, second] = ranked;
+	if (!first || !(Number(first.votes) > 0)) return null;
+	if (second && Number(second.votes) === Number(first.votes)) return null;
+	return String(first.id);
+}
+
+// Token filter of the poll events, resolved through the token registry like the poll
+// operations of the node
+async function getPollTokenSymbol(context: IPollFunctions): Promise<string> {
+	return canonicalSymbol(
+		await loadTokenRegistry.call(context),
+		context.getNodeParameter('tokenSymbol', '') as string,
+	);
+}
+
 async function pollNewPolls(
 	context: IPollFunctions,
 	webhookData: IDataObject,
 ): Promise<INodeExecutionData[][] | null> {
-	const tokenSymbol = context.getNodeParameter('tokenSymbol', '') as string;
-	const lastPollId = webhookData.lastPollId as string | undefined;
-
 	try {
+		const tokenSymbol = await getPollTokenSymbol(context);
 		let endpoint = '/polls/active';
 		if (tokenSymbol) endpoint += `?token=${tokenSymbol}`;
 
-		const polls = (await triggerSociosApiRequest(context, endpoint, 'GET')) as IDataObject[];
+		const polls = (await sociosApiRequest.call(context, endpoint, 'GET')) as IDataObject[];
 
 		if (!Array.isArray(polls) || polls.length === 0) {
 			return null;
 		}
 
-		// Filter new polls
-		const newPolls = lastPollId
-			? polls.filter((poll: IDataObject) => poll.id && poll.id > lastPollId)
-			: polls;
-
+		const newPolls = takeUnseenPolls(webhookData, polls, 'seenPollIds', 'lastPollId');
 		if (newPolls.length === 0) {
 			return null;
 		}
 
-		// Update last seen poll ID
-		const latestPoll = newPolls.reduce((a: IDataObject, b: IDataObject) =>
-			(a.id as string) > (b.id as string) ? a : b,
-		);
-		webhookData.lastPollId = latestPoll.id;
-
 		return [
 			newPolls.map((poll: IDataObject) => ({
 				json: {
@@ -333,34 +742,27 @@ async function pollEndedPolls(
 	context: IPollFunctions,
 	webhookData: IDataObject,
 ): Promise<INodeExecutionData[][] | null> {
-	const tokenSymbol = context.getNodeParameter('tokenSymbol', '') as string;
-	const lastEndedPollId = webhookData.lastEndedPollId as string | undefined;
-
 	try {
+		const tokenSymbol = await getPollTokenSymbol(context);
 		let endpoint = '/polls/ended';
 		if (tokenSymbol) endpoint += `?token=${tokenSymbol}`;
 
-		const polls = (await triggerSociosApiRequest(context, endpoint, 'GET')) as IDataObject[];
+		const polls = (await sociosApiRequest.call(context, endpoint, 'GET')) as IDataObject[];
 
 		if (!Array.isArray(polls) || polls.length === 0) {
 			return null;
 		}
 
-		// Filter newly ended polls
-		const newlyEndedPolls = lastEndedPollId
-			? polls.filter((poll: IDataObject) => poll.id && poll.id > lastEndedPollId)
-			: polls;
-
+		const newlyEndedPolls = takeUnseenPolls(
+			webhookData,
+			polls,
+			'seenEndedPollIds',
+			'lastEndedPollId',
+		);
 		if (newlyEndedPolls.length === 0) {
 			return null;
 		}
 
-		// Update last seen ended poll ID
-		const latestPoll = newlyEndedPolls.reduce((a: IDataObject, b: IDataObject) =>
-			(a.id as string) > (b.id as string) ? a : b,
-		);
-		webhookData.lastEndedPollId = latestPoll.id;
-
 		return [
 			newlyEndedPolls.map((poll: IDataObject) => ({
 				json: {
@@ -382,29 +784,167 @@ async function pollEndedPolls(
 	}
 }
 
-async function pollTokenTransfers(
+async function pollPollLifecycle(
 	context: IPollFunctions,
 	webhookData: IDataObject,
 ): Promise<INodeExecutionData[][] | null> {
-	const tokenSymbol = context.getNodeParameter('tokenSymbol') as string;
-	const filterAddress = context.getNodeParameter('filterAddress', '') as string;
-	const lastBlockNumber = webhookData.lastBlockNumber as number | undefined;
+	const emit = new Set(
+		context.getNodeParameter('lifecycleEvents', [
+			'pollClosingSoon',
+			'leaderChanged',
+			'pollEnded',
+		]) as string[],
+	);
+	const leadMs =
+		(context.getNodeParameter('closingLeadMinutes', POLL_LIFECYCLE.closingLeadMinutes) as number) *
+		60000;
 
 	try {
-		// Get current block number
-		const currentBlockHex = (await triggerJsonRpcRequest(context, 'eth_blockNumber')) as string;
-		const currentBlock = parseInt(currentBlockHex, 16);
-
-		// Set from block (last checked or recent)
-		const fromBlock = lastBlockNumber ? lastBlockNumber + 1 : currentBlock - 10;
+		const tokenSymbol = await getPollTokenSymbol(context);
+		let endpoint = '/polls/active';
+		if (tokenSymbol) endpoint += `?token=${tokenSymbol}`;
 
-		if (fromBlock > currentBlock) {
+		const polls = (await sociosApiRequest.call(context, endpoint, 'GET')) as IDataObject[];
+		if (!Array.isArray(polls)) {
 			return null;
 		}
 
+		const now = Date.now();
+		const previous = (webhookData.pollStates as Record<string, IPollLifecycleState>) || {};
+		const endedIds = (webhookData.endedPollIds as string[] | undefined) || [];
+		const states: Record<string, IPollLifecycleState> = {};
+		const items: INodeExecutionData[] = [];
+		const pollFields = (poll: IDataObject) => ({
+			pollId: String(poll.id),
+			title: poll.title,
+			tokenSymbol: poll.tokenSymbol || tokenSymbol,
+			endDate: poll.endDate,
+		});
+
+		for (const poll of polls) {
+			const id = String(poll.id ?? '');
+			const endTime = Date.parse(poll.endDate as string);
+			// Polls past their end date are handled as ended below
+			if (!id || endedIds.includes(id) || endTime <= now) continue;
+
+			const options = (poll.options as IDataObject[]) || [];
+			const before = previous[id];
+			const leader = getPollLeader(options);
+			const state: IPollLifecycleState = {
+				endDate: poll.endDate as string,
+				leader: leader ?? before?.leader ?? null,
+				closingSoonSent: before?.closingSoonSent ?? false,
+			};
+
+			if (
+				before &&
+				leader &&
+				before.leader &&
+				leader !== before.leader &&
+				emit.has('leaderChanged')
+			) {
+				const option = (optionId: string | null) =>
+					options.find((candidate) => String(candidate.id) === optionId) ?? { id: optionId };
+				items.push({
+					json: {
+						event: 'leaderChanged',
+						...pollFields(poll),
+						previousLeader: option(before.leader),
+						leader: option(leader),
+						options,
+						timestamp: new Date(now).toISOString(),
+					},
+				});
+			}
+
+			if (!state.closingSoonSent && endTime - now <= leadMs) {
+				state.closingSoonSent = true;
+				if (emit.has('pollClosingSoon')) {
+					items.push({
+						json: {
+							event: 'pollClosingSoon',
+							...pollFields(poll),
+							minutesLeft: Math.max(0, Math.round((endTime - now) / 60000)),
+							options,
+							leader: options.find((option) => String(option.id) === leader) ?? null,
+							timestamp: new Date(now).toISOString(),
+						},
+					});
+				}
+			}
+
+			states[id] = state;
+		}
+
+		// Tracked polls that ended or left the active list get their final results
+		for (const id of Object.keys(previous).filter((pollId) => !states[pollId])) {
+			let results: IDataObject;
+			try {
+				results = (await sociosApiRequest.call(
+					context,
+					`/polls/${id}/results`,
+					'GET',
+				)) as IDataObject;
+			} catch (error) {
+				// The API no longer knows the poll (cancelled): stop tracking it
+				if (error instanceof NodeApiError && String(error.httpCode) === '404') {
+					endedIds.push(id);
+					continue;
+				}
+				throw error;
+			}
+
+			endedIds.push(id);
+			if (emit.has('pollEnded')) {
+				const options = (results.options as IDataObject[]) || [];
+				const winner = getPollLeader(options);
+				items.push({
+					json: {
+						event: 'pollEnded',
+						pollId: id,
+						title: results.title,
+						tokenSymbol: results.tokenSymbol || tokenSymbol,
+						results: options,
+						winner: options.find((option) => String(option.id) === winner) ?? null,
+						totalVotes: results.totalVotes,
+						totalParticipants: results.totalParticipants,
+						endDate: results.endDate || previous[id].endDate,
+						timestamp: new Date(now).toISOString(),
+					},
+				});
+			}
+		}
+
+		webhookData.pollStates = states;
+		webhookData.endedPollIds = endedIds.slice(-POLL_LIFECYCLE.endedPollMemory);
+
+		return items.length > 0 ? [items] : null;
+	} catch (error) {
+		context.logger.error(`Poll lifecycle error: ${(error as Error).message}`);
+		return null;
+	}
+}
+
+async function pollTokenTransfers(
+	context: IPollFunctions,
+	webhookData: IDataObject,
+): Promise<INodeExecutionData[][] | null> {
+	const tokenSymbol = context.getNodeParameter('tokenSymbol') as string;
+	const filterAddress = context.getNodeParameter('filterAddress', '') as string;
+
+	try {
 		// Find token contract
-		const token = KNOWN_FAN_TOKENS.find((t) => t.symbol === tokenSymbol);
-		if (!token) {
+		const token = resolveToken(await loadTokenRegistry.call(context), tokenSymbol);
+
+		// The cursor starts over when the token or filter changes
+		const scope = `tokenTransfer:${token.address}:${filterAddress.toLowerCase()}`;
+		const range = await getCursorRange.call(
+			context,
+			webhookData,
+			scope,
+			getCursorOptions(context),
+		);
+		if (!range) {
 			return null;
 		}
 
@@ -422,21 +962,10 @@ async function pollTokenTransfers(
 		}
 
 		// Get logs
-		const logs = (await triggerJsonRpcRequest(context, 'eth_getLogs', [
-			{
-				fromBlock: '0x' + fromBlock.toString(16),
-				toBlock: '0x' + currentBlock.toString(16),
-				address: token.address,
-				topics,
-			},
-		])) as IDataObject[];
+		const logs = await getRangeLogs(context, { address: token.address, topics }, range);
 
-		// Update last block number
-		webhookData.lastBlockNumber = currentBlock;
-
-		if (!Array.isArray(logs) || logs.length === 0) {
-			return null;
-		}
+		// Move the cursor past the processed blocks
+		commitCursor(webhookData, scope, range, processedBlocksFromLogs(logs));
 
 		// Parse transfer events
 		const transfers = logs.map((log: IDataObject) => {
@@ -448,6 +977,7 @@ async function pollTokenTransfers(
 			return {
 				json: {
 					event: 'tokenTransfer',
+					removed: false,
 					tokenSymbol,
 					tokenName: token.name,
 					from,
@@ -455,6 +985,7 @@ async function pollTokenTransfers(
 					value: value.toString(),
 					valueFormatted: (Number(value) / 1e18).toFixed(4),
 					blockNumber: parseInt(log.blockNumber as string, 16),
+					blockHash: log.blockHash,
 					transactionHash: log.transactionHash,
 					logIndex: parseInt(log.logIndex as string, 16),
 					timestamp: new Date().toISOString(),
@@ -462,7 +993,11 @@ async function pollTokenTransfers(
 			};
 		});
 
-		return [transfers];
+		const items = [
+			...retractedLogItems(range, { event: 'tokenTransfer', tokenSymbol, tokenName: token.name }),
+			...transfers,
+		];
+		return items.length > 0 ? [items] : null;
 	} catch (error) {
 		context.logger.error(`Poll token transfers error: ${(error as Error).message}`);
 		return null;
@@ -476,7 +1011,7 @@ async function pollNewRewards(
 	const lastRewardId = webhookData.lastRewardId as string | undefined;
 
 	try {
-		const rewards = (await triggerSociosApiRequest(
+		const rewards = (await sociosApiRequest.call(
 			context,
 			'/rewards/available',
 			'GET',
@@ -527,27 +1062,89 @@ async function pollPriceChanges(
 	webhookData: IDataObject,
 ): Promise<INodeExecutionData[][] | null> {
 	const tokenSymbol = context.getNodeParameter('tokenSymbol') as string;
-	const threshold = context.getNodeParameter('priceThreshold', 5) as number;
-	const lastPrice = webhookData.lastPrice as number | undefined;
+	const priceSource = context.getNodeParameter('priceSource', 'dex') as string;
+	const thresholdType = context.getNodeParameter('thresholdType', 'percent') as string;
+	const threshold =
+		thresholdType === 'absolute'
+			? (context.getNodeParameter('absoluteThreshold', 0.1) as number)
+			: (context.getNodeParameter('priceThreshold', 5) as number);
+	const direction = context.getNodeParameter('priceDirection', 'both') as string;
+	const windowMinutes = context.getNodeParameter('windowMinutes', 0) as number;
 
 	try {
-		// Note: This would require a price API - using placeholder
-		// In production, integrate with CoinGecko, CoinMarketCap, or DEX price feeds
-		const mockPrice = 1.5 + Math.random() * 0.5; // Mock price for demo
+		const registry = await loadTokenRegistry.call(context);
+		const provider = await resolvePriceProvider.call(context, priceSource);
+		const query = {
+			symbol: tokenSymbol,
+			tokenAddress: registry[tokenSymbol.toUpperCase()]?.address,
+			pairAddress: context.getNodeParameter('pairAddress', '') as string,
+			usdPairAddress: context.getNodeParameter('usdPairAddress', '') as string,
+			quoteSymbol: context.getNodeParameter('quoteSymbol', 'USDT') as string,
+		};
+		const price = await provider.getPrice.call(context, query);
+
+		const now = Date.now();
+		const currentPrice = parseFloat(price.priceUsd);
+		if (Number.isNaN(currentPrice)) {
+			throw new Error(`Price source returned no USD price for ${tokenSymbol}`);
+		}
+		const current: IPricePoint = { timestamp: now, price: currentPrice };
+
+		// Rolling history lives in static data so it survives restarts. Prices of another token,
+		// source or window are not comparable, so changing any of them starts the history over.
+		const scope = [
+			'priceChangeAlert',
+			query.symbol.toUpperCase(),
+			priceSource,
+			query.pairAddress.toLowerCase(),
+			query.usdPairAddress.toLowerCase(),
+			query.quoteSymbol.toUpperCase(),
+			windowMinutes,
+		].join(':');
+		const stored = webhookData.priceHistory as IPriceHistory | undefined;
+		let history = (stored?.scope === scope ? stored.points : []).filter(
+			(point) => windowMinutes <= 0 || point.timestamp >= now - windowMinutes * 60000,
+		);
 
-		if (lastPrice === undefined) {
-			webhookData.lastPrice = mockPrice;
+		// Without a window only the baseline (price at the last alert) is kept
+		const references = windowMinutes > 0 ? history : history.slice(0, 1);
+		history = windowMinutes > 0 ? [...history, current].slice(-MAX_PRICE_HISTORY) : references;
+		webhookData.priceHistory = {
+			scope,
+			points: history.length > 0 ? history : [current],
+		} as IPriceHistory;
+
+		if (references.length === 0) {
 			return null;
 		}
 
-		const percentageChange = ((mockPrice - lastPrice) / lastPrice) * 100;
+		// Largest rise is measured from the window low, largest fall from the window high
+		const low = references.reduce((a, b) => (b.price < a.price ? b : a));
+		const high = references.reduce((a, b) => (b.price > a.price ? b : a));
+		const candidates = [
+			{ direction: 'up', reference: low, change: currentPrice - low.price },
+			{ direction: 'down', reference: high, change: currentPrice - high.price },
+		].filter((move) => direction === 'both' || move.direction === direction);
+
+		const alert = candidates
+			.map((move) => ({
+				...move,
+				percentageChange:
+					move.reference.price === 0 ? 0 : (move.change / move.reference.price) * 100,
+			}))
+			.filter((move) => (move.direction === 'up' ? move.change > 0 : move.change < 0))
+			.find((move) =>
+				thresholdType === 'absolute'
+					? Math.abs(move.change) >= threshold
+					: Math.abs(move.percentageChange) >= threshold,
+			);
 
-		if (Math.abs(percentageChange) < threshold) {
-			webhookData.lastPrice = mockPrice;
+		if (!alert) {
 			return null;
 		}
 
-		webhookData.lastPrice = mockPrice;
+		// Start a new baseline so the same move does not alert twice
+		webhookData.priceHistory = { scope, points: [current] } as IPriceHistory;
 
 		return [
 			[
@@ -555,18 +1152,30 @@ async function pollPriceChanges(
 					json: {
 						event: 'priceChangeAlert',
 						tokenSymbol,
-						previousPrice: lastPrice,
-						currentPrice: mockPrice,
-						percentageChange: percentageChange.toFixed(2),
-						direction: percentageChange > 0 ? 'up' : 'down',
+						previousPrice: alert.reference.price,
+						previousPriceAt: new Date(alert.reference.timestamp).toISOString(),
+						currentPrice,
+						change: alert.change,
+						percentageChange: alert.percentageChange.toFixed(2),
+						direction: alert.direction,
 						threshold,
-						timestamp: new Date().toISOString(),
-						note: 'Price data is simulated - integrate with price API for production',
+						thresholdType,
+						windowMinutes,
+						source: price.source || priceSource,
+						timestamp: new Date(now).toISOString(),
 					},
 				},
 			],
 		];
 	} catch (error) {
+		// A manual run shows why no price could be read; scheduled polls log it and try again
+		if (context.getMode() === 'manual') {
+			if (error instanceof NodeApiError || error instanceof NodeOperationError) throw error;
+			throw new NodeOperationError(
+				context.getNode(),
+				`Failed to read the price of ${tokenSymbol}: ${(error as Error).message}`,
+			);
+		}
 		context.logger.error(`Poll price changes error: ${(error as Error).message}`);
 		return null;
 	}
@@ -579,9 +1188,11 @@ async function pollNewTokens(
 	const knownTokens = webhookData.knownTokens as string[] | undefined;
 
 	try {
-		// In production, this would query an API for newly listed tokens
-		// For now, compare against known tokens list
-		const currentTokens = KNOWN_FAN_TOKENS.map((t) => t.symbol);
+		// Tokens count as listed once the registry has a contract address for this network
+		const registry = await loadTokenRegistry.call(context);
+		const currentTokens = Object.values(registry)
+			.filter((t) => t.address)
+			.map((t) => t.symbol);
 
 		if (!knownTokens) {
 			webhookData.knownTokens = currentTokens;
@@ -598,13 +1209,14 @@ async function pollNewTokens(
 
 		return [
 			newTokens.map((symbol) => {
-				const token = KNOWN_FAN_TOKENS.find((t) => t.symbol === symbol);
+				const token = registry[symbol];
 				return {
 					json: {
 						event: 'newFanTokenListed',
 						tokenSymbol: symbol,
-						tokenName: token?.name || symbol,
-						tokenAddress: token?.address || 'unknown',
+						tokenName: token.name,
+						tokenAddress: token.address,
+						club: token.club,
 						timestamp: new Date().toISOString(),
 					},
 				};
@@ -616,51 +1228,248 @@ async function pollNewTokens(
 	}
 }
 
-async function pollNewBlocks(
+async function pollChzTransfers(
 	context: IPollFunctions,
 	webhookData: IDataObject,
 ): Promise<INodeExecutionData[][] | null> {
-	const lastBlockNumber = webhookData.lastBlockNumber as number | undefined;
+	const watchAddresses = context.getNodeParameter('watchAddresses', '') as string;
+	const direction = context.getNodeParameter('transferDirection', 'both') as string;
+	const minAmount = context.getNodeParameter('minAmount', '0') as string;
+	const includeInternal = context.getNodeParameter('includeInternal', false) as boolean;
 
 	try {
-		// Get latest block
-		const blockHex = (await triggerJsonRpcRequest(context, 'eth_blockNumber')) as string;
-		const currentBlock = parseInt(blockHex, 16);
+		const watched = [
+			...new Set(
+				watchAddresses
+					.split(',')
+					.map((address) => address.trim().toLowerCase())
+					.filter((address) => address !== ''),
+			),
+		].sort();
+		if (watched.length === 0) {
+			return null;
+		}
+		const invalid = watched.find((address) => !isValidAddress(address));
+		if (invalid) {
+			throw new Error(`Invalid watched address: ${invalid}`);
+		}
+		if (!/^\d+(\.\d+)?$/.test(minAmount.trim() || '0')) {
+			throw new Error(`Invalid minimum amount: ${minAmount}`);
+		}
+		const minWei = BigInt(formatCHZToWei(minAmount.trim() || '0'));
 
-		if (lastBlockNumber !== undefined && currentBlock <= lastBlockNumber) {
+		// The cursor starts over when the watched addresses change
+		const scope = `chzTransfer:${watched.join(',')}`;
+		const range = await getCursorRange.call(
+			context,
+			webhookData,
+			scope,
+			getCursorOptions(context),
+		);
+		if (!range) {
 			return null;
 		}
 
-		// Get block details
-		const blockData = (await triggerJsonRpcRequest(context, 'eth_getBlockByNumber', [
-			'0x' + currentBlock.toString(16),
-			false,
-		])) as IDataObject;
+		const blocks = await getRangeBlocks(context, range, true);
+		const blockByNumber = new Map(
+			blocks.map((block) => [parseInt(block.number as string, 16), block]),
+		);
 
-		webhookData.lastBlockNumber = currentBlock;
+		const movements: IChzMovement[] = [];
+
+		// Value transfers in block transactions
+		for (const block of blocks) {
+			for (const tx of (block.transactions as IDataObject[]) || []) {
+				const from = ((tx.from as string) || '').toLowerCase();
+				const to = ((tx.to as string) || '').toLowerCase();
+				const value = BigInt((tx.value as string) || '0x0');
+				if (value === BigInt(0) || (!watched.includes(from) && !watched.includes(to))) {
+					continue;
+				}
+				movements.push({
+					id: tx.hash as string,
+					from,
+					to,
+					value,
+					blockNumber: parseInt(block.number as string, 16),
+					transactionHash: tx.hash as string,
+					internal: false,
+				});
+			}
+		}
 
-		if (!blockData) {
-			return null;
+		// Reverted transactions move no CHZ
+		for (const batch of chunkArray(movements, MAX_BATCH_SIZE)) {
+			const receipts = await jsonRpcBatchRequest.call(
+				context,
+				batch.map((movement) => ({
+					method: 'eth_getTransactionReceipt',
+					params: [movement.transactionHash],
+				})),
+			);
+			receipts.forEach((receipt, i) => {
+				if ((receipt.result as IDataObject | null)?.status === '0x0') {
+					batch[i].value = BigInt(0);
+				}
+			});
 		}
 
-		return [
-			[
-				{
+		// CHZ moved by contract calls, as indexed by ChilizScan
+		if (includeInternal && range.toBlock >= range.fromBlock) {
+			for (const address of watched) {
+				const internalTxs = await chilizScanRequestAll.call(
+					context,
+					'account',
+					'txlistinternal',
+					{ address, startblock: range.fromBlock, endblock: range.toBlock },
+				);
+				for (const tx of internalTxs) {
+					const blockNumber = Number(tx.blockNumber);
+					const id = `${tx.hash}:internal:${tx.traceId ?? ''}`;
+					if (
+						tx.isError === '1' ||
+						!blockByNumber.has(blockNumber) ||
+						movements.some((movement) => movement.id === id)
+					) {
+						continue;
+					}
+					movements.push({
+						id,
+						from: ((tx.from as string) || '').toLowerCase(),
+						to: ((tx.to as string) || '').toLowerCase(),
+						value: BigInt((tx.value as string) || '0'),
+						blockNumber,
+						transactionHash: tx.hash as string,
+						internal: true,
+					});
+				}
+			}
+		}
+
+		// One item per watched side, so a transfer between two watched addresses is reported
+		// as an outflow of one and an inflow of the other
+		const items: INodeExecutionData[] = [];
+		const processed = new Map<number, IProcessedBlock>();
+		for (const movement of movements) {
+			if (movement.value === BigInt(0) || movement.value < minWei) continue;
+			const sides = [
+				{ direction: 'outgoing', watchedAddress: movement.from },
+				{ direction: 'incoming', watchedAddress: movement.to },
+			].filter(
+				(side) =>
+					watched.includes(side.watchedAddress) &&
+					(direction === 'both' || side.direction === direction),
+			);
+			if (sides.length === 0) continue;
+
+			const block = blockByNumber.get(movement.blockNumber) as IDataObject;
+			for (const side of sides) {
+				items.push({
 					json: {
-						event: 'newBlock',
-						blockNumber: currentBlock,
-						blockHash: blockData.hash,
-						parentHash: blockData.parentHash,
-						timestamp: parseInt(blockData.timestamp as string, 16),
-						gasUsed: parseInt(blockData.gasUsed as string, 16),
-						gasLimit: parseInt(blockData.gasLimit as string, 16),
-						transactionCount: (blockData.transactions as string[])?.length || 0,
-						miner: blockData.miner,
-						timestampIso: new Date().toISOString(),
+						event: 'chzTransfer',
+						removed: false,
+						...side,
+						from: movement.from,
+						to: movement.to,
+						value: movement.value.toString(),
+						valueFormatted: formatWeiToCHZ(movement.value),
+						internal: movement.internal,
+						blockNumber: movement.blockNumber,
+						blockHash: block.hash,
+						blockTimestamp: parseInt(block.timestamp as string, 16),
+						transactionHash: movement.transactionHash,
+						timestamp: new Date().toISOString(),
 					},
+				});
+			}
+
+			// Remember the blocks of emitted transfers, so a reorg retracts them
+			const processedBlock = processed.get(movement.blockNumber) ?? {
+				number: movement.blockNumber,
+				hash: block.hash as string,
+				events: [],
+			};
+			processedBlock.events.push(movement.id);
+			processed.set(movement.blockNumber, processedBlock);
+		}
+		commitCursor(webhookData, scope, range, [...processed.values()]);
+
+		const retracted = range.retracted.flatMap((block) =>
+			block.events.map((id) => ({
+				json: {
+					event: 'chzTransfer',
+					removed: true,
+					blockNumber: block.number,
+					blockHash: block.hash,
+					transactionHash: id.split(':')[0],
+					internal: id.includes(':internal:'),
+					timestamp: new Date().toISOString(),
 				},
-			],
+			})),
+		);
+
+		const output = [...retracted, ...items];
+		return output.length > 0 ? [output] : null;
+	} catch (error) {
+		context.logger.error(`Poll CHZ transfers error: ${(error as Error).message}`);
+		return null;
+	}
+}
+
+async function pollNewBlocks(
+	context: IPollFunctions,
+	webhookData: IDataObject,
+): Promise<INodeExecutionData[][] | null> {
+	try {
+		const range = await getCursorRange.call(
+			context,
+			webhookData,
+			'newBlock',
+			getCursorOptions(context),
+		);
+		if (!range) {
+			return null;
+		}
+
+		// Get block details
+		const blocks = await getRangeBlocks(context, range);
+
+		// Every block is remembered, so a reorg retracts each orphaned block
+		const processed = blocks.map((block) => ({
+			number: parseInt(block.number as string, 16),
+			hash: block.hash as string,
+			events: [],
+		}));
+		commitCursor(webhookData, 'newBlock', range, processed);
+
+		const retracted = range.retracted.map((block) => ({
+			json: {
+				event: 'newBlock',
+				removed: true,
+				blockNumber: block.number,
+				blockHash: block.hash,
+				timestampIso: new Date().toISOString(),
+			},
+		}));
+		const items = [
+			...retracted,
+			...blocks.map((blockData) => ({
+				json: {
+					event: 'newBlock',
+					removed: false,
+					blockNumber: parseInt(blockData.number as string, 16),
+					blockHash: blockData.hash,
+					parentHash: blockData.parentHash,
+					timestamp: parseInt(blockData.timestamp as string, 16),
+					gasUsed: parseInt(blockData.gasUsed as string, 16),
+					gasLimit: parseInt(blockData.gasLimit as string, 16),
+					transactionCount: (blockData.transactions as string[])?.length || 0,
+					miner: blockData.miner,
+					timestampIso: new Date().toISOString(),
+				},
+			})),
 		];
+		return items.length > 0 ? [items] : null;
 	} catch (error) {
 		context.logger.error(`Poll new blocks error: ${(error as Error).message}`);
 		return null;
@@ -673,57 +1482,56 @@ async function pollContractEvents(
 ): Promise<INodeExecutionData[][] | null> {
 	const contractAddress = context.getNodeParameter('contractAddress') as string;
 	const eventSignature = context.getNodeParameter('eventSignature') as string;
-	const lastBlockNumber = webhookData.lastBlockNumber as number | undefined;
 
 	if (!contractAddress) {
 		return null;
 	}
 
 	try {
-		// Get current block number
-		const currentBlockHex = (await triggerJsonRpcRequest(context, 'eth_blockNumber')) as string;
-		const currentBlock = parseInt(currentBlockHex, 16);
-
-		// Set from block
-		const fromBlock = lastBlockNumber ? lastBlockNumber + 1 : currentBlock - 10;
-
-		if (fromBlock > currentBlock) {
+		// The cursor starts over when the contract or event changes
+		const scope = `contractEvent:${contractAddress.toLowerCase()}:${eventSignature.toLowerCase()}`;
+		const range = await getCursorRange.call(
+			context,
+			webhookData,
+			scope,
+			getCursorOptions(context),
+		);
+		if (!range) {
 			return null;
 		}
 
 		// Get logs
-		const logs = (await triggerJsonRpcRequest(context, 'eth_getLogs', [
-			{
-				fromBlock: '0x' + fromBlock.toString(16),
-				toBlock: '0x' + currentBlock.toString(16),
-				address: contractAddress,
-				topics: eventSignature ? [eventSignature] : undefined,
-			},
-		])) as IDataObject[];
-
-		// Update last block number
-		webhookData.lastBlockNumber = currentBlock;
+		const logs = await getRangeLogs(
+			context,
+			{ address: contractAddress, topics: eventSignature ? [eventSignature] : undefined },
+			range,
+		);
 
-		if (!Array.isArray(logs) || logs.length === 0) {
-			return null;
-		}
+		// Move the cursor past the processed blocks
+		commitCursor(webhookData, scope, range, processedBlocksFromLogs(logs));
 
 		// Parse events
 		const events = logs.map((log: IDataObject) => ({
 			json: {
 				event: 'contractEvent',
+				removed: false,
 				contractAddress,
 				eventTopic: (log.topics as string[])?.[0] || eventSignature,
 				topics: log.topics,
 				data: log.data,
 				blockNumber: parseInt(log.blockNumber as string, 16),
+				blockHash: log.blockHash,
 				transactionHash: log.transactionHash,
 				logIndex: parseInt(log.logIndex as string, 16),
 				timestamp: new Date().toISOString(),
 			},
 		}));
 
-		return [events];
+		const items = [
+			...retractedLogItems(range, { event: 'contractEvent', contractAddress }),
+			...events,
+		];
+		return items.length > 0 ? [items] : null;
 	} catch (error) {
 		context.logger.error(`Poll contract events error: ${(error as Error).message}`);
 		return null;
@@ -6,8 +6,14 @@
  */
 
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
-import { jsonRpcRequest, chilizScanRequest, formatWeiToCHZ, formatTokenAmount } from '../../transport/client';
-import { FAN_TOKENS } from '../../constants/constants';
+import {
+  jsonRpcRequest,
+  batchEthCall,
+  chilizScanRequest,
+  chilizScanRequestAll,
+  formatWeiToCHZ,
+  formatTokenAmount,
+} from '../../transport/client';
 import {
   hexToBigInt,
   hexToNumber,
@@ -15,6 +21,9 @@ import {
   buildCallData,
   formatTransactionResponse,
 } from '../../utils/helpers';
+import { getNonceStatus } from '../../transport/nonces';
+import { resolveChainId } from '../../transport/signer';
+import { loadTokenRegistry } from '../../utils/tokenRegistry';
 import type { IChilizCredentials } from '../../utils/types';
 
 /**
@@ -76,37 +85,45 @@ export async function getTokenBalances(
     decimals: 18,
   });
 
-  // Check each known fan token
-  for (const [symbol, tokenInfo] of Object.entries(FAN_TOKENS)) {
-    if (tokenInfo.address === '0x...') continue;
+  // Read balanceOf and decimals for every fan token with a contract in one batch
+  const registry = await loadTokenRegistry.call(
+    this,
+    this.getNodeParameter('tokenList', index, ''),
+  );
+  const tokens = Object.values(registry).filter((token) => token.address);
+  const balanceData = buildCallData('balanceOf(address)', [
+    { type: 'address', value: normalizedAddress },
+  ]);
+  const decimalsData = buildCallData('decimals()', []);
 
-    try {
-      const balanceData = buildCallData('balanceOf(address)', [
-        { type: 'address', value: normalizedAddress },
-      ]);
+  const results = await batchEthCall.call(
+    this,
+    tokens.flatMap((token) => [
+      { to: token.address as string, data: balanceData },
+      { to: token.address as string, data: decimalsData },
+    ]),
+  );
 
-      const balanceResult = await jsonRpcRequest.call(this, 'eth_call', [
-        { to: tokenInfo.address, data: balanceData },
-        'latest',
-      ]);
+  tokens.forEach((token, i) => {
+    const [balanceResult, decimalsResult] = results.slice(i * 2, i * 2 + 2);
+    if (!balanceResult.success) return;
 
-      const balance = hexToBigInt(balanceResult as string);
-      if (balance > BigInt(0)) {
-        balances.push({
-          token: symbol,
-          name: tokenInfo.name,
-          type: 'fan_token',
-          contractAddress: tokenInfo.address,
-          club: tokenInfo.club,
-          balance: balance.toString(),
-          balanceFormatted: formatTokenAmount(balance.toString(), 18),
-          decimals: 18,
-        });
-      }
-    } catch {
-      continue;
-    }
-  }
+    const balance = hexToBigInt(balanceResult.returnData);
+    if (balance === BigInt(0)) return;
+    if (token.decimals === undefined && !decimalsResult.success) return;
+
+    const decimals = token.decimals ?? hexToNumber(decimalsResult.returnData);
+    balances.push({
+      token: token.symbol,
+      name: token.name,
+      type: 'fan_token',
+      contractAddress: token.address,
+      club: token.club,
+      balance: balance.toString(),
+      balanceFormatted: formatTokenAmount(balance.toString(), decimals),
+      decimals,
+    });
+  });
 
   return [
     {
@@ -129,20 +146,24 @@ export async function getTransactionHistory(
   const address = this.getNodeParameter('address', index) as string;
   const startBlock = this.getNodeParameter('startBlock', index, 0) as number;
   const endBlock = this.getNodeParameter('endBlock', index, 99999999) as number;
+  const returnAll = this.getNodeParameter('returnAll', index, false) as boolean;
   const limit = this.getNodeParameter('limit', index, 10) as number;
+  const page = this.getNodeParameter('page', index, 1) as number;
   const sortOrder = this.getNodeParameter('sortOrder', index, 'desc') as string;
 
   const normalizedAddress = normalizeAddress(address);
 
   try {
-    const transactions = await chilizScanRequest.call(this, 'account', 'txlist', {
+    const params = {
       address: normalizedAddress,
       startblock: startBlock,
       endblock: endBlock,
-      page: 1,
-      offset: limit,
       sort: sortOrder,
-    });
+    };
+
+    const transactions = returnAll
+      ? await chilizScanRequestAll.call(this, 'account', 'txlist', params)
+      : await chilizScanRequest.call(this, 'account', 'txlist', { ...params, page, offset: limit });
 
     const txList = Array.isArray(transactions) ? transactions : [];
     const formattedTxs = txList.map((tx: IDataObject) => ({
@@ -183,15 +204,15 @@ export async function getTokenTransfers(
 ): Promise<INodeExecutionData[]> {
   const address = this.getNodeParameter('address', index) as string;
   const tokenAddress = this.getNodeParameter('tokenAddress', index, '') as string;
+  const returnAll = this.getNodeParameter('returnAll', index, false) as boolean;
   const limit = this.getNodeParameter('limit', index, 10) as number;
+  const page = this.getNodeParameter('page', index, 1) as number;
 
   const normalizedAddress = normalizeAddress(address);
 
   try {
     const params: Record<string, string | number> = {
       address: normalizedAddress,
-      page: 1,
-      offset: limit,
       sort: 'desc',
     };
 
@@ -199,7 +220,9 @@ export async function getTokenTransfers(
       params.contractaddress = normalizeAddress(tokenAddress);
     }
 
-    const transfers = await chilizScanRequest.call(this, 'account', 'tokentx', params);
+    const transfers = returnAll
+      ? await chilizScanRequestAll.call(this, 'account', 'tokentx', params)
+      : await chilizScanRequest.call(this, 'account', 'tokentx', { ...params, page, offset: limit });
 
     const transferList = Array.isArray(transfers) ? transfers : [];
     const formattedTransfers = transferList.map((transfer: IDataObject) => ({
@@ -240,21 +263,23 @@ export async function getAccountNonce(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
   const address = this.getNodeParameter('address', index) as string;
   const normalizedAddress = normalizeAddress(address);
 
-  const nonceHex = await jsonRpcRequest.call(this, 'eth_getTransactionCount', [
-    normalizedAddress,
-    'latest',
-  ]);
-
-  const nonce = hexToNumber(nonceHex as string);
+  const chainId = await resolveChainId.call(this, credentials);
+  const status = await getNonceStatus.call(this, chainId, normalizedAddress);
 
   return [
     {
       json: {
         address: normalizedAddress,
-        nonce,
+        nonce: status.latest,
+        pendingNonce: status.pending,
+        nextNonce: status.next,
+        queuedNonces: status.queued,
+        gaps: status.gaps,
+        hasGaps: status.gaps.length > 0,
       },
     },
   ];
@@ -7,15 +7,59 @@
 
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
+import type { EventFragment } from 'ethers';
 import { jsonRpcRequest } from '../../transport/client';
-import {
-  hexToNumber,
-  hexToBigInt,
-  numberToHex,
-  normalizeAddress,
-  formatEventLogResponse,
-} from '../../utils/helpers';
-import type { IEventLog, IEventFilterParams } from '../../utils/types';
+import { getLogsInChunks, parseTopics, resolveBlockNumber } from '../../transport/logs';
+import { ERC20_ABI, ERC721_ABI, LOG_CHUNK_SIZE } from '../../constants/constants';
+import { decodeEventLog, parseEventFragments } from '../../utils/abi';
+import { hexToBigInt, normalizeAddress, formatEventLogResponse } from '../../utils/helpers';
+import type { IDecodedEvent, IEventFilterParams, ILogChunk } from '../../utils/types';
+
+/**
+ * Query logs over the node's block range, split into chunks
+ */
+async function queryLogChunks(
+  this: IExecuteFunctions,
+  index: number,
+  filter: Pick<IEventFilterParams, 'address' | 'topics'>,
+  maxLogs?: number,
+): Promise<ILogChunk[]> {
+  const fromBlock = this.getNodeParameter('fromBlock', index, 'latest') as string | number;
+  const toBlock = this.getNodeParameter('toBlock', index, 'latest') as string | number;
+  const chunkSize = this.getNodeParameter('blockChunkSize', index, LOG_CHUNK_SIZE) as number;
+
+  const from = await resolveBlockNumber.call(this, fromBlock);
+  const to = await resolveBlockNumber.call(this, toBlock);
+  if (from > to) {
+    throw new Error(`From Block (${from}) is after To Block (${to})`);
+  }
+
+  return getLogsInChunks.call(this, filter, from, to, { chunkSize, maxLogs });
+}
+
+/**
+ * Output logs as one item each, or one item per block-range chunk
+ */
+function toLogItems(
+  this: IExecuteFunctions,
+  index: number,
+  chunks: ILogChunk[],
+): INodeExecutionData[] {
+  if (this.getNodeParameter('outputPerChunk', index, false) as boolean) {
+    return chunks.map((chunk) => ({
+      json: {
+        fromBlock: chunk.fromBlock,
+        toBlock: chunk.toBlock,
+        logCount: chunk.logs.length,
+        logs: chunk.logs.map((log) => formatEventLogResponse(log)),
+      } as unknown as IDataObject,
+    }));
+  }
+
+  return chunks.flatMap((chunk) =>
+    chunk.logs.map((log) => ({ json: formatEventLogResponse(log) as unknown as IDataObject })),
+  );
+}
 
 /**
  * Get event logs with filters
@@ -24,34 +68,24 @@ export async function getLogs(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const address = this.getNodeParameter('address', index, '') as string;
-  const fromBlock = this.getNodeParameter('fromBlock', index, 'latest') as string | number;
-  const toBlock = this.getNodeParameter('toBlock', index, 'latest') as string | number;
-  const topics = this.getNodeParameter('topics', index, []) as string[];
+  const address = this.getNodeParameter('contractAddress', index, '') as string;
+  const topics = parseTopics(this.getNodeParameter('topics', index, []));
   const limit = this.getNodeParameter('limit', index, 100) as number;
 
-  const filterParams: IDataObject = {
-    fromBlock: typeof fromBlock === 'number' ? numberToHex(fromBlock) : fromBlock,
-    toBlock: typeof toBlock === 'number' ? numberToHex(toBlock) : toBlock,
-  };
+  const filter: Pick<IEventFilterParams, 'address' | 'topics'> = {};
 
   if (address) {
-    filterParams.address = normalizeAddress(address);
+    filter.address = normalizeAddress(address);
   }
 
-  if (topics && topics.length > 0) {
-    filterParams.topics = topics.filter((t) => t !== '' && t !== null);
+  if (topics.length > 0) {
+    filter.topics = topics;
   }
 
   try {
-    const logs = await jsonRpcRequest.call(this, 'eth_getLogs', [filterParams]);
-    const logArray = logs as IDataObject[];
-
-    // Limit results
-    const limitedLogs = logArray.slice(0, limit);
-    const formattedLogs = limitedLogs.map((log) => formatEventLogResponse(log));
-
-    return formattedLogs.map((log) => ({ json: log as unknown as IDataObject }));
+    // Stop scanning once the limit is reached
+    const chunks = await queryLogChunks.call(this, index, filter, limit);
+    return toLogItems.call(this, index, chunks);
   } catch (error) {
     throw new NodeOperationError(
       this.getNode(),
@@ -67,13 +101,11 @@ export async function filterEvents(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const address = this.getNodeParameter('address', index, '') as string;
+  const address = this.getNodeParameter('contractAddress', index, '') as string;
   const topic0 = this.getNodeParameter('topic0', index, '') as string;
   const topic1 = this.getNodeParameter('topic1', index, '') as string;
   const topic2 = this.getNodeParameter('topic2', index, '') as string;
   const topic3 = this.getNodeParameter('topic3', index, '') as string;
-  const fromBlock = this.getNodeParameter('fromBlock', index, 'latest') as string | number;
-  const toBlock = this.getNodeParameter('toBlock', index, 'latest') as string | number;
 
   const topics: (string | null)[] = [];
 
@@ -88,25 +120,24 @@ export async function filterEvents(
 
   if (topic3) topics.push(topic3);
 
-  const filterParams: IDataObject = {
-    fromBlock: typeof fromBlock === 'number' ? numberToHex(fromBlock) : fromBlock,
-    toBlock: typeof toBlock === 'number' ? numberToHex(toBlock) : toBlock,
-  };
+  // Without individual topic filters, use the Topics array
+  if (topics.length === 0) {
+    topics.push(...parseTopics(this.getNodeParameter('topics', index, [])));
+  }
+
+  const filter: Pick<IEventFilterParams, 'address' | 'topics'> = {};
 
   if (address) {
-    filterParams.address = normalizeAddress(address);
+    filter.address = normalizeAddress(address);
   }
 
   if (topics.length > 0) {
-    filterParams.topics = topics;
+    filter.topics = topics;
   }
 
   try {
-    const logs = await jsonRpcRequest.call(this, 'eth_getLogs', [filterParams]);
-    const logArray = logs as IDataObject[];
-    const formattedLogs = logArray.map((log) => formatEventLogResponse(log));
-
-    return formattedLogs.map((log) => ({ json: log as unknown as IDataObject }));
+    const chunks = await queryLogChunks.call(this, index, filter);
+    return toLogItems.call(this, index, chunks);
   } catch (error) {
     throw new NodeOperationError(
       this.getNode(),
@@ -124,25 +155,29 @@ export async function getContractEvents(
 ): Promise<INodeExecutionData[]> {
   const contractAddress = this.getNodeParameter('contractAddress', index) as string;
   const eventSignature = this.getNodeParameter('eventSignature', index, '') as string;
-  const fromBlock = this.getNodeParameter('fromBlock', index, 0) as number;
-  const toBlock = this.getNodeParameter('toBlock', index, 'latest') as string | number;
+  const topics = parseTopics(this.getNodeParameter('topics', index, []));
   const limit = this.getNodeParameter('limit', index, 100) as number;
 
   const normalizedAddress = normalizeAddress(contractAddress);
 
-  const filterParams: IDataObject = {
+  const filter: Pick<IEventFilterParams, 'address' | 'topics'> = {
     address: normalizedAddress,
-    fromBlock: numberToHex(fromBlock),
-    toBlock: typeof toBlock === 'number' ? numberToHex(toBlock) : toBlock,
   };
 
   if (eventSignature) {
-    filterParams.topics = [eventSignature];
+    filter.topics = [eventSignature];
+  } else if (topics.length > 0) {
+    filter.topics = topics;
   }
 
   try {
-    const logs = await jsonRpcRequest.call(this, 'eth_getLogs', [filterParams]);
-    const logArray = logs as IDataObject[];
+    const chunks = await queryLogChunks.call(this, index, filter);
+
+    if (this.getNodeParameter('outputPerChunk', index, false) as boolean) {
+      return toLogItems.call(this, index, chunks);
+    }
+
+    const logArray = chunks.flatMap((chunk) => chunk.logs);
 
     // Limit and format results
     const limitedLogs = logArray.slice(0, limit);
@@ -155,9 +190,9 @@ export async function getContractEvents(
           eventCount: formattedLogs.length,
           totalEvents: logArray.length,
           events: formattedLogs,
-          fromBlock,
-          toBlock,
-        },
+          fromBlock: chunks.length > 0 ? chunks[0].fromBlock : null,
+          toBlock: chunks.length > 0 ? chunks[chunks.length - 1].toBlock : null,
+        } as unknown as IDataObject,
       },
     ];
   } catch (error) {
@@ -216,6 +251,62 @@ export async function decodeTransferEvent(
   ];
 }
 
+/**
+ * Decode an event log against an ABI or event signatures
+ */
+export async function decodeEvent(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const eventAbi = this.getNodeParameter('eventAbi', index, '') as string;
+  const eventLog = this.getNodeParameter('eventLog', index, {}) as IDataObject | string;
+
+  let log: IDataObject;
+  let events: EventFragment[];
+  try {
+    log = typeof eventLog === 'string' ? JSON.parse(eventLog.trim() || '{}') : eventLog;
+    events = parseEventFragments(eventAbi.trim() ? eventAbi : [...ERC20_ABI, ...ERC721_ABI]);
+  } catch (error) {
+    throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex: index });
+  }
+
+  // Without an explicit log, decode the input item (e.g. a log output by Get Logs)
+  if (!log || Object.keys(log).length === 0) {
+    log = this.getInputData()[index]?.json ?? {};
+  }
+
+  if (!Array.isArray(log.topics)) {
+    throw new NodeOperationError(this.getNode(), 'Event log must have a topics array', {
+      itemIndex: index,
+    });
+  }
+
+  let decoded: IDecodedEvent | null;
+  try {
+    decoded = decodeEventLog(events, { topics: log.topics as string[], data: log.data as string });
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to decode event: ${(error as Error).message}`,
+      { itemIndex: index },
+    );
+  }
+
+  if (!decoded) {
+    return [
+      {
+        json: {
+          ...log,
+          decoded: false,
+          message: `No event in the ABI matches topic ${log.topics[0] ?? '(none)'}`,
+        },
+      },
+    ];
+  }
+
+  return [{ json: { ...log, decoded: true, ...decoded } as IDataObject }];
+}
+
 /**
  * Get new filter for events (for long-polling)
  */
@@ -6,18 +6,57 @@
  */
 
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
-import { jsonRpcRequest, chilizScanRequest, formatTokenAmount } from '../../transport/client';
-import { FAN_TOKENS, ERC20_ABI, SUPPORTED_CLUBS } from '../../constants/constants';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import {
+  jsonRpcRequest,
+  batchEthCall,
+  getTokenHolderList,
+  formatTokenAmount,
+} from '../../transport/client';
+import { resolvePriceProvider } from '../../transport/priceProviders';
+import { ERC20_ABI, SUPPORTED_CLUBS } from '../../constants/constants';
 import {
   hexToNumber,
   hexToBigInt,
-  hexToString,
+  decodeStringResult,
   buildCallData,
   normalizeAddress,
+  isValidAddress,
   calculatePercentage,
 } from '../../utils/helpers';
-import type { IFanToken, ITokenHolder, ITokenPrice, ITokenVolume } from '../../utils/types';
+import {
+  canonicalSymbol,
+  findTokenByAddress,
+  loadTokenRegistry,
+  resolveToken,
+} from '../../utils/tokenRegistry';
+import type {
+  IFanToken,
+  IPriceQuery,
+  ITokenHolder,
+  ITokenPrice,
+  ITokenVolume,
+} from '../../utils/types';
+
+/**
+ * Resolve the token parameter (a contract address or a registry symbol) to a contract address
+ */
+async function getTokenAddress(this: IExecuteFunctions, index: number): Promise<string> {
+  const token = (this.getNodeParameter('tokenAddress', index) as string).trim();
+  if (isValidAddress(token)) {
+    return normalizeAddress(token);
+  }
+
+  const registry = await loadTokenRegistry.call(
+    this,
+    this.getNodeParameter('tokenList', index, ''),
+  );
+  try {
+    return resolveToken(registry, token).address as string;
+  } catch (error) {
+    throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex: index });
+  }
+}
 
 /**
  * Get Fan Token information
@@ -26,46 +65,36 @@ export async function getFanTokenInfo(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const tokenAddress = this.getNodeParameter('tokenAddress', index) as string;
-  const address = normalizeAddress(tokenAddress);
-
-  // Get token name
-  const nameData = buildCallData('name()', []);
-  const nameResult = await jsonRpcRequest.call(this, 'eth_call', [
-    { to: address, data: nameData },
-    'latest',
-  ]);
-
-  // Get token symbol
-  const symbolData = buildCallData('symbol()', []);
-  const symbolResult = await jsonRpcRequest.call(this, 'eth_call', [
-    { to: address, data: symbolData },
-    'latest',
-  ]);
-
-  // Get decimals
-  const decimalsData = buildCallData('decimals()', []);
-  const decimalsResult = await jsonRpcRequest.call(this, 'eth_call', [
-    { to: address, data: decimalsData },
-    'latest',
-  ]);
+  const address = await getTokenAddress.call(this, index);
+
+  // Read name, symbol, decimals and total supply in one batch
+  const [nameResult, symbolResult, decimalsResult, supplyResult] = await batchEthCall.call(
+    this,
+    ['name()', 'symbol()', 'decimals()', 'totalSupply()'].map((signature) => ({
+      to: address,
+      data: buildCallData(signature, []),
+    })),
+  );
 
-  // Get total supply
-  const supplyData = buildCallData('totalSupply()', []);
-  const supplyResult = await jsonRpcRequest.call(this, 'eth_call', [
-    { to: address, data: supplyData },
-    'latest',
-  ]);
+  if (!supplyResult.success || !decimalsResult.success) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Address ${address} does not look like an ERC-20 token (totalSupply or decimals call failed)`,
+      { itemIndex: index },
+    );
+  }
 
-  const name = hexToString(nameResult as string);
-  const symbol = hexToString(symbolResult as string);
-  const decimals = hexToNumber(decimalsResult as string);
-  const totalSupply = hexToBigInt(supplyResult as string).toString();
+  const name = nameResult.success ? decodeStringResult(nameResult.returnData) : '';
+  const symbol = symbolResult.success ? decodeStringResult(symbolResult.returnData) : '';
+  const decimals = hexToNumber(decimalsResult.returnData);
+  const totalSupply = hexToBigInt(supplyResult.returnData).toString();
 
   // Find associated club info
-  const knownToken = Object.values(FAN_TOKENS).find(
-    (t) => t.address.toLowerCase() === address,
+  const registry = await loadTokenRegistry.call(
+    this,
+    this.getNodeParameter('tokenList', index, ''),
   );
+  const knownToken = findTokenByAddress(registry, address);
 
   const tokenInfo: IFanToken = {
     address,
@@ -85,37 +114,80 @@ export async function getFanTokenInfo(
  */
 export async function listFanTokens(
   this: IExecuteFunctions,
-  _index: number,
+  index: number,
 ): Promise<INodeExecutionData[]> {
-  const tokens = Object.entries(FAN_TOKENS).map(([symbol, info]) => ({
-    symbol,
-    name: info.name,
-    club: info.club,
-    address: info.address,
+  const registry = await loadTokenRegistry.call(
+    this,
+    this.getNodeParameter('tokenList', index, ''),
+  );
+  const tokens = Object.values(registry).map((token) => ({
+    symbol: token.symbol,
+    name: token.name,
+    club: token.club,
+    address: token.address || null,
+    network: token.network,
   }));
 
   return tokens.map((token) => ({ json: token as IDataObject }));
 }
 
 /**
- * Get token price (from external API or DEX)
+ * Read the price source settings shared by the price and volume operations
+ */
+async function getPriceQuery(this: IExecuteFunctions, index: number): Promise<IPriceQuery> {
+  const token = (this.getNodeParameter('tokenAddress', index) as string).trim();
+
+  // Accept a contract address or a symbol
+  let symbol = token;
+  let tokenAddress: string | undefined;
+  if (isValidAddress(token)) {
+    tokenAddress = normalizeAddress(token);
+    const symbolResult = await jsonRpcRequest.call(this, 'eth_call', [
+      { to: tokenAddress, data: buildCallData('symbol()', []) },
+      'latest',
+    ]);
+    symbol = decodeStringResult(symbolResult as string);
+  } else {
+    const registry = await loadTokenRegistry.call(
+      this,
+      this.getNodeParameter('tokenList', index, ''),
+    );
+    symbol = canonicalSymbol(registry, token);
+    tokenAddress = registry[symbol]?.address;
+  }
+
+  return {
+    symbol,
+    tokenAddress,
+    pairAddress: this.getNodeParameter('pairAddress', index, '') as string,
+    usdPairAddress: this.getNodeParameter('usdPairAddress', index, '') as string,
+    btcPairAddress: this.getNodeParameter('btcPairAddress', index, '') as string,
+    ethPairAddress: this.getNodeParameter('ethPairAddress', index, '') as string,
+    quoteSymbol: this.getNodeParameter('quoteSymbol', index, 'USDT') as string,
+  };
+}
+
+/**
+ * Get token price (from a DEX pair or a ticker API)
  */
 export async function getTokenPrice(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const tokenSymbol = this.getNodeParameter('tokenSymbol', index) as string;
-
-  // Note: In production, this would query a price API like CoinGecko
-  // For now, return a placeholder structure
-  const priceInfo: ITokenPrice = {
-    symbol: tokenSymbol,
-    priceUsd: '0.00',
-    priceBtc: '0.00000000',
-    priceEth: '0.00000000',
-    change24h: 0,
-    marketCap: '0',
-  };
+  const priceSource = this.getNodeParameter('priceSource', index, 'dex') as string;
+  const query = await getPriceQuery.call(this, index);
+
+  let priceInfo: ITokenPrice;
+  try {
+    const provider = await resolvePriceProvider.call(this, priceSource);
+    priceInfo = await provider.getPrice.call(this, query);
+  } catch (error) {
+    if (error instanceof NodeApiError) throw error;
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to get token price: ${(error as Error).message}`,
+    );
+  }
 
   return [{ json: priceInfo as unknown as IDataObject }];
 }
@@ -127,30 +199,19 @@ export async function getTokenHolders(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const tokenAddress = this.getNodeParameter('tokenAddress', index) as string;
+  const tokenAddress = await getTokenAddress.call(this, index);
   const limit = this.getNodeParameter('limit', index, 10) as number;
 
-  try {
-    const holders = await chilizScanRequest.call(this, 'token', 'tokenholderlist', {
-      contractaddress: tokenAddress,
-      page: 1,
-      offset: limit,
-    });
-
-    const holderList = Array.isArray(holders) ? holders : [];
-    const formattedHolders: ITokenHolder[] = holderList.map((holder: IDataObject, idx: number) => ({
-      address: holder.TokenHolderAddress as string,
-      balance: holder.TokenHolderQuantity as string,
-      balanceFormatted: formatTokenAmount(holder.TokenHolderQuantity as string, 18),
-      percentage: 0, // Would need total supply to calculate
-      rank: idx + 1,
-    }));
+  const holders = await getTokenHolderList.call(this, tokenAddress, limit);
+  const formattedHolders: ITokenHolder[] = holders.map((holder: IDataObject, idx: number) => ({
+    address: holder.TokenHolderAddress as string,
+    balance: holder.TokenHolderQuantity as string,
+    balanceFormatted: formatTokenAmount(holder.TokenHolderQuantity as string, 18),
+    percentage: 0, // Would need total supply to calculate
+    rank: idx + 1,
+  }));
 
-    return formattedHolders.map((holder) => ({ json: holder as unknown as IDataObject }));
-  } catch (error) {
-    // Return empty if API not available
-    return [{ json: { message: 'Token holder list not available', tokenAddress } }];
-  }
+  return formattedHolders.map((holder) => ({ json: holder as unknown as IDataObject }));
 }
 
 /**
@@ -160,15 +221,20 @@ export async function getTokenVolume(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const tokenSymbol = this.getNodeParameter('tokenSymbol', index) as string;
-
-  // Placeholder - would query exchange API
-  const volumeInfo: ITokenVolume = {
-    symbol: tokenSymbol,
-    volume24h: '0',
-    volumeChange: 0,
-    trades24h: 0,
-  };
+  const priceSource = this.getNodeParameter('priceSource', index, 'dex') as string;
+  const query = await getPriceQuery.call(this, index);
+
+  let volumeInfo: ITokenVolume;
+  try {
+    const provider = await resolvePriceProvider.call(this, priceSource);
+    volumeInfo = await provider.getVolume.call(this, query);
+  } catch (error) {
+    if (error instanceof NodeApiError) throw error;
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to get token volume: ${(error as Error).message}`,
+    );
+  }
 
   return [{ json: volumeInfo as unknown as IDataObject }];
 }
@@ -180,8 +246,7 @@ export async function getTokenSupply(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const tokenAddress = this.getNodeParameter('tokenAddress', index) as string;
-  const address = normalizeAddress(tokenAddress);
+  const address = await getTokenAddress.call(this, index);
 
   // Get total supply
   const supplyData = buildCallData('totalSupply()', []);
@@ -227,36 +292,42 @@ export async function getUserTokens(
 
   const holdings: IDataObject[] = [];
 
-  // Check balance for each known fan token
-  for (const [symbol, tokenInfo] of Object.entries(FAN_TOKENS)) {
-    if (tokenInfo.address === '0x...') continue; // Skip placeholder addresses
-
-    try {
-      const balanceData = buildCallData('balanceOf(address)', [
-        { type: 'address', value: address },
-      ]);
-
-      const balanceResult = await jsonRpcRequest.call(this, 'eth_call', [
-        { to: tokenInfo.address, data: balanceData },
-        'latest',
-      ]);
-
-      const balance = hexToBigInt(balanceResult as string);
-      if (balance > BigInt(0)) {
-        holdings.push({
-          symbol,
-          name: tokenInfo.name,
-          club: tokenInfo.club,
-          contractAddress: tokenInfo.address,
-          balance: balance.toString(),
-          balanceFormatted: formatTokenAmount(balance.toString(), 18),
-        });
-      }
-    } catch {
-      // Skip tokens that fail
-      continue;
-    }
-  }
+  // Read balanceOf and decimals for every fan token with a contract in one batch
+  const registry = await loadTokenRegistry.call(
+    this,
+    this.getNodeParameter('tokenList', index, ''),
+  );
+  const tokens = Object.values(registry).filter((token) => token.address);
+  const balanceData = buildCallData('balanceOf(address)', [{ type: 'address', value: address }]);
+  const decimalsData = buildCallData('decimals()', []);
+
+  const results = await batchEthCall.call(
+    this,
+    tokens.flatMap((token) => [
+      { to: token.address as string, data: balanceData },
+      { to: token.address as string, data: decimalsData },
+    ]),
+  );
+
+  tokens.forEach((token, i) => {
+    const [balanceResult, decimalsResult] = results.slice(i * 2, i * 2 + 2);
+    // Skip tokens that fail
+    if (!balanceResult.success) return;
+
+    const balance = hexToBigInt(balanceResult.returnData);
+    if (balance === BigInt(0)) return;
+    if (token.decimals === undefined && !decimalsResult.success) return;
+
+    const decimals = token.decimals ?? hexToNumber(decimalsResult.returnData);
+    holdings.push({
+      symbol: token.symbol,
+      name: token.name,
+      club: token.club,
+      contractAddress: token.address,
+      balance: balance.toString(),
+      balanceFormatted: formatTokenAmount(balance.toString(), decimals),
+    });
+  });
 
   if (holdings.length === 0) {
     return [
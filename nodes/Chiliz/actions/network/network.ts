@@ -8,7 +8,8 @@
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import { jsonRpcRequest, formatWeiToCHZ, getChainId, getNetworkDisplayName } from '../../transport/client';
-import { NETWORKS } from '../../constants/constants';
+import { formatFeeEstimate, getFeeEstimate } from '../../transport/fees';
+import { GAS_SETTINGS, NETWORKS } from '../../constants/constants';
 import {
   hexToNumber,
   hexToBigInt,
@@ -81,11 +82,12 @@ export async function getGasPrice(
 
   const gasPriceHex = await jsonRpcRequest.call(this, 'eth_gasPrice', []);
   const gasPrice = hexToBigInt(gasPriceHex as string);
+  const fees = await getFeeEstimate.call(this);
 
   // Calculate common gas costs
-  const standardTransfer = gasPrice * BigInt(21000);
-  const tokenTransfer = gasPrice * BigInt(65000);
-  const contractInteraction = gasPrice * BigInt(100000);
+  const standardTransfer = gasPrice * BigInt(GAS_SETTINGS.defaultGasLimit);
+  const tokenTransfer = gasPrice * BigInt(GAS_SETTINGS.tokenTransferGasLimit);
+  const contractInteraction = gasPrice * BigInt(GAS_SETTINGS.contractInteractionGasLimit);
 
   return [
     {
@@ -94,19 +96,21 @@ export async function getGasPrice(
         gasPrice: gasPrice.toString(),
         gasPriceGwei: (gasPrice / BigInt(10 ** 9)).toString(),
         gasPriceWei: gasPrice.toString(),
+        eip1559: fees !== null,
+        fees: fees ? formatFeeEstimate(fees) : null,
         estimatedCosts: {
           standardTransfer: {
-            gas: 21000,
+            gas: GAS_SETTINGS.defaultGasLimit,
             costWei: standardTransfer.toString(),
             costCHZ: formatWeiToCHZ(standardTransfer),
           },
           tokenTransfer: {
-            gas: 65000,
+            gas: GAS_SETTINGS.tokenTransferGasLimit,
             costWei: tokenTransfer.toString(),
             costCHZ: formatWeiToCHZ(tokenTransfer),
           },
           contractInteraction: {
-            gas: 100000,
+            gas: GAS_SETTINGS.contractInteractionGasLimit,
             costWei: contractInteraction.toString(),
             costCHZ: formatWeiToCHZ(contractInteraction),
           },
@@ -7,16 +7,91 @@
 
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import { jsonRpcRequest, chilizScanRequest } from '../../transport/client';
-import { ERC721_ABI, GAS_SETTINGS } from '../../constants/constants';
+import { jsonRpcRequest, chilizScanRequest, chilizScanRequestAll } from '../../transport/client';
+import { getSigner, signAndSendTransaction, waitForReceipt } from '../../transport/signer';
+import { ERC721_ABI } from '../../constants/constants';
 import {
   hexToBigInt,
   hexToNumber,
-  hexToString,
+  decodeStringResult,
   normalizeAddress,
   buildCallData,
 } from '../../utils/helpers';
-import type { IChilizCredentials, INftMetadata, INftCollection } from '../../utils/types';
+import type {
+  IChilizCredentials,
+  INftMetadata,
+  INftCollection,
+  ISentTransaction,
+} from '../../utils/types';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Read the owner of an ERC-721 token ('' if the call returns no address)
+ */
+async function readNFTOwner(
+  this: IExecuteFunctions,
+  contractAddress: string,
+  tokenId: string,
+): Promise<string> {
+  const ownerData = buildCallData('ownerOf(uint256)', [
+    { type: 'uint256', value: tokenId },
+  ]);
+
+  const ownerResult = await jsonRpcRequest.call(this, 'eth_call', [
+    { to: contractAddress, data: ownerData },
+    'latest',
+  ]);
+
+  const ownerHex = ownerResult as string;
+  return ownerHex && ownerHex.length >= 42 ? '0x' + ownerHex.slice(-40).toLowerCase() : '';
+}
+
+/**
+ * Read the address approved for a single ERC-721 token ('' if none)
+ */
+async function readNFTApproved(
+  this: IExecuteFunctions,
+  contractAddress: string,
+  tokenId: string,
+): Promise<string> {
+  const approvedData = buildCallData('getApproved(uint256)', [
+    { type: 'uint256', value: tokenId },
+  ]);
+
+  const approvedResult = await jsonRpcRequest.call(this, 'eth_call', [
+    { to: contractAddress, data: approvedData },
+    'latest',
+  ]);
+
+  const approvedHex = approvedResult as string;
+  const approvedAddress =
+    approvedHex && approvedHex.length >= 42 ? '0x' + approvedHex.slice(-40).toLowerCase() : '';
+
+  return approvedAddress === ZERO_ADDRESS ? '' : approvedAddress;
+}
+
+/**
+ * Check whether an operator is approved for all of an owner's tokens (ERC-721 and ERC-1155)
+ */
+async function readApprovedForAll(
+  this: IExecuteFunctions,
+  contractAddress: string,
+  owner: string,
+  operator: string,
+): Promise<boolean> {
+  const data = buildCallData('isApprovedForAll(address,address)', [
+    { type: 'address', value: owner },
+    { type: 'address', value: operator },
+  ]);
+
+  const result = await jsonRpcRequest.call(this, 'eth_call', [
+    { to: contractAddress, data },
+    'latest',
+  ]);
+
+  return hexToBigInt(result as string) !== BigInt(0);
+}
 
 /**
  * Get NFT collection details
@@ -42,8 +117,8 @@ export async function getNFTCollection(
     'latest',
   ]);
 
-  const name = hexToString(nameResult as string);
-  const symbol = hexToString(symbolResult as string);
+  const name = decodeStringResult(nameResult as string);
+  const symbol = decodeStringResult(symbolResult as string);
 
   // Try to get total supply (may not be available on all contracts)
   let totalSupply = 0;
@@ -77,24 +152,37 @@ export async function getUserNFTs(
 ): Promise<INodeExecutionData[]> {
   const userAddress = this.getNodeParameter('userAddress', index) as string;
   const collectionAddress = this.getNodeParameter('collectionAddress', index, '') as string;
+  const returnAll = this.getNodeParameter('returnAll', index, false) as boolean;
   const normalizedUser = normalizeAddress(userAddress);
 
   try {
     // Use ChilizScan API to get NFT transfers
     const params: Record<string, string | number> = {
       address: normalizedUser,
-      page: 1,
-      offset: 100,
-      sort: 'desc',
     };
 
     if (collectionAddress) {
       params.contractaddress = normalizeAddress(collectionAddress);
     }
 
-    const nftTransfers = await chilizScanRequest.call(this, 'account', 'tokennfttx', params);
+    // Oldest first; without Return All only the latest 100 transfers are considered
+    let nftTransfers: IDataObject[];
+    if (returnAll) {
+      nftTransfers = await chilizScanRequestAll.call(this, 'account', 'tokennfttx', {
+        ...params,
+        sort: 'asc',
+      });
+    } else {
+      const latestTransfers = await chilizScanRequest.call(this, 'account', 'tokennfttx', {
+        ...params,
+        page: 1,
+        offset: 100,
+        sort: 'desc',
+      });
+      nftTransfers = Array.isArray(latestTransfers) ? [...latestTransfers].reverse() : [];
+    }
 
-    if (!Array.isArray(nftTransfers) || nftTransfers.length === 0) {
+    if (nftTransfers.length === 0) {
       return [
         {
           json: {
@@ -106,7 +194,7 @@ export async function getUserNFTs(
       ];
     }
 
-    // Group by token to find current holdings
+    // Replay transfers oldest first to find current holdings
     const holdingsMap = new Map<string, IDataObject>();
 
     for (const transfer of nftTransfers) {
@@ -114,7 +202,7 @@ export async function getUserNFTs(
       const isReceived = (transfer.to as string).toLowerCase() === normalizedUser;
       const isSent = (transfer.from as string).toLowerCase() === normalizedUser;
 
-      if (isReceived && !holdingsMap.has(key)) {
+      if (isReceived) {
         holdingsMap.set(key, {
           contractAddress: transfer.contractAddress,
           tokenId: transfer.tokenID,
@@ -174,7 +262,7 @@ export async function getNFTMetadata(
       'latest',
     ]);
 
-    const tokenUri = hexToString(tokenUriResult as string);
+    const tokenUri = decodeStringResult(tokenUriResult as string);
 
     // Get owner
     const ownerData = buildCallData('ownerOf(uint256)', [
@@ -220,7 +308,7 @@ export async function getNFTMetadata(
 }
 
 /**
- * Transfer NFT
+ * Transfer NFT (ERC-721 or ERC-1155 safeTransferFrom)
  */
 export async function transferNFT(
   this: IExecuteFunctions,
@@ -235,33 +323,136 @@ export async function transferNFT(
     );
   }
 
-  const contractAddress = this.getNodeParameter('contractAddress', index) as string;
+  const collectionAddress = this.getNodeParameter('collectionAddress', index) as string;
   const tokenId = this.getNodeParameter('tokenId', index) as string;
   const toAddress = this.getNodeParameter('toAddress', index) as string;
-  const gasLimit = this.getNodeParameter('gasLimit', index, GAS_SETTINGS.tokenTransferGasLimit) as number;
+  const fromAddress = this.getNodeParameter('fromAddress', index, '') as string;
+  const standard = this.getNodeParameter('nftStandard', index, 'erc721') as string;
+  const amount = String(this.getNodeParameter('nftAmount', index, '1')).trim();
+  const receiptTimeout = this.getNodeParameter('receiptTimeout', index, 60) as number;
 
-  const normalizedContract = normalizeAddress(contractAddress);
+  const normalizedContract = normalizeAddress(collectionAddress);
   const normalizedTo = normalizeAddress(toAddress);
+  const signer = getSigner.call(this, credentials).address.toLowerCase();
+  const from = fromAddress ? normalizeAddress(fromAddress) : signer;
+
+  let callData: string;
+
+  if (standard === 'erc1155') {
+    if (!/^\d+$/.test(amount)) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Invalid amount "${amount}": use a whole number of tokens`,
+        { itemIndex: index },
+      );
+    }
+    const rawAmount = BigInt(amount);
+    if (rawAmount <= BigInt(0)) {
+      throw new NodeOperationError(this.getNode(), 'Amount must be greater than zero', {
+        itemIndex: index,
+      });
+    }
 
-  // Build safeTransferFrom call data
-  // Note: from address would come from the signer
-  const callData = buildCallData('safeTransferFrom(address,address,uint256)', [
-    { type: 'address', value: '0x0000000000000000000000000000000000000000' }, // placeholder for from
-    { type: 'address', value: normalizedTo },
-    { type: 'uint256', value: tokenId },
-  ]);
+    const balanceData = buildCallData('balanceOf(address,uint256)', [
+      { type: 'address', value: from },
+      { type: 'uint256', value: tokenId },
+    ]);
+    const balanceResult = await jsonRpcRequest.call(this, 'eth_call', [
+      { to: normalizedContract, data: balanceData },
+      'latest',
+    ]);
+    const balance = hexToBigInt(balanceResult as string);
+    if (balance < rawAmount) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Insufficient balance of token ${tokenId}: ${from} holds ${balance}, transfer needs ${rawAmount}`,
+        { itemIndex: index },
+      );
+    }
+
+    if (from !== signer && !(await readApprovedForAll.call(this, normalizedContract, from, signer))) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Signer ${signer} is not approved to transfer tokens held by ${from}`,
+      );
+    }
+
+    callData = buildCallData('safeTransferFrom(address,address,uint256,uint256,bytes)', [
+      { type: 'address', value: from },
+      { type: 'address', value: normalizedTo },
+      { type: 'uint256', value: tokenId },
+      { type: 'uint256', value: rawAmount.toString() },
+      { type: 'bytes', value: '0x' },
+    ]);
+  } else {
+    let owner: string;
+    try {
+      owner = await readNFTOwner.call(this, normalizedContract, tokenId);
+    } catch (error) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Token ${tokenId} does not exist or the contract is not ERC-721 compliant: ${(error as Error).message}`,
+      );
+    }
+
+    if (owner !== from) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Token ${tokenId} is owned by ${owner || 'nobody'}, not ${from}`,
+      );
+    }
+
+    if (owner !== signer) {
+      const approved = await readNFTApproved.call(this, normalizedContract, tokenId);
+      if (
+        approved !== signer &&
+        !(await readApprovedForAll.call(this, normalizedContract, owner, signer))
+      ) {
+        throw new NodeOperationError(
+          this.getNode(),
+          `Signer ${signer} is neither the owner of token ${tokenId} nor approved to transfer it`,
+        );
+      }
+    }
+
+    callData = buildCallData('safeTransferFrom(address,address,uint256)', [
+      { type: 'address', value: from },
+      { type: 'address', value: normalizedTo },
+      { type: 'uint256', value: tokenId },
+    ]);
+  }
+
+  let sent: ISentTransaction;
+  try {
+    sent = await signAndSendTransaction.call(this, { to: normalizedContract, data: callData });
+  } catch (error) {
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to transfer NFT: ${(error as Error).message}`,
+    );
+  }
+
+  const receipt = receiptTimeout > 0
+    ? await waitForReceipt.call(this, sent.hash, receiptTimeout * 1000)
+    : null;
 
   return [
     {
       json: {
-        message: 'NFT transfer requires ethers.js integration for signing',
+        hash: sent.hash,
+        standard,
         contractAddress: normalizedContract,
         tokenId,
+        amount: standard === 'erc1155' ? amount : '1',
+        from,
         to: normalizedTo,
-        gasLimit,
-        callData,
-        note: 'For full NFT transfer support, private key signing must be implemented',
-      },
+        signer,
+        nonce: sent.nonce,
+        status: receipt ? (receipt.status === '0x1' ? 'success' : 'failed') : 'pending',
+        blockNumber: receipt ? hexToNumber(receipt.blockNumber as string) : null,
+        gasUsed: receipt ? hexToBigInt(receipt.gasUsed as string).toString() : null,
+      } as IDataObject,
     },
   ];
 }
@@ -279,19 +470,8 @@ export async function checkNFTOwnership(
 
   const normalizedContract = normalizeAddress(contractAddress);
 
-  // Get owner
-  const ownerData = buildCallData('ownerOf(uint256)', [
-    { type: 'uint256', value: tokenId },
-  ]);
-
   try {
-    const ownerResult = await jsonRpcRequest.call(this, 'eth_call', [
-      { to: normalizedContract, data: ownerData },
-      'latest',
-    ]);
-
-    const ownerHex = ownerResult as string;
-    const owner = ownerHex && ownerHex.length >= 42 ? '0x' + ownerHex.slice(-40).toLowerCase() : '';
+    const owner = await readNFTOwner.call(this, normalizedContract, tokenId);
 
     const result: IDataObject = {
       contractAddress: normalizedContract,
@@ -331,30 +511,16 @@ export async function getNFTApproval(
 
   const normalizedContract = normalizeAddress(contractAddress);
 
-  // Get approved address for this token
-  const approvedData = buildCallData('getApproved(uint256)', [
-    { type: 'uint256', value: tokenId },
-  ]);
-
   try {
-    const approvedResult = await jsonRpcRequest.call(this, 'eth_call', [
-      { to: normalizedContract, data: approvedData },
-      'latest',
-    ]);
-
-    const approvedHex = approvedResult as string;
-    const approvedAddress =
-      approvedHex && approvedHex.length >= 42 ? '0x' + approvedHex.slice(-40).toLowerCase() : '';
-
-    const isApproved = approvedAddress !== '0x0000000000000000000000000000000000000000';
+    const approvedAddress = await readNFTApproved.call(this, normalizedContract, tokenId);
 
     return [
       {
         json: {
           contractAddress: normalizedContract,
           tokenId,
-          approvedAddress: isApproved ? approvedAddress : null,
-          hasApproval: isApproved,
+          approvedAddress: approvedAddress || null,
+          hasApproval: approvedAddress !== '',
         },
       },
     ];
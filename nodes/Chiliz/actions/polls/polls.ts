@@ -6,72 +6,184 @@
  */
 
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
-import { sociosApiRequest } from '../../transport/client';
-import type { IChilizCredentials, IPoll, IPollOption, IVoteResult } from '../../utils/types';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import {
+  formatTokenAmount,
+  getTokenHolderCount,
+  jsonRpcRequest,
+  parseTokenAmount,
+  sociosApiRequest,
+} from '../../transport/client';
+import { getSigner, signAndSendTransaction, signVote } from '../../transport/signer';
+import {
+  findBlockByTimestamp,
+  getPollCount,
+  getPollStatus,
+  getVoteEvents,
+  readPoll,
+  readPolls,
+  readVoterWeights,
+  tallyPoll,
+} from '../../transport/votingContract';
+import { MAX_BATCH_SIZE, SIGNED_VOTE, VOTING_CONTRACT } from '../../constants/constants';
+import { encodeFunctionData } from '../../utils/abi';
+import { hexToBigInt, hexToNumber, isValidAddress, normalizeAddress } from '../../utils/helpers';
+import {
+  canonicalSymbol,
+  findTokenByAddress,
+  loadTokenRegistry,
+  resolveToken,
+} from '../../utils/tokenRegistry';
+import type { TokenRegistry } from '../../utils/tokenRegistry';
+import type {
+  IChilizCredentials,
+  IOnChainPoll,
+  IPoll,
+  IPollOption,
+  IPollTally,
+  ISignedVote,
+  IVoteResult,
+} from '../../utils/types';
 
 /**
- * Get active polls
+ * Voting contract of the on-chain poll backend, or null when polls come from the Socios API
  */
-export async function getActivePolls(
+function getVotingContract(this: IExecuteFunctions, index: number): string | null {
+  if (this.getNodeParameter('pollBackend', index, 'socios') !== 'onChain') {
+    return null;
+  }
+  const contract = (this.getNodeParameter('votingContract', index, '') as string).trim();
+  if (!isValidAddress(contract)) {
+    throw new NodeOperationError(this.getNode(), `Invalid voting contract address "${contract}"`, {
+      itemIndex: index,
+    });
+  }
+  return normalizeAddress(contract);
+}
+
+/**
+ * Output fields of an on-chain poll, in the shape of the Socios API polls
+ */
+function formatOnChainPoll(poll: IOnChainPoll, registry: TokenRegistry): IDataObject {
+  return {
+    id: poll.id,
+    title: poll.title,
+    description: poll.description,
+    tokenSymbol: findTokenByAddress(registry, poll.token)?.symbol || null,
+    tokenAddress: poll.token,
+    startDate: new Date(poll.startTime * 1000).toISOString(),
+    endDate: new Date(poll.endTime * 1000).toISOString(),
+    status: getPollStatus(poll),
+    snapshotBlock: poll.snapshotBlock,
+    options: poll.options.map((text, optionId) => ({ id: String(optionId), text })),
+    backend: 'onChain',
+  };
+}
+
+/**
+ * Newest polls of a voting contract with the given status, optionally for one fan token
+ */
+async function listOnChainPolls(
   this: IExecuteFunctions,
   index: number,
+  contract: string,
+  status: 'active' | 'upcoming',
 ): Promise<INodeExecutionData[]> {
+  const registry = await loadTokenRegistry.call(this);
   const tokenSymbol = this.getNodeParameter('tokenSymbol', index, '') as string;
   const limit = this.getNodeParameter('limit', index, 10) as number;
 
+  const polls: IDataObject[] = [];
   try {
-    const endpoint = tokenSymbol
-      ? `/polls/active?token=${tokenSymbol}&limit=${limit}`
-      : `/polls/active?limit=${limit}`;
-
-    const polls = await sociosApiRequest.call(this, endpoint, 'GET');
-
-    if (!Array.isArray(polls)) {
-      return [{ json: { message: 'No active polls found', polls: [] } }];
+    const tokenAddress = tokenSymbol ? resolveToken(registry, tokenSymbol).address : null;
+
+    // Walk back from the newest poll until enough match
+    for (let last = await getPollCount.call(this, contract); last >= 1 && polls.length < limit;) {
+      const ids: number[] = [];
+      for (; last >= 1 && ids.length < MAX_BATCH_SIZE; last--) ids.push(last);
+
+      for (const poll of await readPolls.call(this, contract, ids)) {
+        if (getPollStatus(poll) !== status) continue;
+        if (tokenAddress && poll.token !== tokenAddress) continue;
+        if (polls.length < limit) polls.push(formatOnChainPoll(poll, registry));
+      }
     }
+  } catch (error) {
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex: index });
+  }
 
-    return polls.map((poll: IDataObject) => ({
-      json: {
-        id: poll.id,
-        title: poll.title,
-        description: poll.description,
-        tokenSymbol: poll.tokenSymbol || poll.token,
-        club: poll.club || poll.team,
-        startDate: poll.startDate,
-        endDate: poll.endDate,
-        status: 'active',
-        options: poll.options || [],
-        totalVotes: poll.totalVotes || 0,
-        requiredTokens: poll.requiredTokens || 1,
-      } as IDataObject,
-    }));
+  if (polls.length === 0) {
+    return [{ json: { message: `No ${status} polls found`, polls: [] } }];
+  }
+  return polls.map((poll) => ({ json: poll }));
+}
+
+/**
+ * Read an on-chain poll with its token-weighted tally
+ */
+async function readTalliedPoll(
+  this: IExecuteFunctions,
+  index: number,
+  contract: string,
+): Promise<IDataObject> {
+  const pollId = this.getNodeParameter('pollId', index) as string;
+  try {
+    const registry = await loadTokenRegistry.call(this);
+    const poll = await readPoll.call(this, contract, pollId);
+    const tally = await tallyPoll.call(this, contract, poll);
+    return { ...formatOnChainPoll(poll, registry), ...tally };
   } catch (error) {
-    // Return mock data structure for development/testing
-    return [
-      {
-        json: {
-          message: 'Socios API not available - mock response',
-          note: 'Configure Socios API key for live poll data',
-          polls: [
-            {
-              id: 'mock-poll-1',
-              title: 'Sample Fan Poll',
-              description: 'This is a sample poll structure',
-              tokenSymbol: tokenSymbol || 'BAR',
-              status: 'active',
-              options: [
-                { id: '1', text: 'Option A', votes: 0 },
-                { id: '2', text: 'Option B', votes: 0 },
-              ],
-            },
-          ],
-        },
-      },
-    ];
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex: index });
   }
 }
 
+/**
+ * Get active polls
+ */
+export async function getActivePolls(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const tokenSymbol = canonicalSymbol(
+    await loadTokenRegistry.call(this),
+    this.getNodeParameter('tokenSymbol', index, '') as string,
+  );
+  const limit = this.getNodeParameter('limit', index, 10) as number;
+
+  const contract = getVotingContract.call(this, index);
+  if (contract) {
+    return listOnChainPolls.call(this, index, contract, 'active');
+  }
+
+  const endpoint = tokenSymbol
+    ? `/polls/active?token=${tokenSymbol}&limit=${limit}`
+    : `/polls/active?limit=${limit}`;
+
+  const polls = await sociosApiRequest.call(this, endpoint, 'GET');
+
+  if (!Array.isArray(polls)) {
+    return [{ json: { message: 'No active polls found', polls: [] } }];
+  }
+
+  return polls.map((poll: IDataObject) => ({
+    json: {
+      id: poll.id,
+      title: poll.title,
+      description: poll.description,
+      tokenSymbol: poll.tokenSymbol || poll.token,
+      club: poll.club || poll.team,
+      startDate: poll.startDate,
+      endDate: poll.endDate,
+      status: 'active',
+      options: poll.options || [],
+      totalVotes: poll.totalVotes || 0,
+      requiredTokens: poll.requiredTokens || 1,
+    } as IDataObject,
+  }));
+}
+
 /**
  * Get poll details by ID
  */
@@ -81,54 +193,168 @@ export async function getPollDetails(
 ): Promise<INodeExecutionData[]> {
   const pollId = this.getNodeParameter('pollId', index) as string;
 
-  try {
-    const poll = await sociosApiRequest.call(this, `/polls/${pollId}`, 'GET');
+  const contract = getVotingContract.call(this, index);
+  if (contract) {
+    const poll = await readTalliedPoll.call(this, index, contract);
+    delete poll.votes;
+    return [{ json: poll }];
+  }
 
-    const pollData = poll as IDataObject;
+  const poll = await sociosApiRequest.call(this, `/polls/${pollId}`, 'GET');
 
-    const options: IPollOption[] = ((pollData.options as IDataObject[]) || []).map(
-      (opt: IDataObject) => ({
-        id: opt.id as string,
-        text: opt.text as string,
-        votes: (opt.votes as number) || 0,
-        percentage: (opt.percentage as number) || 0,
-      }),
-    );
+  const pollData = poll as IDataObject;
+
+  const options: IPollOption[] = ((pollData.options as IDataObject[]) || []).map(
+    (opt: IDataObject) => ({
+      id: opt.id as string,
+      text: opt.text as string,
+      votes: (opt.votes as number) || 0,
+      percentage: (opt.percentage as number) || 0,
+    }),
+  );
+
+  return [
+    {
+      json: {
+        id: pollData.id,
+        title: pollData.title,
+        description: pollData.description,
+        tokenSymbol: pollData.tokenSymbol || pollData.token,
+        club: pollData.club || pollData.team,
+        startDate: pollData.startDate,
+        endDate: pollData.endDate,
+        status: pollData.status,
+        options,
+        totalVotes: pollData.totalVotes || 0,
+        requiredTokens: pollData.requiredTokens || 1,
+        rules: pollData.rules || '',
+      } as IDataObject,
+    },
+  ];
+}
+
+/**
+ * Cast a vote with a vote(pollId, optionId) transaction signed by the credential key
+ */
+async function voteOnChain(
+  this: IExecuteFunctions,
+  index: number,
+  contract: string,
+): Promise<INodeExecutionData[]> {
+  const pollId = this.getNodeParameter('pollId', index) as string;
+  const optionId = (this.getNodeParameter('optionId', index) as string).trim();
+
+  try {
+    const poll = await readPoll.call(this, contract, pollId);
+    const status = getPollStatus(poll);
+    if (status !== 'active') {
+      throw new NodeOperationError(this.getNode(), `Poll ${poll.id} is ${status}`, {
+        itemIndex: index,
+      });
+    }
+    if (!/^\d+$/.test(optionId) || Number(optionId) >= poll.options.length) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Invalid option ID "${optionId}": poll ${poll.id} has options 0 to ${poll.options.length - 1}`,
+        { itemIndex: index },
+      );
+    }
+
+    const sent = await signAndSendTransaction.call(this, {
+      to: contract,
+      data: encodeFunctionData(VOTING_CONTRACT.vote, [poll.id, optionId]),
+    });
 
     return [
       {
         json: {
-          id: pollData.id,
-          title: pollData.title,
-          description: pollData.description,
-          tokenSymbol: pollData.tokenSymbol || pollData.token,
-          club: pollData.club || pollData.team,
-          startDate: pollData.startDate,
-          endDate: pollData.endDate,
-          status: pollData.status,
-          options,
-          totalVotes: pollData.totalVotes || 0,
-          requiredTokens: pollData.requiredTokens || 1,
-          rules: pollData.rules || '',
-        } as IDataObject,
-      },
-    ];
-  } catch (error) {
-    return [
-      {
-        json: {
-          pollId,
-          message: 'Poll details not available',
-          error: (error as Error).message,
-          note: 'Configure Socios API key for live poll data',
+          pollId: poll.id,
+          optionId,
+          optionText: poll.options[Number(optionId)],
+          voter: sent.from,
+          success: true,
+          transactionHash: sent.hash,
+          nonce: sent.nonce,
+          timestamp: new Date().toISOString(),
+          backend: 'onChain',
         },
       },
     ];
+  } catch (error) {
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(this.getNode(), `Failed to vote: ${(error as Error).message}`, {
+      itemIndex: index,
+    });
   }
 }
 
 /**
- * Vote on a poll
+ * Fan token contract of a Socios poll: its token address, or its symbol looked up in the registry
+ */
+async function getSociosPollToken(this: IExecuteFunctions, poll: IDataObject): Promise<string> {
+  if (isValidAddress(String(poll.tokenAddress || ''))) {
+    return normalizeAddress(poll.tokenAddress as string);
+  }
+  const symbol = ((poll.tokenSymbol || poll.token || '') as string).trim();
+  if (!symbol) {
+    throw new Error(`Poll ${poll.id} names no fan token`);
+  }
+  return resolveToken(await loadTokenRegistry.call(this), symbol).address as string;
+}
+
+/**
+ * Check that a voter holds the fan tokens a Socios poll requires, reading the balance from
+ * the token contract
+ */
+async function checkVoterBalance(
+  this: IExecuteFunctions,
+  index: number,
+  poll: IDataObject,
+  voter: string,
+): Promise<IDataObject> {
+  const requiredTokens = (poll.requiredTokens as number) || 1;
+  const symbol = ((poll.tokenSymbol || poll.token || '') as string).trim();
+
+  let tokenAddress: string;
+  let balance: bigint;
+  let decimals: number;
+  try {
+    tokenAddress = await getSociosPollToken.call(this, poll);
+
+    const [balanceHex, decimalsHex] = await Promise.all([
+      jsonRpcRequest.call(this, 'eth_call', [
+        { to: tokenAddress, data: encodeFunctionData('balanceOf(address)', [voter]) },
+        'latest',
+      ]),
+      jsonRpcRequest.call(this, 'eth_call', [
+        { to: tokenAddress, data: encodeFunctionData('decimals()', []) },
+        'latest',
+      ]),
+    ]);
+    balance = hexToBigInt(balanceHex as string);
+    decimals = decimalsHex === '0x' ? 0 : hexToNumber(decimalsHex as string);
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Could not read the ${symbol || 'fan token'} balance of ${voter}: ${(error as Error).message}`,
+      { itemIndex: index },
+    );
+  }
+
+  const tokenBalance = formatTokenAmount(balance, decimals);
+  if (balance < BigInt(parseTokenAmount(String(requiredTokens), decimals))) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Wallet ${voter} holds ${tokenBalance} ${symbol}, but poll ${poll.id} requires ${requiredTokens}`,
+      { itemIndex: index },
+    );
+  }
+  return { tokenSymbol: symbol, tokenAddress, tokenBalance, requiredTokens };
+}
+
+/**
+ * Vote on a poll. Socios votes are signed with the credential key (EIP-712 or EIP-191) over
+ * the poll, option, a nonce and an expiry, after checking the wallet holds enough fan tokens.
  */
 export async function voteOnPoll(
   this: IExecuteFunctions,
@@ -136,48 +362,165 @@ export async function voteOnPoll(
 ): Promise<INodeExecutionData[]> {
   const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
 
-  if (!credentials.sociosApiKey) {
+  const contract = getVotingContract.call(this, index);
+  if (contract) {
+    return voteOnChain.call(this, index, contract);
+  }
+
+  if (!credentials.sociosApiKey && !credentials.sandbox) {
     throw new NodeOperationError(
       this.getNode(),
       'Socios API key is required for voting. Please configure it in credentials.',
     );
   }
 
-  const pollId = this.getNodeParameter('pollId', index) as string;
-  const optionId = this.getNodeParameter('optionId', index) as string;
+  const pollId = (this.getNodeParameter('pollId', index) as string).trim();
+  const optionId = (this.getNodeParameter('optionId', index) as string).trim();
   const tokenCount = this.getNodeParameter('tokenCount', index, 1) as number;
+  const scheme = this.getNodeParameter('voteSignature', index, 'eip712') as ISignedVote['scheme'];
+  const validitySeconds = this.getNodeParameter(
+    'voteValidity',
+    index,
+    SIGNED_VOTE.defaultValiditySeconds,
+  ) as number;
+
+  const voter = getSigner.call(this, credentials).address.toLowerCase();
+  const poll = (await sociosApiRequest.call(this, `/polls/${pollId}`, 'GET')) as IDataObject;
+
+  // Sandbox polls reference no token contract, so there is no balance to read
+  const holding = credentials.sandbox
+    ? null
+    : await checkVoterBalance.call(this, index, poll, voter);
+
+  const signed = await signVote.call(
+    this,
+    { pollId, optionId, tokenCount },
+    scheme,
+    validitySeconds,
+  );
+  const result = await sociosApiRequest.call(this, `/polls/${pollId}/vote`, 'POST', {
+    ...signed.payload,
+    chainId: signed.chainId,
+    signatureScheme: signed.scheme,
+    signature: signed.signature,
+  });
+
+  return [
+    {
+      json: {
+        pollId,
+        optionId,
+        tokenCount,
+        voter,
+        success: true,
+        transactionHash: (result as IDataObject).transactionHash || null,
+        timestamp: new Date().toISOString(),
+        ...(holding ?? {}),
+        signatureScheme: signed.scheme,
+        signature: signed.signature,
+        signedPayload: signed.signedData,
+        nonce: signed.payload.nonce,
+        expiry: new Date(signed.payload.expiry * 1000).toISOString(),
+        apiResult: result as IDataObject,
+      },
+    },
+  ];
+}
 
-  try {
-    const result = await sociosApiRequest.call(this, `/polls/${pollId}/vote`, 'POST', {
-      optionId,
-      tokenCount,
-    });
+/**
+ * Share of a total in percent, rounded to two decimals
+ */
+function percentOf(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 10000) / 100 : 0;
+}
 
-    return [
-      {
-        json: {
-          pollId,
-          optionId,
-          tokenCount,
-          success: true,
-          transactionHash: (result as IDataObject).transactionHash || null,
-          timestamp: new Date().toISOString(),
-        },
-      },
-    ];
-  } catch (error) {
-    return [
-      {
-        json: {
-          pollId,
-          optionId,
-          success: false,
-          error: (error as Error).message,
-          note: 'Voting requires valid Socios API credentials and sufficient token balance',
-        },
-      },
-    ];
+/**
+ * Rank options by votes with their share of the total, the leader (none on a tie) and the
+ * margin of the first option over the second
+ */
+function rankOptions(options: Array<{ id: string; text: string; votes: number }>): IDataObject {
+  const totalVotes = options.reduce((sum, option) => sum + option.votes, 0);
+  const ranked = [...options]
+    .sort((a, b) => b.votes - a.votes)
+    .map((option, i) => ({
+      ...option,
+      percentage: percentOf(option.votes, totalVotes),
+      rank: i + 1,
+    }));
+  const [first, second] = ranked;
+
+  return {
+    totalVotes,
+    options: ranked,
+    leader: first && first.votes > 0 && first.votes !== second?.votes ? first : null,
+    runnerUp: second ?? null,
+    margin: first
+      ? {
+          votes: first.votes - (second?.votes ?? 0),
+          percentagePoints: percentOf(first.votes - (second?.votes ?? 0), totalVotes),
+        }
+      : null,
+  };
+}
+
+/**
+ * Result analytics: option shares and winner margin, turnout against the fan token's holder
+ * count, and a token-weighted tally when the voters are known. Votes without a weight are
+ * weighted by the voter's current balance.
+ */
+async function getResultAnalytics(
+  this: IExecuteFunctions,
+  results: {
+    options: Array<{ id: string; text: string; votes: number }>;
+    voters: number;
+    tokenAddress: string | null;
+    votes: Array<{ voter: string; optionId: string; weight?: number }>;
+  },
+): Promise<IDataObject> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  // Sandbox holders come from the fixtures, so the poll's token does not matter there
+  if (!credentials.sandbox && !isValidAddress(results.tokenAddress ?? '')) {
+    throw new Error('Cannot compute the turnout: the poll has no fan token address');
+  }
+  const holders = await getTokenHolderCount.call(this, results.tokenAddress ?? '');
+  const voters = results.voters || new Set(results.votes.map((vote) => vote.voter)).size;
+
+  let tokenWeighted: IDataObject | null = null;
+  const unweighted = results.votes.filter((vote) => vote.weight === undefined);
+  if (results.votes.length > 0 && (unweighted.length === 0 || results.tokenAddress)) {
+    const balances =
+      unweighted.length > 0
+        ? await readVoterWeights.call(
+            this,
+            results.tokenAddress as string,
+            unweighted.map((vote) => vote.voter),
+          )
+        : new Map<string, number>();
+    const weightOf = (vote: { voter: string; weight?: number }) =>
+      vote.weight ?? balances.get(vote.voter) ?? 0;
+
+    tokenWeighted = rankOptions(
+      results.options.map((option) => {
+        const optionVotes = results.votes.filter((vote) => vote.optionId === option.id);
+        return {
+          id: option.id,
+          text: option.text,
+          votes: optionVotes.reduce((sum, vote) => sum + weightOf(vote), 0),
+          voters: optionVotes.length,
+        };
+      }),
+    );
   }
+
+  return {
+    ...rankOptions(results.options),
+    turnout: {
+      voters,
+      holders,
+      percentage: percentOf(voters, holders),
+    },
+    tokenWeighted,
+  };
 }
 
 /**
@@ -188,43 +531,185 @@ export async function getVoteResults(
   index: number,
 ): Promise<INodeExecutionData[]> {
   const pollId = this.getNodeParameter('pollId', index) as string;
+  const includeAnalytics = this.getNodeParameter('resultsAnalytics', index, false) as boolean;
+
+  const contract = getVotingContract.call(this, index);
+  if (contract) {
+    const poll = await readTalliedPoll.call(this, index, contract);
+    const options = poll.options as IPollOption[];
+    const top = Math.max(0, ...options.map((option) => option.votes));
+    const leaders = options.filter((option) => option.votes === top && top > 0);
+    const result: IDataObject = {
+      pollId,
+      title: poll.title,
+      status: poll.status,
+      totalVotes: poll.totalVotes,
+      totalParticipants: poll.totalVoters,
+      options: options.map((option) => ({ ...option, isWinner: leaders.includes(option) })),
+      // A tie has no winner
+      winner: leaders.length === 1 ? { ...leaders[0], isWinner: true } : null,
+      endedAt: poll.endDate,
+      snapshotBlock: poll.snapshotBlock,
+      votes: poll.votes,
+      backend: 'onChain',
+    };
+
+    if (includeAnalytics) {
+      try {
+        result.analytics = await getResultAnalytics.call(this, {
+          options,
+          voters: poll.totalVoters as number,
+          tokenAddress: poll.tokenAddress as string,
+          votes: poll.votes as IPollTally['votes'],
+        });
+      } catch (error) {
+        if (error instanceof NodeApiError) throw error;
+        throw new NodeOperationError(
+          this.getNode(),
+          `Failed to compute results analytics: ${(error as Error).message}`,
+          { itemIndex: index },
+        );
+      }
+    }
+    return [{ json: result }];
+  }
+
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const results = await sociosApiRequest.call(this, `/polls/${pollId}/results`, 'GET');
+
+  const resultsData = results as IDataObject;
+  const options = ((resultsData.options as IDataObject[]) || []).map((opt: IDataObject) => ({
+    id: opt.id,
+    text: opt.text,
+    votes: opt.votes || 0,
+    percentage: opt.percentage || 0,
+    isWinner: opt.isWinner || false,
+  }));
+
+  const result: IDataObject = {
+    pollId,
+    title: resultsData.title,
+    status: resultsData.status || 'ended',
+    totalVotes: resultsData.totalVotes || 0,
+    totalParticipants: resultsData.totalParticipants || 0,
+    options,
+    winner: options.find((o) => o.isWinner) || null,
+    endedAt: resultsData.endDate,
+  };
+
+  if (includeAnalytics) {
+    try {
+      // The sandbox has no token contracts to resolve
+      const tokenAddress = credentials.sandbox
+        ? null
+        : await getSociosPollToken.call(this, { id: pollId, ...resultsData });
+      result.analytics = await getResultAnalytics.call(this, {
+        options: options.map((option) => ({
+          id: String(option.id),
+          text: option.text as string,
+          votes: Number(option.votes),
+        })),
+        voters: Number(result.totalParticipants),
+        tokenAddress,
+        // Voter addresses, when the API lists them, allow a token-weighted tally
+        votes: ((resultsData.votes as IDataObject[]) || [])
+          .filter((vote) => isValidAddress(String(vote.voter || vote.address || '')))
+          .map((vote) => ({
+            voter: normalizeAddress((vote.voter || vote.address) as string),
+            optionId: String(vote.optionId),
+          })),
+      });
+    } catch (error) {
+      if (error instanceof NodeApiError || error instanceof NodeOperationError) throw error;
+      throw new NodeOperationError(
+        this.getNode(),
+        `Failed to compute results analytics: ${(error as Error).message}`,
+        { itemIndex: index },
+      );
+    }
+  }
+
+  return [{ json: result }];
+}
+
+/**
+ * Votes of an address (the credential key by default) on the newest polls of a voting contract
+ */
+async function getOnChainUserVotes(
+  this: IExecuteFunctions,
+  index: number,
+  contract: string,
+  credentials: IChilizCredentials,
+): Promise<INodeExecutionData[]> {
+  const userAddress = (this.getNodeParameter('userAddress', index, '') as string).trim();
+  const limit = this.getNodeParameter('limit', index, 10) as number;
+
+  if (!userAddress && !credentials.privateKey) {
+    throw new NodeOperationError(
+      this.getNode(),
+      'User address is required when the credential has no private key',
+      { itemIndex: index },
+    );
+  }
+  if (userAddress && !isValidAddress(userAddress)) {
+    throw new NodeOperationError(this.getNode(), `Invalid user address "${userAddress}"`, {
+      itemIndex: index,
+    });
+  }
+  const voter = userAddress
+    ? normalizeAddress(userAddress)
+    : getSigner.call(this, credentials).address.toLowerCase();
 
   try {
-    const results = await sociosApiRequest.call(this, `/polls/${pollId}/results`, 'GET');
-
-    const resultsData = results as IDataObject;
-    const options = ((resultsData.options as IDataObject[]) || []).map((opt: IDataObject) => ({
-      id: opt.id,
-      text: opt.text,
-      votes: opt.votes || 0,
-      percentage: opt.percentage || 0,
-      isWinner: opt.isWinner || false,
-    }));
+    const registry = await loadTokenRegistry.call(this);
+    const count = await getPollCount.call(this, contract);
+    const ids: number[] = [];
+    for (let pollId = count; pollId >= 1 && ids.length < limit; pollId--) ids.push(pollId);
+    const polls = new Map(
+      (await readPolls.call(this, contract, ids)).map((poll) => [poll.id, poll]),
+    );
+    if (polls.size === 0) {
+      return [{ json: { message: 'No voting history found', votes: [] } }];
+    }
 
-    return [
-      {
+    // Votes can only be cast from the oldest poll's start time on
+    const fromBlock = await findBlockByTimestamp.call(
+      this,
+      Math.min(...[...polls.values()].map((poll) => poll.startTime)),
+    );
+    const events = await getVoteEvents.call(this, contract, fromBlock, { voter });
+
+    // Only the last vote on each poll counts
+    const lastVotes = new Map<string, IDataObject>();
+    for (const vote of events) {
+      if (polls.has(String(vote.pollId))) lastVotes.set(String(vote.pollId), vote);
+    }
+    if (lastVotes.size === 0) {
+      return [{ json: { message: 'No voting history found', votes: [] } }];
+    }
+
+    const newestFirst = [...lastVotes.values()].sort(
+      (a, b) => (b.blockNumber as number) - (a.blockNumber as number),
+    );
+    return newestFirst.map((vote) => {
+      const poll = polls.get(String(vote.pollId)) as IOnChainPoll;
+      return {
         json: {
-          pollId,
-          title: resultsData.title,
-          status: resultsData.status || 'ended',
-          totalVotes: resultsData.totalVotes || 0,
-          totalParticipants: resultsData.totalParticipants || 0,
-          options,
-          winner: options.find((o) => o.isWinner) || null,
-          endedAt: resultsData.endDate,
-        },
-      },
-    ];
+          pollId: poll.id,
+          pollTitle: poll.title,
+          optionId: String(vote.optionId),
+          optionText: poll.options[Number(vote.optionId)] ?? null,
+          tokenSymbol: findTokenByAddress(registry, poll.token)?.symbol || null,
+          voter,
+          blockNumber: vote.blockNumber,
+          transactionHash: vote.transactionHash,
+          backend: 'onChain',
+        } as IDataObject,
+      };
+    });
   } catch (error) {
-    return [
-      {
-        json: {
-          pollId,
-          message: 'Poll results not available',
-          error: (error as Error).message,
-        },
-      },
-    ];
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex: index });
   }
 }
 
@@ -237,7 +722,12 @@ export async function getUserVotes(
 ): Promise<INodeExecutionData[]> {
   const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
 
-  if (!credentials.sociosApiKey) {
+  const contract = getVotingContract.call(this, index);
+  if (contract) {
+    return getOnChainUserVotes.call(this, index, contract, credentials);
+  }
+
+  if (!credentials.sociosApiKey && !credentials.sandbox) {
     throw new NodeOperationError(
       this.getNode(),
       'Socios API key is required to get user votes. Please configure it in credentials.',
@@ -245,43 +735,34 @@ export async function getUserVotes(
   }
 
   const userAddress = this.getNodeParameter('userAddress', index, '') as string;
-  const tokenSymbol = this.getNodeParameter('tokenSymbol', index, '') as string;
+  const tokenSymbol = canonicalSymbol(
+    await loadTokenRegistry.call(this),
+    this.getNodeParameter('tokenSymbol', index, '') as string,
+  );
   const limit = this.getNodeParameter('limit', index, 10) as number;
 
-  try {
-    let endpoint = `/users/votes?limit=${limit}`;
-    if (userAddress) endpoint += `&address=${userAddress}`;
-    if (tokenSymbol) endpoint += `&token=${tokenSymbol}`;
-
-    const votes = await sociosApiRequest.call(this, endpoint, 'GET');
+  let endpoint = `/users/votes?limit=${limit}`;
+  if (userAddress) endpoint += `&address=${userAddress}`;
+  if (tokenSymbol) endpoint += `&token=${tokenSymbol}`;
 
-    if (!Array.isArray(votes)) {
-      return [{ json: { message: 'No voting history found', votes: [] } }];
-    }
+  const votes = await sociosApiRequest.call(this, endpoint, 'GET');
 
-    return votes.map((vote: IDataObject) => ({
-      json: {
-        pollId: vote.pollId,
-        pollTitle: vote.pollTitle,
-        optionId: vote.optionId,
-        optionText: vote.optionText,
-        tokenSymbol: vote.tokenSymbol,
-        tokenCount: vote.tokenCount,
-        votedAt: vote.timestamp || vote.votedAt,
-        transactionHash: vote.transactionHash,
-      } as IDataObject,
-    }));
-  } catch (error) {
-    return [
-      {
-        json: {
-          message: 'User voting history not available',
-          error: (error as Error).message,
-          note: 'Configure Socios API key for voting history',
-        },
-      },
-    ];
+  if (!Array.isArray(votes)) {
+    return [{ json: { message: 'No voting history found', votes: [] } }];
   }
+
+  return votes.map((vote: IDataObject) => ({
+    json: {
+      pollId: vote.pollId,
+      pollTitle: vote.pollTitle,
+      optionId: vote.optionId,
+      optionText: vote.optionText,
+      tokenSymbol: vote.tokenSymbol,
+      tokenCount: vote.tokenCount,
+      votedAt: vote.timestamp || vote.votedAt,
+      transactionHash: vote.transactionHash,
+    } as IDataObject,
+  }));
 }
 
 /**
@@ -291,41 +772,38 @@ export async function getUpcomingPolls(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const tokenSymbol = this.getNodeParameter('tokenSymbol', index, '') as string;
+  const tokenSymbol = canonicalSymbol(
+    await loadTokenRegistry.call(this),
+    this.getNodeParameter('tokenSymbol', index, '') as string,
+  );
   const limit = this.getNodeParameter('limit', index, 10) as number;
 
-  try {
-    const endpoint = tokenSymbol
-      ? `/polls/upcoming?token=${tokenSymbol}&limit=${limit}`
-      : `/polls/upcoming?limit=${limit}`;
+  const contract = getVotingContract.call(this, index);
+  if (contract) {
+    return listOnChainPolls.call(this, index, contract, 'upcoming');
+  }
 
-    const polls = await sociosApiRequest.call(this, endpoint, 'GET');
+  const endpoint = tokenSymbol
+    ? `/polls/upcoming?token=${tokenSymbol}&limit=${limit}`
+    : `/polls/upcoming?limit=${limit}`;
 
-    if (!Array.isArray(polls)) {
-      return [{ json: { message: 'No upcoming polls found', polls: [] } }];
-    }
+  const polls = await sociosApiRequest.call(this, endpoint, 'GET');
 
-    return polls.map((poll: IDataObject) => ({
-      json: {
-        id: poll.id,
-        title: poll.title,
-        description: poll.description,
-        tokenSymbol: poll.tokenSymbol || poll.token,
-        club: poll.club || poll.team,
-        startDate: poll.startDate,
-        endDate: poll.endDate,
-        status: 'upcoming',
-        requiredTokens: poll.requiredTokens || 1,
-      } as IDataObject,
-    }));
-  } catch (error) {
-    return [
-      {
-        json: {
-          message: 'Upcoming polls not available',
-          note: 'Configure Socios API key for poll data',
-        },
-      },
-    ];
+  if (!Array.isArray(polls)) {
+    return [{ json: { message: 'No upcoming polls found', polls: [] } }];
   }
+
+  return polls.map((poll: IDataObject) => ({
+    json: {
+      id: poll.id,
+      title: poll.title,
+      description: poll.description,
+      tokenSymbol: poll.tokenSymbol || poll.token,
+      club: poll.club || poll.team,
+      startDate: poll.startDate,
+      endDate: poll.endDate,
+      status: 'upcoming',
+      requiredTokens: poll.requiredTokens || 1,
+    } as IDataObject,
+  }));
 }
@@ -8,6 +8,7 @@
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import { sociosApiRequest } from '../../transport/client';
+import { canonicalSymbol, loadTokenRegistry } from '../../utils/tokenRegistry';
 import type { IChilizCredentials, IReward } from '../../utils/types';
 
 /**
@@ -17,60 +18,40 @@ export async function getAvailableRewards(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
-  const tokenSymbol = this.getNodeParameter('tokenSymbol', index, '') as string;
+  const tokenSymbol = canonicalSymbol(
+    await loadTokenRegistry.call(this),
+    this.getNodeParameter('tokenSymbol', index, '') as string,
+  );
   const rewardType = this.getNodeParameter('rewardType', index, '') as string;
   const limit = this.getNodeParameter('limit', index, 10) as number;
 
-  try {
-    let endpoint = `/rewards/available?limit=${limit}`;
-    if (tokenSymbol) endpoint += `&token=${tokenSymbol}`;
-    if (rewardType) endpoint += `&type=${rewardType}`;
+  let endpoint = `/rewards/available?limit=${limit}`;
+  if (tokenSymbol) endpoint += `&token=${tokenSymbol}`;
+  if (rewardType) endpoint += `&type=${rewardType}`;
 
-    const rewards = await sociosApiRequest.call(this, endpoint, 'GET');
+  const rewards = await sociosApiRequest.call(this, endpoint, 'GET');
 
-    if (!Array.isArray(rewards)) {
-      return [{ json: { message: 'No available rewards found', rewards: [] } }];
-    }
-
-    return rewards.map((reward: IDataObject) => ({
-      json: {
-        id: reward.id,
-        title: reward.title,
-        description: reward.description,
-        tokenSymbol: reward.tokenSymbol || reward.token,
-        club: reward.club || reward.team,
-        requiredTokens: reward.requiredTokens || 0,
-        type: reward.type || 'general',
-        status: 'available',
-        expiryDate: reward.expiryDate,
-        imageUrl: reward.imageUrl || reward.image,
-        termsUrl: reward.termsUrl,
-        quantity: reward.quantity,
-        remaining: reward.remaining,
-      } as IDataObject,
-    }));
-  } catch (error) {
-    // Return mock data structure for development/testing
-    return [
-      {
-        json: {
-          message: 'Socios API not available - mock response',
-          note: 'Configure Socios API key for live reward data',
-          rewards: [
-            {
-              id: 'mock-reward-1',
-              title: 'Sample Reward',
-              description: 'This is a sample reward structure',
-              tokenSymbol: tokenSymbol || 'BAR',
-              requiredTokens: 10,
-              type: 'merchandise',
-              status: 'available',
-            },
-          ],
-        },
-      },
-    ];
+  if (!Array.isArray(rewards)) {
+    return [{ json: { message: 'No available rewards found', rewards: [] } }];
   }
+
+  return rewards.map((reward: IDataObject) => ({
+    json: {
+      id: reward.id,
+      title: reward.title,
+      description: reward.description,
+      tokenSymbol: reward.tokenSymbol || reward.token,
+      club: reward.club || reward.team,
+      requiredTokens: reward.requiredTokens || 0,
+      type: reward.type || 'general',
+      status: 'available',
+      expiryDate: reward.expiryDate,
+      imageUrl: reward.imageUrl || reward.image,
+      termsUrl: reward.termsUrl,
+      quantity: reward.quantity,
+      remaining: reward.remaining,
+    } as IDataObject,
+  }));
 }
 
 /**
@@ -82,7 +63,7 @@ export async function getUserRewards(
 ): Promise<INodeExecutionData[]> {
   const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
 
-  if (!credentials.sociosApiKey) {
+  if (!credentials.sociosApiKey && !credentials.sandbox) {
     throw new NodeOperationError(
       this.getNode(),
       'Socios API key is required to get user rewards. Please configure it in credentials.',
@@ -93,43 +74,31 @@ export async function getUserRewards(
   const status = this.getNodeParameter('status', index, '') as string;
   const limit = this.getNodeParameter('limit', index, 10) as number;
 
-  try {
-    let endpoint = `/users/rewards?limit=${limit}`;
-    if (userAddress) endpoint += `&address=${userAddress}`;
-    if (status) endpoint += `&status=${status}`;
+  let endpoint = `/users/rewards?limit=${limit}`;
+  if (userAddress) endpoint += `&address=${userAddress}`;
+  if (status) endpoint += `&status=${status}`;
 
-    const rewards = await sociosApiRequest.call(this, endpoint, 'GET');
+  const rewards = await sociosApiRequest.call(this, endpoint, 'GET');
 
-    if (!Array.isArray(rewards)) {
-      return [{ json: { message: 'No user rewards found', rewards: [] } }];
-    }
-
-    return rewards.map((reward: IDataObject) => ({
-      json: {
-        id: reward.id,
-        title: reward.title,
-        description: reward.description,
-        tokenSymbol: reward.tokenSymbol || reward.token,
-        club: reward.club || reward.team,
-        type: reward.type,
-        status: reward.status,
-        claimedAt: reward.claimedAt,
-        expiryDate: reward.expiryDate,
-        redemptionCode: reward.redemptionCode,
-        transactionHash: reward.transactionHash,
-      } as IDataObject,
-    }));
-  } catch (error) {
-    return [
-      {
-        json: {
-          message: 'User rewards not available',
-          error: (error as Error).message,
-          note: 'Configure Socios API key for reward data',
-        },
-      },
-    ];
+  if (!Array.isArray(rewards)) {
+    return [{ json: { message: 'No user rewards found', rewards: [] } }];
   }
+
+  return rewards.map((reward: IDataObject) => ({
+    json: {
+      id: reward.id,
+      title: reward.title,
+      description: reward.description,
+      tokenSymbol: reward.tokenSymbol || reward.token,
+      club: reward.club || reward.team,
+      type: reward.type,
+      status: reward.status,
+      claimedAt: reward.claimedAt,
+      expiryDate: reward.expiryDate,
+      redemptionCode: reward.redemptionCode,
+      transactionHash: reward.transactionHash,
+    } as IDataObject,
+  }));
 }
 
 /**
@@ -141,7 +110,7 @@ export async function claimReward(
 ): Promise<INodeExecutionData[]> {
   const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
 
-  if (!credentials.sociosApiKey) {
+  if (!credentials.sociosApiKey && !credentials.sandbox) {
     throw new NodeOperationError(
       this.getNode(),
       'Socios API key is required to claim rewards. Please configure it in credentials.',
@@ -151,38 +120,25 @@ export async function claimReward(
   const rewardId = this.getNodeParameter('rewardId', index) as string;
   const deliveryInfo = this.getNodeParameter('deliveryInfo', index, {}) as IDataObject;
 
-  try {
-    const result = await sociosApiRequest.call(this, `/rewards/${rewardId}/claim`, 'POST', {
-      deliveryInfo,
-    });
-
-    const resultData = result as IDataObject;
-
-    return [
-      {
-        json: {
-          rewardId,
-          success: true,
-          claimId: resultData.claimId,
-          redemptionCode: resultData.redemptionCode,
-          transactionHash: resultData.transactionHash,
-          claimedAt: new Date().toISOString(),
-          nextSteps: resultData.nextSteps || 'Check your email for confirmation',
-        },
-      },
-    ];
-  } catch (error) {
-    return [
-      {
-        json: {
-          rewardId,
-          success: false,
-          error: (error as Error).message,
-          note: 'Claiming requires valid Socios API credentials and sufficient tokens',
-        },
+  const result = await sociosApiRequest.call(this, `/rewards/${rewardId}/claim`, 'POST', {
+    deliveryInfo,
+  });
+
+  const resultData = result as IDataObject;
+
+  return [
+    {
+      json: {
+        rewardId,
+        success: true,
+        claimId: resultData.claimId,
+        redemptionCode: resultData.redemptionCode,
+        transactionHash: resultData.transactionHash,
+        claimedAt: new Date().toISOString(),
+        nextSteps: resultData.nextSteps || 'Check your email for confirmation',
       },
-    ];
-  }
+    },
+  ];
 }
 
 /**
@@ -194,7 +150,7 @@ export async function getRewardHistory(
 ): Promise<INodeExecutionData[]> {
   const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
 
-  if (!credentials.sociosApiKey) {
+  if (!credentials.sociosApiKey && !credentials.sandbox) {
     throw new NodeOperationError(
       this.getNode(),
       'Socios API key is required to get reward history. Please configure it in credentials.',
@@ -202,45 +158,37 @@ export async function getRewardHistory(
   }
 
   const userAddress = this.getNodeParameter('userAddress', index, '') as string;
-  const tokenSymbol = this.getNodeParameter('tokenSymbol', index, '') as string;
+  const tokenSymbol = canonicalSymbol(
+    await loadTokenRegistry.call(this),
+    this.getNodeParameter('tokenSymbol', index, '') as string,
+  );
   const limit = this.getNodeParameter('limit', index, 20) as number;
 
-  try {
-    let endpoint = `/users/rewards/history?limit=${limit}`;
-    if (userAddress) endpoint += `&address=${userAddress}`;
-    if (tokenSymbol) endpoint += `&token=${tokenSymbol}`;
-
-    const history = await sociosApiRequest.call(this, endpoint, 'GET');
+  let endpoint = `/users/rewards/history?limit=${limit}`;
+  if (userAddress) endpoint += `&address=${userAddress}`;
+  if (tokenSymbol) endpoint += `&token=${tokenSymbol}`;
 
-    if (!Array.isArray(history)) {
-      return [{ json: { message: 'No reward history found', history: [] } }];
-    }
+  const history = await sociosApiRequest.call(this, endpoint, 'GET');
 
-    return history.map((item: IDataObject) => ({
-      json: {
-        id: item.id,
-        rewardId: item.rewardId,
-        title: item.title,
-        tokenSymbol: item.tokenSymbol,
-        club: item.club,
-        type: item.type,
-        status: item.status,
-        tokensUsed: item.tokensUsed,
-        claimedAt: item.claimedAt,
-        deliveredAt: item.deliveredAt,
-        expiryDate: item.expiryDate,
-      } as IDataObject,
-    }));
-  } catch (error) {
-    return [
-      {
-        json: {
-          message: 'Reward history not available',
-          error: (error as Error).message,
-        },
-      },
-    ];
+  if (!Array.isArray(history)) {
+    return [{ json: { message: 'No reward history found', history: [] } }];
   }
+
+  return history.map((item: IDataObject) => ({
+    json: {
+      id: item.id,
+      rewardId: item.rewardId,
+      title: item.title,
+      tokenSymbol: item.tokenSymbol,
+      club: item.club,
+      type: item.type,
+      status: item.status,
+      tokensUsed: item.tokensUsed,
+      claimedAt: item.claimedAt,
+      deliveredAt: item.deliveredAt,
+      expiryDate: item.expiryDate,
+    } as IDataObject,
+  }));
 }
 
 /**
@@ -252,44 +200,32 @@ export async function getRewardDetails(
 ): Promise<INodeExecutionData[]> {
   const rewardId = this.getNodeParameter('rewardId', index) as string;
 
-  try {
-    const reward = await sociosApiRequest.call(this, `/rewards/${rewardId}`, 'GET');
-
-    const rewardData = reward as IDataObject;
-
-    return [
-      {
-        json: {
-          id: rewardData.id,
-          title: rewardData.title,
-          description: rewardData.description,
-          fullDescription: rewardData.fullDescription,
-          tokenSymbol: rewardData.tokenSymbol || rewardData.token,
-          club: rewardData.club || rewardData.team,
-          requiredTokens: rewardData.requiredTokens,
-          type: rewardData.type,
-          status: rewardData.status,
-          expiryDate: rewardData.expiryDate,
-          imageUrl: rewardData.imageUrl,
-          termsUrl: rewardData.termsUrl,
-          quantity: rewardData.quantity,
-          remaining: rewardData.remaining,
-          eligibilityCriteria: rewardData.eligibilityCriteria,
-          deliveryMethod: rewardData.deliveryMethod,
-        },
-      },
-    ];
-  } catch (error) {
-    return [
-      {
-        json: {
-          rewardId,
-          message: 'Reward details not available',
-          error: (error as Error).message,
-        },
+  const reward = await sociosApiRequest.call(this, `/rewards/${rewardId}`, 'GET');
+
+  const rewardData = reward as IDataObject;
+
+  return [
+    {
+      json: {
+        id: rewardData.id,
+        title: rewardData.title,
+        description: rewardData.description,
+        fullDescription: rewardData.fullDescription,
+        tokenSymbol: rewardData.tokenSymbol || rewardData.token,
+        club: rewardData.club || rewardData.team,
+        requiredTokens: rewardData.requiredTokens,
+        type: rewardData.type,
+        status: rewardData.status,
+        expiryDate: rewardData.expiryDate,
+        imageUrl: rewardData.imageUrl,
+        termsUrl: rewardData.termsUrl,
+        quantity: rewardData.quantity,
+        remaining: rewardData.remaining,
+        eligibilityCriteria: rewardData.eligibilityCriteria,
+        deliveryMethod: rewardData.deliveryMethod,
       },
-    ];
-  }
+    },
+  ];
 }
 
 /**
@@ -301,7 +237,7 @@ export async function checkRewardEligibility(
 ): Promise<INodeExecutionData[]> {
   const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
 
-  if (!credentials.sociosApiKey) {
+  if (!credentials.sociosApiKey && !credentials.sandbox) {
     throw new NodeOperationError(
       this.getNode(),
       'Socios API key is required to check eligibility. Please configure it in credentials.',
@@ -311,36 +247,24 @@ export async function checkRewardEligibility(
   const rewardId = this.getNodeParameter('rewardId', index) as string;
   const userAddress = this.getNodeParameter('userAddress', index, '') as string;
 
-  try {
-    const endpoint = userAddress
-      ? `/rewards/${rewardId}/eligibility?address=${userAddress}`
-      : `/rewards/${rewardId}/eligibility`;
-
-    const result = await sociosApiRequest.call(this, endpoint, 'GET');
-    const eligibility = result as IDataObject;
-
-    return [
-      {
-        json: {
-          rewardId,
-          eligible: eligibility.eligible || false,
-          reason: eligibility.reason || '',
-          requiredTokens: eligibility.requiredTokens,
-          userTokenBalance: eligibility.userBalance,
-          missingTokens: eligibility.missingTokens || 0,
-          additionalRequirements: eligibility.additionalRequirements || [],
-        },
-      },
-    ];
-  } catch (error) {
-    return [
-      {
-        json: {
-          rewardId,
-          eligible: false,
-          error: (error as Error).message,
-        },
+  const endpoint = userAddress
+    ? `/rewards/${rewardId}/eligibility?address=${userAddress}`
+    : `/rewards/${rewardId}/eligibility`;
+
+  const result = await sociosApiRequest.call(this, endpoint, 'GET');
+  const eligibility = result as IDataObject;
+
+  return [
+    {
+      json: {
+        rewardId,
+        eligible: eligibility.eligible || false,
+        reason: eligibility.reason || '',
+        requiredTokens: eligibility.requiredTokens,
+        userTokenBalance: eligibility.userBalance,
+        missingTokens: eligibility.missingTokens || 0,
+        additionalRequirements: eligibility.additionalRequirements || [],
       },
-    ];
-  }
+    },
+  ];
 }
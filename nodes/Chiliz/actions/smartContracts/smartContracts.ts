@@ -5,19 +5,159 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
+import type {
+  IExecuteFunctions,
+  ILoadOptionsFunctions,
+  INodeExecutionData,
+  INodeListSearchResult,
+  IDataObject,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import { jsonRpcRequest, chilizScanRequest } from '../../transport/client';
-import { FAN_TOKENS, GAS_SETTINGS } from '../../constants/constants';
+import type { FunctionFragment, Interface } from 'ethers';
+import {
+  jsonRpcRequest,
+  chilizScanRequest,
+  getVerifiedAbi,
+  formatCHZToWei,
+  formatWeiToCHZ,
+} from '../../transport/client';
+import {
+  getRevertData,
+  getRevertReason,
+  getSigner,
+  signAndSendTransaction,
+  waitForConfirmations,
+} from '../../transport/signer';
+import { getLogsInChunks, parseTopics, resolveBlockNumber } from '../../transport/logs';
+import { LOG_CHUNK_SIZE } from '../../constants/constants';
+import { canonicalSymbol, loadTokenRegistry, resolveToken } from '../../utils/tokenRegistry';
 import {
   hexToBigInt,
   hexToNumber,
   hexToString,
   normalizeAddress,
+  numberToHex,
   buildCallData,
   formatEventLogResponse,
+  strip0x,
 } from '../../utils/helpers';
-import type { IChilizCredentials, IEventLog } from '../../utils/types';
+import {
+  decodeFunctionOutputs,
+  decodeRevertData,
+  encodeFunctionData,
+  encodeParameters,
+  findAbiFunction,
+  getViewFunctions,
+  parseAbi,
+  parseFunctionSignature,
+} from '../../utils/abi';
+import type {
+  IChilizCredentials,
+  IEventFilterParams,
+  IEventLog,
+  IRevertReason,
+  ISentTransaction,
+} from '../../utils/types';
+
+/**
+ * Build call data from a function signature (or name/selector) and its parameters
+ *
+ * Parameters are either plain values matching a full signature such as
+ * "transfer(address,uint256)", or { type, value } objects when only a name or selector is given.
+ */
+function buildContractCallData(functionName: string, functionParams: unknown): string {
+  const params = (
+    typeof functionParams === 'string' ? JSON.parse(functionParams || '[]') : functionParams || []
+  ) as unknown[];
+
+  if (functionName.includes('(')) {
+    return encodeFunctionData(functionName, parseArgumentValues(params));
+  }
+
+  const typedParams = params as IDataObject[];
+  const signature = /^0x[a-fA-F0-9]{8}$/.test(functionName)
+    ? functionName
+    : `${functionName}(${typedParams.map((p) => p.type).join(',')})`;
+
+  return buildCallData(
+    signature,
+    typedParams.map((p) => ({ type: p.type as string, value: p.value })),
+  );
+}
+
+/**
+ * Resolve the ABI for a contract: the user-supplied ABI, or the verified ABI from ChilizScan
+ */
+async function resolveContractAbi(
+  this: IExecuteFunctions | ILoadOptionsFunctions,
+  address: string,
+  abi: string,
+): Promise<Interface | null> {
+  if (abi && abi.trim() !== '') {
+    return parseAbi(abi);
+  }
+  const verifiedAbi = await getVerifiedAbi.call(this, address);
+  return verifiedAbi ? parseAbi(verifiedAbi) : null;
+}
+
+/**
+ * Extract plain argument values from the parameters input ({ type, value } objects or raw values)
+ */
+function parseArgumentValues(functionParams: unknown): unknown[] {
+  const params = (
+    typeof functionParams === 'string' ? JSON.parse(functionParams || '[]') : functionParams || []
+  ) as unknown[];
+
+  return params.map((param) =>
+    param && typeof param === 'object' && !Array.isArray(param) && 'value' in param
+      ? (param as IDataObject).value
+      : param,
+  );
+}
+
+/**
+ * Build call data for an ABI function fragment
+ */
+function encodeFragmentCall(fragment: FunctionFragment, functionParams: unknown): string {
+  const encoded = encodeParameters(fragment.inputs, parseArgumentValues(functionParams));
+  return fragment.selector + strip0x(encoded);
+}
+
+/**
+ * List the view functions of a contract for the Read Contract function picker
+ */
+export async function searchContractViewFunctions(
+  this: ILoadOptionsFunctions,
+  filter?: string,
+): Promise<INodeListSearchResult> {
+  const contractAddress = this.getCurrentNodeParameter('contractAddress') as string;
+  const abi = (this.getCurrentNodeParameter('abi') as string) || '';
+
+  if (!contractAddress && !abi) {
+    return { results: [] };
+  }
+
+  const iface = await resolveContractAbi.call(
+    this,
+    contractAddress ? normalizeAddress(contractAddress) : '',
+    abi,
+  );
+
+  if (!iface) {
+    return { results: [] };
+  }
+
+  const search = (filter ?? '').toLowerCase();
+  return {
+    results: getViewFunctions(iface)
+      .filter((fragment) => fragment.format('sighash').toLowerCase().includes(search))
+      .map((fragment) => ({
+        name: `${fragment.format('sighash')} → (${fragment.outputs.map((o) => o.format()).join(', ')})`,
+        value: fragment.format('full'),
+        description: fragment.format('full'),
+      })),
+  };
+}
 
 /**
  * Read from smart contract (view/pure function)
@@ -27,18 +167,37 @@ export async function readContract(
   index: number,
 ): Promise<INodeExecutionData[]> {
   const contractAddress = this.getNodeParameter('contractAddress', index) as string;
-  const functionName = this.getNodeParameter('functionName', index) as string;
-  const functionParams = this.getNodeParameter('functionParams', index, []) as IDataObject[];
+  // Workflows saved before the function picker store a plain string, which passes through as is
+  const functionName = this.getNodeParameter('functionName', index, '', {
+    extractValue: true,
+  }) as string;
+  const functionParams = this.getNodeParameter('functionParams', index, []) as unknown;
+  const abi = this.getNodeParameter('abi', index, '') as string;
 
   const normalizedAddress = normalizeAddress(contractAddress);
 
-  // Build the call data from function name and params
-  const params = functionParams.map((p) => ({
-    type: p.type as string,
-    value: p.value as string,
-  }));
+  // A full fragment ("function x() view returns (...)") is self-describing; otherwise look it up in the ABI
+  let fragment: FunctionFragment | null = null;
+  let callData: string;
+  try {
+    if (functionName.includes('returns') && !abi) {
+      fragment = parseFunctionSignature(functionName);
+    } else {
+      const iface = await resolveContractAbi.call(this, normalizedAddress, abi);
+      if (iface) {
+        fragment = findAbiFunction(iface, functionName);
+      }
+    }
 
-  const callData = buildCallData(functionName, params);
+    callData = fragment
+      ? encodeFragmentCall(fragment, functionParams)
+      : buildContractCallData(functionName, functionParams);
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to encode contract call: ${(error as Error).message}`,
+    );
+  }
 
   try {
     const result = await jsonRpcRequest.call(this, 'eth_call', [
@@ -49,10 +208,30 @@ export async function readContract(
       'latest',
     ]) as string;
 
-    // Try to decode the result based on common return types
-    let decodedResult: string | number | bigint = result;
+    if (fragment) {
+      if (fragment.outputs.length > 0 && (!result || result === '0x')) {
+        throw new Error('Call returned no data - check the contract address and function');
+      }
+
+      const outputs = decodeFunctionOutputs(fragment, result);
+      const values = Object.values(outputs);
 
-    // Simple heuristic for decoding
+      return [
+        {
+          json: {
+            contractAddress: normalizedAddress,
+            functionName: fragment.format('sighash'),
+            callData,
+            rawResult: result,
+            decodedResult: values.length === 1 ? values[0] : outputs,
+            outputs,
+          } as IDataObject,
+        },
+      ];
+    }
+
+    // No ABI available - fall back to a best-effort decode
+    let decodedResult: unknown = result;
     if (typeof result === 'string' && result.length === 66) {
       // Could be uint256
       decodedResult = hexToBigInt(result).toString();
@@ -63,9 +242,10 @@ export async function readContract(
         json: {
           contractAddress: normalizedAddress,
           functionName,
+          callData,
           rawResult: result,
           decodedResult,
-        },
+        } as IDataObject,
       },
     ];
   } catch (error) {
@@ -94,30 +274,100 @@ export async function writeContract(
 
   const contractAddress = this.getNodeParameter('contractAddress', index) as string;
   const functionName = this.getNodeParameter('functionName', index) as string;
-  const functionParams = this.getNodeParameter('functionParams', index, []) as IDataObject[];
+  const functionParams = this.getNodeParameter('functionParams', index, []) as unknown;
+  const abi = this.getNodeParameter('abi', index, '') as string;
   const value = this.getNodeParameter('value', index, '0') as string;
-  const gasLimit = this.getNodeParameter('gasLimit', index, GAS_SETTINGS.contractInteractionGasLimit) as number;
+  const gasLimit = this.getNodeParameter('gasLimit', index, 0) as number;
+  const confirmations = this.getNodeParameter('confirmations', index, 1) as number;
+  const receiptTimeout = this.getNodeParameter('receiptTimeout', index, 60) as number;
 
   const normalizedAddress = normalizeAddress(contractAddress);
+  const from = getSigner.call(this, credentials).address.toLowerCase();
+
+  let iface: Interface | null = null;
+  let callData: string;
+  let valueWei: bigint;
+  try {
+    iface = abi ? parseAbi(abi) : null;
+    if (iface) {
+      const fragment = findAbiFunction(iface, functionName);
+      callData = encodeFragmentCall(fragment, functionParams);
+    } else {
+      callData = buildContractCallData(functionName, functionParams);
+    }
+    valueWei = BigInt(formatCHZToWei(value || '0'));
+  } catch (error) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to encode contract call: ${(error as Error).message}`,
+    );
+  }
+
+  // Custom errors can only be named with an ABI - fall back to the verified one from ChilizScan
+  const describeRevert = async (revert: IRevertReason): Promise<IRevertReason> => {
+    if (revert.type !== 'CustomError' || iface || !revert.data) return revert;
+    const verified = await resolveContractAbi.call(this, normalizedAddress, '');
+    return verified ? decodeRevertData(revert.data, verified) : revert;
+  };
 
-  const params = functionParams.map((p) => ({
-    type: p.type as string,
-    value: p.value as string,
-  }));
+  // Simulate first so a revert is reported with its reason instead of burning gas
+  const call = { from, to: normalizedAddress, data: callData, value: valueWei };
+  const simulated = await getRevertReason.call(this, call, 'latest', iface);
+  if (simulated) {
+    const revert = await describeRevert(simulated);
+    throw new NodeOperationError(this.getNode(), `Contract call would revert: ${revert.reason}`, {
+      description: revert.data ? `Revert data: ${revert.data}` : undefined,
+    });
+  }
 
-  const callData = buildCallData(functionName, params);
+  let sent: ISentTransaction;
+  try {
+    sent = await signAndSendTransaction.call(this, {
+      to: normalizedAddress,
+      data: callData,
+      value: valueWei,
+      gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+    });
+  } catch (error) {
+    if (error instanceof NodeOperationError) throw error;
+    const revertData = getRevertData(error);
+    const reason = revertData !== null
+      ? (await describeRevert(decodeRevertData(revertData, iface))).reason
+      : (error as Error).message;
+    throw new NodeOperationError(this.getNode(), `Failed to send contract transaction: ${reason}`);
+  }
+
+  const { receipt, confirmations: confirmed } = receiptTimeout > 0
+    ? await waitForConfirmations.call(this, sent.hash, Math.max(confirmations, 1), receiptTimeout * 1000)
+    : { receipt: null, confirmations: 0 };
+
+  let status = 'pending';
+  let revertReason: IRevertReason | null = null;
+  if (receipt) {
+    status = receipt.status === '0x1' ? 'success' : 'failed';
+    if (status === 'failed') {
+      // Replay the call against the state the transaction ran on to recover the reason
+      const parentBlock = numberToHex(hexToNumber(receipt.blockNumber as string) - 1);
+      revertReason = await getRevertReason.call(this, call, parentBlock, iface);
+      if (revertReason) revertReason = await describeRevert(revertReason);
+    }
+  }
 
   return [
     {
       json: {
-        message: 'Contract write requires ethers.js integration for signing',
+        ...sent,
         contractAddress: normalizedAddress,
         functionName,
-        callData,
-        value,
-        gasLimit,
-        note: 'For full contract interaction, private key signing must be implemented',
-      },
+        valueFormatted: formatWeiToCHZ(sent.value),
+        status,
+        confirmations: confirmed,
+        confirmed: receipt !== null && confirmed >= confirmations,
+        blockNumber: receipt ? hexToNumber(receipt.blockNumber as string) : null,
+        gasUsed: receipt ? hexToBigInt(receipt.gasUsed as string).toString() : null,
+        revertReason: revertReason ? revertReason.reason : null,
+        revert: revertReason as IDataObject | null,
+      } as IDataObject,
     },
   ];
 }
@@ -132,25 +382,41 @@ export async function getContractEvents(
   const contractAddress = this.getNodeParameter('contractAddress', index) as string;
   const fromBlock = this.getNodeParameter('fromBlock', index, 'latest') as string | number;
   const toBlock = this.getNodeParameter('toBlock', index, 'latest') as string | number;
-  const topics = this.getNodeParameter('topics', index, []) as string[];
+  const topics = parseTopics(this.getNodeParameter('topics', index, []));
+  const chunkSize = this.getNodeParameter('blockChunkSize', index, LOG_CHUNK_SIZE) as number;
+  const outputPerChunk = this.getNodeParameter('outputPerChunk', index, false) as boolean;
 
   const normalizedAddress = normalizeAddress(contractAddress);
 
-  const filterParams: IDataObject = {
-    address: normalizedAddress,
-    fromBlock: typeof fromBlock === 'number' ? `0x${fromBlock.toString(16)}` : fromBlock,
-    toBlock: typeof toBlock === 'number' ? `0x${toBlock.toString(16)}` : toBlock,
-  };
+  const filter: IEventFilterParams = { address: normalizedAddress };
 
-  if (topics && topics.length > 0) {
-    filterParams.topics = topics.filter((t) => t !== '');
+  if (topics.length > 0) {
+    filter.topics = topics;
   }
 
   try {
-    const logs = await jsonRpcRequest.call(this, 'eth_getLogs', [filterParams]);
-    const logArray = logs as IDataObject[];
+    const chunks = await getLogsInChunks.call(
+      this,
+      filter,
+      await resolveBlockNumber.call(this, fromBlock),
+      await resolveBlockNumber.call(this, toBlock),
+      { chunkSize },
+    );
 
-    const formattedLogs = logArray.map((log) => formatEventLogResponse(log));
+    if (outputPerChunk) {
+      return chunks.map((chunk) => ({
+        json: {
+          fromBlock: chunk.fromBlock,
+          toBlock: chunk.toBlock,
+          logCount: chunk.logs.length,
+          logs: chunk.logs.map((log) => formatEventLogResponse(log)),
+        } as unknown as IDataObject,
+      }));
+    }
+
+    const formattedLogs = chunks.flatMap((chunk) =>
+      chunk.logs.map((log) => formatEventLogResponse(log)),
+    );
 
     return formattedLogs.map((log) => ({ json: log as unknown as IDataObject }));
   } catch (error) {
@@ -170,28 +436,40 @@ export async function getFanTokenContract(
 ): Promise<INodeExecutionData[]> {
   const tokenSymbol = this.getNodeParameter('tokenSymbol', index) as string;
 
-  const tokenInfo = FAN_TOKENS[tokenSymbol.toUpperCase()];
+  const registry = await loadTokenRegistry.call(
+    this,
+    this.getNodeParameter('tokenList', index, ''),
+  );
+  const symbol = canonicalSymbol(registry, tokenSymbol);
 
-  if (!tokenInfo) {
+  if (!registry[symbol]) {
     return [
       {
         json: {
           symbol: tokenSymbol,
           found: false,
           message: `Fan token ${tokenSymbol} not found in known tokens list`,
-          availableTokens: Object.keys(FAN_TOKENS),
+          availableTokens: Object.keys(registry),
         },
       },
     ];
   }
 
+  let tokenInfo;
+  try {
+    tokenInfo = resolveToken(registry, symbol);
+  } catch (error) {
+    throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex: index });
+  }
+
   return [
     {
       json: {
-        symbol: tokenSymbol.toUpperCase(),
+        symbol: tokenInfo.symbol,
         name: tokenInfo.name,
         club: tokenInfo.club,
         address: tokenInfo.address,
+        network: tokenInfo.network,
         found: true,
       },
     },
@@ -228,16 +506,10 @@ export async function getContractInfo(
     let abi = null;
     let verified = false;
 
-    try {
-      const abiResult = await chilizScanRequest.call(this, 'contract', 'getabi', {
-        address: normalizedAddress,
-      });
-      if (abiResult && typeof abiResult === 'string' && abiResult !== 'Contract source code not verified') {
-        abi = JSON.parse(abiResult);
-        verified = true;
-      }
-    } catch {
-      // ABI not available
+    const abiResult = await getVerifiedAbi.call(this, normalizedAddress);
+    if (abiResult) {
+      abi = JSON.parse(abiResult);
+      verified = true;
     }
 
     return [
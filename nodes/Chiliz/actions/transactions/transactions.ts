@@ -7,23 +7,49 @@
 
 import type { IExecuteFunctions, INodeExecutionData, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
+import type { EventFragment } from 'ethers';
 import {
   jsonRpcRequest,
+  getVerifiedAbi,
   formatWeiToCHZ,
   formatCHZToWei,
   formatTokenAmount,
   parseTokenAmount,
 } from '../../transport/client';
-import { GAS_SETTINGS } from '../../constants/constants';
+import {
+  ERC20_ABI,
+  ERC721_ABI,
+  GAS_SETTINGS,
+  NONCE_MANAGER,
+  TRANSFER_EVENT_TOPIC,
+} from '../../constants/constants';
+import { decodeEventLog, decodeRevertData, parseAbi, parseEventFragments } from '../../utils/abi';
 import {
   hexToBigInt,
   hexToNumber,
   normalizeAddress,
   numberToHex,
   buildCallData,
+  formatEventLogResponse,
   formatTransactionResponse,
 } from '../../utils/helpers';
-import type { IChilizCredentials, ITransaction, ITransactionReceipt } from '../../utils/types';
+import { estimateGasLimit, formatFeeEstimate, getFeeEstimate } from '../../transport/fees';
+import {
+  getRevertReason,
+  getSigner,
+  signAndSendTransaction,
+  waitForReceipt,
+  waitForTransaction,
+} from '../../transport/signer';
+import type {
+  IChilizCredentials,
+  IDecodedEvent,
+  IRevertReason,
+  ISentTransaction,
+  ITransaction,
+  ITransactionReceipt,
+  ITransactionRequest,
+} from '../../utils/types';
 
 /**
  * Get transaction details by hash
@@ -81,7 +107,7 @@ export async function getTransaction(
 }
 
 /**
- * Send a raw transaction (requires private key)
+ * Sign a transaction with the credential key and broadcast it
  */
 export async function sendTransaction(
   this: IExecuteFunctions,
@@ -98,26 +124,43 @@ export async function sendTransaction(
 
   const toAddress = this.getNodeParameter('toAddress', index) as string;
   const amount = this.getNodeParameter('amount', index) as string;
-  const gasLimit = this.getNodeParameter('gasLimit', index, GAS_SETTINGS.defaultGasLimit) as number;
+  const data = this.getNodeParameter('data', index, '0x') as string;
+  const gasLimit = this.getNodeParameter('gasLimit', index, 0) as number;
   const gasPriceGwei = this.getNodeParameter('gasPriceGwei', index, '') as string;
+  const receiptTimeout = this.getNodeParameter('receiptTimeout', index, 60) as number;
 
   const normalizedTo = normalizeAddress(toAddress);
   const valueWei = formatCHZToWei(amount);
 
-  // This is a placeholder for actual transaction signing
-  // In production, you would use ethers.js or similar library
-  // to sign and send the transaction
+  let sent: ISentTransaction;
+  try {
+    sent = await signAndSendTransaction.call(this, {
+      to: normalizedTo,
+      data: data || '0x',
+      value: BigInt(valueWei),
+      gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+      gasPrice: gasPriceGwei ? BigInt(parseTokenAmount(gasPriceGwei, 9)) : undefined,
+    });
+  } catch (error) {
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to send transaction: ${(error as Error).message}`,
+    );
+  }
+
+  const receipt =
+    receiptTimeout > 0 ? await waitForReceipt.call(this, sent.hash, receiptTimeout * 1000) : null;
 
   return [
     {
       json: {
-        message: 'Transaction signing requires ethers.js integration',
-        to: normalizedTo,
-        value: valueWei,
-        valueFormatted: amount,
-        gasLimit,
-        note: 'For full transaction support, private key signing must be implemented with ethers.js',
-      },
+        ...sent,
+        valueFormatted: formatWeiToCHZ(sent.value),
+        status: receipt ? (receipt.status === '0x1' ? 'success' : 'failed') : 'pending',
+        blockNumber: receipt ? hexToNumber(receipt.blockNumber as string) : null,
+        gasUsed: receipt ? hexToBigInt(receipt.gasUsed as string).toString() : null,
+      } as IDataObject,
     },
   ];
 }
@@ -142,10 +185,28 @@ export async function transferToken(
   const toAddress = this.getNodeParameter('toAddress', index) as string;
   const amount = this.getNodeParameter('amount', index) as string;
   const decimals = this.getNodeParameter('decimals', index, 18) as number;
+  const gasLimit = this.getNodeParameter('gasLimit', index, 0) as number;
+  const receiptTimeout = this.getNodeParameter('receiptTimeout', index, 60) as number;
 
   const normalizedToken = normalizeAddress(tokenAddress);
   const normalizedTo = normalizeAddress(toAddress);
   const rawAmount = parseTokenAmount(amount, decimals);
+  const sender = getSigner.call(this, credentials).address.toLowerCase();
+
+  // Make sure the sender actually holds enough tokens before paying for gas
+  const balanceData = buildCallData('balanceOf(address)', [{ type: 'address', value: sender }]);
+  const balanceResult = await jsonRpcRequest.call(this, 'eth_call', [
+    { to: normalizedToken, data: balanceData },
+    'latest',
+  ]);
+  const balance = hexToBigInt(balanceResult as string);
+
+  if (balance < BigInt(rawAmount)) {
+    throw new NodeOperationError(
+      this.getNode(),
+      `Insufficient token balance: ${sender} holds ${formatTokenAmount(balance, decimals)}, transfer needs ${amount}`,
+    );
+  }
 
   // Build transfer call data
   const callData = buildCallData('transfer(address,uint256)', [
@@ -153,17 +214,72 @@ export async function transferToken(
     { type: 'uint256', value: rawAmount },
   ]);
 
+  let sent: ISentTransaction;
+  try {
+    sent = await signAndSendTransaction.call(this, {
+      to: normalizedToken,
+      data: callData,
+      gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+    });
+  } catch (error) {
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to send token transfer: ${(error as Error).message}`,
+    );
+  }
+
+  const receipt =
+    receiptTimeout > 0 ? await waitForReceipt.call(this, sent.hash, receiptTimeout * 1000) : null;
+
+  // Confirm the amount that moved from the Transfer log emitted by the token. Tokens that
+  // take fees or burn on transfer emit more than one, so match the sender and recipient too
+  const topicAddress = (topic: string | undefined) => '0x' + (topic ?? '').slice(-40).toLowerCase();
+  const transferLog = receipt
+    ? ((receipt.logs as IDataObject[]) || []).find((log) => {
+        const topics = log.topics as string[];
+        return (
+          (log.address as string).toLowerCase() === normalizedToken &&
+          topics[0]?.toLowerCase() === TRANSFER_EVENT_TOPIC &&
+          topics.length === 3 &&
+          topicAddress(topics[1]) === sender &&
+          topicAddress(topics[2]) === normalizedTo
+        );
+      })
+    : undefined;
+
+  let transferred: IDataObject | null = null;
+  if (transferLog) {
+    const topics = transferLog.topics as string[];
+    const value = hexToBigInt(transferLog.data as string);
+    transferred = {
+      from: topicAddress(topics[1]),
+      to: topicAddress(topics[2]),
+      amount: value.toString(),
+      amountFormatted: formatTokenAmount(value, decimals),
+    };
+  }
+
   return [
     {
       json: {
-        message: 'Token transfer requires ethers.js integration for signing',
-        tokenAddress: normalizedToken,
+        hash: sent.hash,
+        from: sent.from,
         to: normalizedTo,
+        tokenAddress: normalizedToken,
         amount: rawAmount,
         amountFormatted: amount,
         decimals,
-        callData,
-        note: 'For full token transfer support, private key signing must be implemented',
+        nonce: sent.nonce,
+        gasLimit: sent.gasLimit,
+        gasPrice: sent.gasPrice,
+        maxFeePerGas: sent.maxFeePerGas,
+        maxPriorityFeePerGas: sent.maxPriorityFeePerGas,
+        status: receipt ? (receipt.status === '0x1' ? 'success' : 'failed') : 'pending',
+        blockNumber: receipt ? hexToNumber(receipt.blockNumber as string) : null,
+        gasUsed: receipt ? hexToBigInt(receipt.gasUsed as string).toString() : null,
+        transferred,
+        amountConfirmed: transferred ? transferred.amount === rawAmount : false,
       },
     },
   ];
@@ -194,24 +310,41 @@ export async function estimateGas(
     txParams.value = numberToHex(BigInt(formatCHZToWei(value)));
   }
 
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const feeStrategy = credentials.feeStrategy || 'standard';
+
   try {
-    const gasEstimate = await jsonRpcRequest.call(this, 'eth_estimateGas', [txParams]);
-    const gas = hexToBigInt(gasEstimate as string);
+    const { gasEstimate: gas, gasLimit } = await estimateGasLimit.call(
+      this,
+      txParams,
+      credentials.gasLimitMultiplier,
+    );
 
     // Get current gas price for cost estimation
     const gasPriceHex = await jsonRpcRequest.call(this, 'eth_gasPrice', []);
     const gasPrice = hexToBigInt(gasPriceHex as string);
+    const fees = await getFeeEstimate.call(this);
 
-    const estimatedCost = gas * gasPrice;
+    // With EIP-1559 a transaction pays the base fee plus its tip, capped at maxFeePerGas
+    const expectedGasPrice = fees
+      ? fees.baseFeePerGas + fees[feeStrategy].maxPriorityFeePerGas
+      : gasPrice;
+    const estimatedCost = gas * expectedGasPrice;
+    const maxCost = gasLimit * (fees ? fees[feeStrategy].maxFeePerGas : gasPrice);
 
     return [
       {
         json: {
           gasEstimate: gas.toString(),
+          gasLimit: gasLimit.toString(),
           gasPrice: gasPrice.toString(),
           gasPriceGwei: (gasPrice / BigInt(10 ** 9)).toString(),
+          feeStrategy: fees ? feeStrategy : 'legacy',
+          fees: fees ? formatFeeEstimate(fees) : null,
           estimatedCostWei: estimatedCost.toString(),
           estimatedCostCHZ: formatWeiToCHZ(estimatedCost),
+          maxCostWei: maxCost.toString(),
+          maxCostCHZ: formatWeiToCHZ(maxCost),
         },
       },
     ];
@@ -223,6 +356,107 @@ export async function estimateGas(
   }
 }
 
+/**
+ * Standard token events, tried before fetching the emitting contract's verified ABI
+ */
+const STANDARD_EVENTS = parseEventFragments([...ERC20_ABI, ...ERC721_ABI]);
+
+/**
+ * Decode an event log, treating data that does not fit the matched event as undecodable
+ */
+function tryDecodeEventLog(
+  events: EventFragment[],
+  log: { topics: string[]; data: string },
+): IDecodedEvent | null {
+  try {
+    return decodeEventLog(events, log);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode receipt logs against the ERC-20/721 events, then the verified ABI of the emitting contract
+ */
+async function decodeReceiptLogs(
+  this: IExecuteFunctions,
+  rawLogs: IDataObject[],
+): Promise<IDataObject[]> {
+  const verifiedEvents = new Map<string, EventFragment[]>();
+  const logs: IDataObject[] = [];
+
+  for (const rawLog of rawLogs) {
+    const log = formatEventLogResponse(rawLog);
+    let decoded = tryDecodeEventLog(STANDARD_EVENTS, log);
+
+    if (!decoded) {
+      const address = log.address.toLowerCase();
+      if (!verifiedEvents.has(address)) {
+        const abi = await getVerifiedAbi.call(this, address);
+        let events: EventFragment[] = [];
+        try {
+          events = abi ? parseEventFragments(abi) : [];
+        } catch {
+          // Unparseable ABI - leave the contract's logs undecoded
+        }
+        verifiedEvents.set(address, events);
+      }
+      decoded = tryDecodeEventLog(verifiedEvents.get(address) ?? [], log);
+    }
+
+    logs.push({ ...log, decoded: decoded !== null, ...decoded } as IDataObject);
+  }
+
+  return logs;
+}
+
+/**
+ * Replay a failed transaction at its parent block to recover the revert reason.
+ * Custom errors are named from the contract's verified ABI when there is one.
+ */
+async function getFailureReason(
+  this: IExecuteFunctions,
+  receipt: IDataObject,
+): Promise<IRevertReason | null> {
+  const tx = (await jsonRpcRequest.call(this, 'eth_getTransactionByHash', [
+    receipt.transactionHash,
+  ])) as IDataObject | null;
+
+  // Contract creations have no call to replay
+  if (!tx || !tx.to) return null;
+
+  const call = {
+    from: tx.from as string,
+    to: tx.to as string,
+    data: (tx.input as string) || '0x',
+    value: hexToBigInt((tx.value as string) || '0x0'),
+    gas: hexToBigInt(tx.gas as string),
+  };
+  const parentBlock = numberToHex(hexToNumber(receipt.blockNumber as string) - 1);
+
+  let revert: IRevertReason | null;
+  try {
+    revert = await getRevertReason.call(this, call, parentBlock);
+  } catch (error) {
+    if (!/out of gas/i.test((error as Error).message)) throw error;
+    revert = null;
+  }
+
+  if (!revert) {
+    // The replay may not revert if the failure depended on earlier transactions in the block
+    return hexToBigInt(receipt.gasUsed as string) >= call.gas
+      ? { type: 'empty', reason: 'out of gas' }
+      : null;
+  }
+
+  if (revert.type === 'CustomError' && revert.data) {
+    const abi = await getVerifiedAbi.call(this, call.to);
+    if (abi) return decodeRevertData(revert.data, parseAbi(abi));
+  }
+
+  return revert;
+}
+
 /**
  * Get transaction receipt
  */
@@ -231,6 +465,8 @@ export async function getTransactionReceipt(
   index: number,
 ): Promise<INodeExecutionData[]> {
   const txHash = this.getNodeParameter('transactionHash', index) as string;
+  const decodeLogs = this.getNodeParameter('decodeLogs', index, false) as boolean;
+  const decodeRevertReason = this.getNodeParameter('decodeRevertReason', index, true) as boolean;
 
   if (!/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
     throw new NodeOperationError(this.getNode(), 'Invalid transaction hash format');
@@ -251,21 +487,102 @@ export async function getTransactionReceipt(
   }
 
   const receiptData = receipt as IDataObject;
+  const status = receiptData.status === '0x1' ? 'success' : 'failed';
+
+  const result: IDataObject = {
+    transactionHash: receiptData.transactionHash,
+    blockNumber: hexToNumber(receiptData.blockNumber as string),
+    blockHash: receiptData.blockHash,
+    from: receiptData.from,
+    to: receiptData.to,
+    contractAddress: receiptData.contractAddress,
+    gasUsed: hexToBigInt(receiptData.gasUsed as string).toString(),
+    cumulativeGasUsed: hexToBigInt(receiptData.cumulativeGasUsed as string).toString(),
+    status,
+    logsCount: (receiptData.logs as unknown[])?.length || 0,
+  };
+
+  if (decodeLogs) {
+    result.logs = await decodeReceiptLogs.call(this, (receiptData.logs as IDataObject[]) || []);
+  }
+
+  if (status === 'failed' && decodeRevertReason) {
+    try {
+      const revert = await getFailureReason.call(this, receiptData);
+      result.revertReason = revert ? revert.reason : null;
+      result.revert = revert as IDataObject | null;
+    } catch (error) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Failed to replay transaction for its revert reason: ${(error as Error).message}`,
+        { itemIndex: index },
+      );
+    }
+  }
+
+  return [{ json: result }];
+}
+
+/**
+ * Wait until a transaction has enough confirmations, or is dropped or replaced
+ */
+export async function waitForConfirmation(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const txHash = this.getNodeParameter('transactionHash', index) as string;
+  const confirmations = this.getNodeParameter('confirmations', index, 1) as number;
+  const receiptTimeout = this.getNodeParameter('receiptTimeout', index, 60) as number;
+
+  if (!/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+    throw new NodeOperationError(this.getNode(), 'Invalid transaction hash format');
+  }
+
+  const required = Math.max(confirmations, 1);
+  const result = await waitForTransaction.call(this, txHash, required, receiptTimeout * 1000);
+  const { receipt } = result;
+
+  // Mined before it was ever seen pending - look it up for the sender and nonce
+  const transaction =
+    result.transaction ??
+    (receipt
+      ? ((await jsonRpcRequest.call(this, 'eth_getTransactionByHash', [txHash])) as IDataObject | null)
+      : null);
+
+  const gasUsed = receipt ? hexToBigInt(receipt.gasUsed as string) : null;
+  const gasPriceHex = (receipt?.effectiveGasPrice ?? transaction?.gasPrice) as string | undefined;
+  const effectiveGasPrice = receipt && gasPriceHex ? hexToBigInt(gasPriceHex) : null;
+
+  const messages: Record<string, string> = {
+    dropped: 'Transaction was dropped from the mempool without being mined',
+    replaced: 'Transaction nonce was used by another transaction (replaced or cancelled)',
+    notFound: 'Transaction not found on the node',
+    pending: 'Timed out before the transaction reached the required confirmations',
+  };
 
   return [
     {
       json: {
-        transactionHash: receiptData.transactionHash,
-        blockNumber: hexToNumber(receiptData.blockNumber as string),
-        blockHash: receiptData.blockHash,
-        from: receiptData.from,
-        to: receiptData.to,
-        contractAddress: receiptData.contractAddress,
-        gasUsed: hexToBigInt(receiptData.gasUsed as string).toString(),
-        cumulativeGasUsed: hexToBigInt(receiptData.cumulativeGasUsed as string).toString(),
-        status: receiptData.status === '0x1' ? 'success' : 'failed',
-        logsCount: (receiptData.logs as unknown[])?.length || 0,
-      },
+        hash: txHash,
+        status: result.status,
+        confirmed: result.status === 'success' || result.status === 'failed',
+        confirmations: result.confirmations,
+        requiredConfirmations: required,
+        timedOut: result.timedOut,
+        from: transaction ? transaction.from : null,
+        nonce: transaction ? hexToNumber(transaction.nonce as string) : null,
+        blockNumber: receipt ? hexToNumber(receipt.blockNumber as string) : null,
+        blockHash: receipt ? receipt.blockHash : null,
+        gasUsed: gasUsed !== null ? gasUsed.toString() : null,
+        effectiveGasPrice: effectiveGasPrice !== null ? effectiveGasPrice.toString() : null,
+        effectiveGasPriceGwei:
+          effectiveGasPrice !== null ? formatTokenAmount(effectiveGasPrice, 9) : null,
+        feeCHZ:
+          gasUsed !== null && effectiveGasPrice !== null
+            ? formatWeiToCHZ(gasUsed * effectiveGasPrice)
+            : null,
+        message: messages[result.status] ?? null,
+      } as IDataObject,
     },
   ];
 }
@@ -310,3 +627,179 @@ export async function getPendingTransactions(
     ];
   }
 }
+
+/**
+ * Raise a fee by a percentage (rounding up), or use the network fee when that is higher
+ */
+function bumpFee(fee: unknown, percent: number, networkFee: bigint): bigint {
+  if (!fee) return networkFee;
+  const scaled = BigInt(Math.round((100 + percent) * 100));
+  const bumped = (hexToBigInt(fee as string) * scaled + BigInt(9999)) / BigInt(10000);
+  return bumped > networkFee ? bumped : networkFee;
+}
+
+/**
+ * Resend a pending nonce with higher fees: the same call (replace) or a 0 CHZ transfer to
+ * the sender (cancel). Fees are the original ones bumped by the given percentage, or the
+ * current network fees when those are higher.
+ */
+async function resendNonce(
+  this: IExecuteFunctions,
+  index: number,
+  mode: 'replace' | 'cancel',
+): Promise<INodeExecutionData[]> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const txHash = this.getNodeParameter('transactionHash', index, '') as string;
+  const nonceParam = this.getNodeParameter('nonce', index, '') as string | number;
+  const feeBumpPercent = this.getNodeParameter(
+    'feeBumpPercent',
+    index,
+    NONCE_MANAGER.defaultFeeBumpPercent,
+  ) as number;
+  const receiptTimeout = this.getNodeParameter('receiptTimeout', index, 60) as number;
+
+  const sender = getSigner.call(this, credentials).address.toLowerCase();
+  const bump = Math.max(feeBumpPercent, NONCE_MANAGER.minFeeBumpPercent);
+
+  let original: IDataObject | null = null;
+  let nonce: number;
+  if (txHash) {
+    if (!/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      throw new NodeOperationError(this.getNode(), 'Invalid transaction hash format');
+    }
+    original = (await jsonRpcRequest.call(this, 'eth_getTransactionByHash', [
+      txHash,
+    ])) as IDataObject | null;
+
+    if (!original) {
+      throw new NodeOperationError(this.getNode(), `Transaction ${txHash} not found`, {
+        itemIndex: index,
+      });
+    }
+    if (original.blockNumber) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Transaction ${txHash} was already mined in block ${hexToNumber(original.blockNumber as string)}`,
+        { itemIndex: index },
+      );
+    }
+    if ((original.from as string).toLowerCase() !== sender) {
+      throw new NodeOperationError(
+        this.getNode(),
+        `Transaction ${txHash} was sent by ${original.from}, not the credential key ${sender}`,
+        { itemIndex: index },
+      );
+    }
+    nonce = hexToNumber(original.nonce as string);
+  } else if (mode === 'cancel' && nonceParam !== '' && Number(nonceParam) >= 0) {
+    nonce = Number(nonceParam);
+  } else {
+    throw new NodeOperationError(
+      this.getNode(),
+      mode === 'cancel'
+        ? 'Transaction hash or nonce is required'
+        : 'Transaction hash is required',
+      { itemIndex: index },
+    );
+  }
+
+  // Replacements must raise the fees of the pending transaction; the network may ask for more
+  const fees: Pick<ITransactionRequest, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> = {};
+  const isLegacy = Boolean(original?.gasPrice) && !original?.maxFeePerGas;
+  const estimate = isLegacy ? null : await getFeeEstimate.call(this);
+  if (estimate) {
+    const suggestion = estimate[credentials.feeStrategy || 'standard'];
+    fees.maxPriorityFeePerGas = bumpFee(
+      original?.maxPriorityFeePerGas ?? original?.gasPrice,
+      bump,
+      suggestion.maxPriorityFeePerGas,
+    );
+    fees.maxFeePerGas = bumpFee(
+      original?.maxFeePerGas ?? original?.gasPrice,
+      bump,
+      suggestion.maxFeePerGas,
+    );
+    if (fees.maxFeePerGas < fees.maxPriorityFeePerGas) {
+      fees.maxFeePerGas = fees.maxPriorityFeePerGas;
+    }
+  } else {
+    const gasPriceHex = await jsonRpcRequest.call(this, 'eth_gasPrice', []);
+    fees.gasPrice = bumpFee(original?.gasPrice, bump, hexToBigInt(gasPriceHex as string));
+  }
+
+  let request: ITransactionRequest;
+  if (mode === 'replace') {
+    const tx = original as IDataObject;
+    if (!tx.to) {
+      throw new NodeOperationError(this.getNode(), 'Contract deployments cannot be replaced', {
+        itemIndex: index,
+      });
+    }
+    request = {
+      to: tx.to as string,
+      data: (tx.input as string) || '0x',
+      value: hexToBigInt((tx.value as string) || '0x0'),
+      gasLimit: hexToBigInt(tx.gas as string),
+      nonce,
+      ...fees,
+    };
+  } else {
+    request = {
+      to: sender,
+      data: '0x',
+      value: BigInt(0),
+      gasLimit: BigInt(GAS_SETTINGS.defaultGasLimit),
+      nonce,
+      ...fees,
+    };
+  }
+
+  let sent: ISentTransaction;
+  try {
+    sent = await signAndSendTransaction.call(this, request);
+  } catch (error) {
+    if (error instanceof NodeOperationError) throw error;
+    throw new NodeOperationError(
+      this.getNode(),
+      `Failed to ${mode} transaction: ${(error as Error).message}`,
+      { itemIndex: index },
+    );
+  }
+
+  const receipt =
+    receiptTimeout > 0 ? await waitForReceipt.call(this, sent.hash, receiptTimeout * 1000) : null;
+
+  return [
+    {
+      json: {
+        ...sent,
+        action: mode,
+        replacedHash: txHash || null,
+        valueFormatted: formatWeiToCHZ(sent.value),
+        status: receipt ? (receipt.status === '0x1' ? 'success' : 'failed') : 'pending',
+        blockNumber: receipt ? hexToNumber(receipt.blockNumber as string) : null,
+        gasUsed: receipt ? hexToBigInt(receipt.gasUsed as string).toString() : null,
+      } as IDataObject,
+    },
+  ];
+}
+
+/**
+ * Resend a stuck transaction with the same nonce and call, at a higher fee
+ */
+export async function replaceTransaction(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  return resendNonce.call(this, index, 'replace');
+}
+
+/**
+ * Cancel a stuck transaction (or fill a nonce gap) with a 0 CHZ transfer to self at a higher fee
+ */
+export async function cancelTransaction(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  return resendNonce.call(this, index, 'cancel');
+}
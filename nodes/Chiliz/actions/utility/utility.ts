@@ -13,7 +13,9 @@
 import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import { jsonRpcRequest, getRpcUrl } from '../../transport/client';
-import { SUPPORTED_CLUBS, KNOWN_FAN_TOKENS, NETWORKS } from '../../constants/constants';
+import { SUPPORTED_CLUBS, NETWORKS } from '../../constants/constants';
+import { encodeParameters, parseFunctionSignature } from '../../utils/abi';
+import { loadTokenRegistry } from '../../utils/tokenRegistry';
 import type { IChilizCredentials } from '../../utils/types';
 
 /**
@@ -212,8 +214,9 @@ export async function getSupportedClubs(
 	}
 
 	// Enrich with token information if available
+	const registry = await loadTokenRegistry.call(this);
 	const enrichedClubs = clubs.map((club) => {
-		const token = KNOWN_FAN_TOKENS.find(
+		const token = Object.values(registry).find(
 			(t) => t.symbol === club.symbol || t.name.includes(club.name),
 		);
 
@@ -323,58 +326,33 @@ export async function encodeFunctionCall(
 	index: number,
 ): Promise<IDataObject> {
 	const functionSignature = this.getNodeParameter('functionSignature', index) as string;
-	const parameters = this.getNodeParameter('parameters', index, []) as IDataObject[];
+	const parameters = this.getNodeParameter('parameters', index, {}) as
+		| IDataObject
+		| IDataObject[];
 
 	try {
-		// Parse function signature (e.g., "transfer(address,uint256)")
-		const match = functionSignature.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\((.*)\)$/);
-		if (!match) {
-			throw new Error('Invalid function signature format');
-		}
-
-		const functionName = match[1];
-		const paramTypes = match[2]
-			.split(',')
-			.map((t) => t.trim())
-			.filter((t) => t);
+		// Parse function signature (e.g., "transfer(address,uint256)" or a full human-readable fragment)
+		const fragment = parseFunctionSignature(functionSignature);
 
-		// Calculate function selector (first 4 bytes of keccak256 hash)
-		// For simplicity, we'll use a basic implementation
-		const selector = calculateFunctionSelector(functionSignature);
+		const paramList = Array.isArray(parameters)
+			? parameters
+			: ((parameters.parameter as IDataObject[]) || []);
 
-		// Encode parameters
-		let encodedParams = '';
-		for (let i = 0; i < paramTypes.length; i++) {
-			const paramType = paramTypes[i];
-			const param = parameters[i];
-
-			if (!param) {
-				throw new Error(`Missing parameter ${i} for type ${paramType}`);
-			}
-
-			const value = param.value as string;
-
-			if (paramType === 'address') {
-				encodedParams += value.toLowerCase().replace('0x', '').padStart(64, '0');
-			} else if (paramType.startsWith('uint') || paramType.startsWith('int')) {
-				const bigValue = BigInt(value);
-				encodedParams += bigValue.toString(16).padStart(64, '0');
-			} else if (paramType === 'bool') {
-				encodedParams += (value === 'true' ? '1' : '0').padStart(64, '0');
-			} else if (paramType === 'bytes32') {
-				encodedParams += value.replace('0x', '').padEnd(64, '0');
-			} else {
-				throw new Error(`Unsupported parameter type: ${paramType}`);
-			}
+		if (paramList.length < fragment.inputs.length) {
+			const missing = fragment.inputs[paramList.length];
+			throw new Error(`Missing parameter ${paramList.length} for type ${missing.format()}`);
 		}
 
+		const values = paramList.slice(0, fragment.inputs.length).map((param) => param.value);
+		const encodedParams = encodeParameters(fragment.inputs, values);
+
 		return {
 			success: true,
-			functionName,
-			functionSignature,
-			selector,
-			encodedParameters: encodedParams ? `0x${encodedParams}` : '0x',
-			callData: `${selector}${encodedParams}`,
+			functionName: fragment.name,
+			functionSignature: fragment.format('sighash'),
+			selector: fragment.selector,
+			encodedParameters: encodedParams,
+			callData: fragment.selector + encodedParams.slice(2),
 		};
 	} catch (error) {
 		throw new NodeOperationError(
@@ -384,31 +362,6 @@ export async function encodeFunctionCall(
 	}
 }
 
-/**
- * Calculate function selector from signature
- */
-function calculateFunctionSelector(signature: string): string {
-	// This is a simplified implementation
-	// In production, you'd use keccak256 hash
-	const commonSelectors: Record<string, string> = {
-		'transfer(address,uint256)': '0xa9059cbb',
-		'approve(address,uint256)': '0x095ea7b3',
-		'transferFrom(address,address,uint256)': '0x23b872dd',
-		'balanceOf(address)': '0x70a08231',
-		'allowance(address,address)': '0xdd62ed3e',
-		'totalSupply()': '0x18160ddd',
-		'name()': '0x06fdde03',
-		'symbol()': '0x95d89b41',
-		'decimals()': '0x313ce567',
-		'ownerOf(uint256)': '0x6352211e',
-		'tokenURI(uint256)': '0xc87b56dd',
-		'safeTransferFrom(address,address,uint256)': '0x42842e0e',
-		'getApproved(uint256)': '0x081812fc',
-	};
-
-	return commonSelectors[signature] || '0x00000000';
-}
-
 /**
  * Convert to checksum address (EIP-55)
  */
@@ -36,71 +36,100 @@ export const NETWORKS = {
 } as const;
 
 /**
- * Known Fan Token contracts on Chiliz Chain
+ * Retry, timeout and circuit breaker settings for JSON-RPC requests
  */
-export const FAN_TOKENS: Record<string, { name: string; symbol: string; address: string; club: string }> = {
+export const RPC_RETRY = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  requestTimeoutMs: 30000,
+  // Consecutive failures before an endpoint is skipped, and for how long
+  breakerThreshold: 3,
+  breakerCooldownMs: 60000,
+} as const;
+
+/**
+ * Blocks per eth_getLogs request before a range is split (halved on range-limit errors)
+ */
+export const LOG_CHUNK_SIZE = 5000;
+
+/**
+ * ChilizScan list pagination: results per page, the explorer's page * offset result window,
+ * and the spacing between requests to stay under the API rate limit
+ */
+export const CHILIZSCAN_PAGINATION = {
+  pageSize: 1000,
+  resultWindow: 10000,
+  requestIntervalMs: 250,
+} as const;
+
+/**
+ * Known Fan Tokens on Chiliz Chain (contract addresses are kept per network in FAN_TOKEN_ADDRESSES)
+ */
+export const FAN_TOKENS: Record<string, { name: string; symbol: string; club: string }> = {
   BAR: {
     name: 'FC Barcelona Fan Token',
     symbol: 'BAR',
-    address: '0x...',
     club: 'FC Barcelona',
   },
   PSG: {
     name: 'Paris Saint-Germain Fan Token',
     symbol: 'PSG',
-    address: '0x...',
     club: 'Paris Saint-Germain',
   },
   JUV: {
     name: 'Juventus Fan Token',
     symbol: 'JUV',
-    address: '0x...',
     club: 'Juventus',
   },
   ACM: {
     name: 'AC Milan Fan Token',
     symbol: 'ACM',
-    address: '0x...',
     club: 'AC Milan',
   },
   ATM: {
     name: 'Atlético Madrid Fan Token',
     symbol: 'ATM',
-    address: '0x...',
     club: 'Atlético Madrid',
   },
   ASR: {
     name: 'AS Roma Fan Token',
     symbol: 'ASR',
-    address: '0x...',
     club: 'AS Roma',
   },
   GAL: {
     name: 'Galatasaray Fan Token',
     symbol: 'GAL',
-    address: '0x...',
     club: 'Galatasaray',
   },
   OG: {
     name: 'OG Fan Token',
     symbol: 'OG',
-    address: '0x...',
     club: 'OG Esports',
   },
   CITY: {
     name: 'Manchester City Fan Token',
     symbol: 'CITY',
-    address: '0x...',
     club: 'Manchester City',
   },
   INTER: {
     name: 'Inter Milan Fan Token',
     symbol: 'INTER',
-    address: '0x...',
     club: 'Inter Milan',
   },
 };
 
+/**
+ * Verified Fan Token contract addresses per network, keyed by symbol.
+ *
+ * Only add addresses that have been checked on ChilizScan. Tokens without an entry here are
+ * resolved from the token list on the credential or node (see utils/tokenRegistry.ts).
+ */
+export const FAN_TOKEN_ADDRESSES: Record<'mainnet' | 'spicy', Record<string, string>> = {
+  mainnet: {},
+  spicy: {},
+};
+
 /**
  * ERC-20 ABI for Fan Token interactions
  */
@@ -118,6 +147,35 @@ export const ERC20_ABI = [
   'event Approval(address indexed owner, address indexed spender, uint256 value)',
 ];
 
+/**
+ * Multicall3 aggregate3 - runs many calls in one eth_call, reporting each call's success
+ */
+export const MULTICALL3_AGGREGATE3 =
+  'aggregate3((address target, bool allowFailure, bytes callData)[] calls) ' +
+  'returns ((bool success, bytes returnData)[] returnData)';
+
+/**
+ * Calls per Multicall3 aggregate or JSON-RPC batch request
+ */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * keccak256('Transfer(address,address,uint256)') - shared by ERC-20 and ERC-721
+ */
+export const TRANSFER_EVENT_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+/**
+ * Uniswap V2 style Swap(address,uint256,uint256,uint256,uint256,address) event topic
+ */
+export const SWAP_EVENT_TOPIC =
+  '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822';
+
+/**
+ * Approximate number of Chiliz Chain blocks per day (3 second block time)
+ */
+export const BLOCKS_PER_DAY = 28800;
+
 /**
  * ERC-721 ABI for NFT interactions
  */
@@ -163,7 +221,7 @@ export const API_ENDPOINTS = {
 };
 
 /**
- * Default gas settings
+ * Typical gas limits, used for cost estimates
  */
 export const GAS_SETTINGS = {
   defaultGasLimit: 21000,
@@ -171,6 +229,107 @@ export const GAS_SETTINGS = {
   contractInteractionGasLimit: 100000,
 };
 
+/**
+ * Wait For Confirmation: consecutive polls a seen transaction must be missing from the node
+ * before it counts as dropped or replaced. Load-balanced and fallback RPC endpoints can miss
+ * a pending transaction for a poll or two.
+ */
+export const TRANSACTION_WAIT = {
+  droppedAfterMisses: 3,
+} as const;
+
+/**
+ * EIP-1559 fee oracle settings: blocks of fee history sampled, the priority fee reward
+ * percentile behind each strategy, headroom on the base fee for maxFeePerGas, and the
+ * default safety multiplier applied to eth_estimateGas
+ */
+export const FEE_ORACLE = {
+  blockCount: 20,
+  percentiles: { slow: 10, standard: 50, fast: 90 },
+  baseFeeMultiplier: 2,
+  gasLimitMultiplier: 1.2,
+} as const;
+
+/**
+ * Nonce manager settings: how long a handed-out nonce may go unseen by the node before it is
+ * treated as a gap and handed out again, and the fee bump for replacing a transaction
+ */
+export const NONCE_MANAGER = {
+  gapTimeoutMs: 60000,
+  minFeeBumpPercent: 10,
+  defaultFeeBumpPercent: 15,
+} as const;
+
+/**
+ * Interface of the voting contracts read by the on-chain poll backend. Polls are numbered
+ * from 1 to pollCount() and options from 0; every vote is a VoteCast event and a voter's
+ * last vote counts, weighted by their fan token balance at the poll's snapshot block.
+ */
+export const VOTING_CONTRACT = {
+  pollCount: 'pollCount() view returns (uint256)',
+  getPoll:
+    'getPoll(uint256 pollId) view returns (string title, string description, address token, ' +
+    'uint256 startTime, uint256 endTime, uint256 snapshotBlock, string[] options)',
+  vote: 'vote(uint256 pollId, uint256 optionId)',
+  voteCastEvent:
+    'event VoteCast(uint256 indexed pollId, address indexed voter, uint256 optionId)',
+} as const;
+
+/**
+ * Off-chain vote payload signed for the Socios API. The EIP-712 domain is bound to the chain
+ * ID; the random nonce and the expiry keep a signed vote from being replayed.
+ */
+export const SIGNED_VOTE = {
+  domain: { name: 'Socios Poll Vote', version: '1' },
+  types: {
+    Vote: [
+      { name: 'pollId', type: 'string' },
+      { name: 'optionId', type: 'string' },
+      { name: 'voter', type: 'address' },
+      { name: 'tokenCount', type: 'uint256' },
+      { name: 'nonce', type: 'bytes32' },
+      { name: 'expiry', type: 'uint256' },
+    ],
+  },
+  defaultValiditySeconds: 300,
+};
+
+/**
+ * Block cursor defaults for block-based triggers: confirmations a block needs before it is
+ * processed, blocks scanned per poll (the rest carries over to the next poll), and how far
+ * back processed blocks are remembered for reorg detection
+ */
+export const TRIGGER_CURSOR = {
+  confirmations: 3,
+  maxBlocksPerPoll: 1000,
+  reorgDepth: 64,
+} as const;
+
+/**
+ * Poll lifecycle trigger defaults: how long before a poll's end date it counts as closing
+ * soon, and how many ended poll IDs are remembered so a poll is only reported as ended once
+ */
+export const POLL_LIFECYCLE = {
+  closingLeadMinutes: 60,
+  endedPollMemory: 200,
+} as const;
+
+/**
+ * Solidity Panic(uint256) codes
+ */
+export const PANIC_CODES: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array encoding',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to uninitialized internal function',
+};
+
 /**
  * Supported clubs list
  */
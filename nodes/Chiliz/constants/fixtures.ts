@@ -0,0 +1,230 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type { ITokenPrice, ITokenVolume } from '../utils/types';
+
+/**
+ * Fixture data served in sandbox mode. Every value is fixed so workflows built against the
+ * sandbox see the same output on every run; IDs and addresses are recognisably fake.
+ */
+export const SANDBOX_FIXTURES = {
+  polls: [
+    {
+      id: 'sandbox-poll-1',
+      title: 'Sandbox: Choose the pre-match walkout song',
+      description: 'Fixture poll served in sandbox mode',
+      tokenSymbol: 'BAR',
+      club: 'FC Barcelona',
+      startDate: '2025-01-01T00:00:00.000Z',
+      endDate: '2025-01-08T00:00:00.000Z',
+      status: 'active',
+      options: [
+        { id: '1', text: 'Song A', votes: 5200, percentage: 52 },
+        { id: '2', text: 'Song B', votes: 3100, percentage: 31 },
+        { id: '3', text: 'Song C', votes: 1700, percentage: 17 },
+      ],
+      totalVotes: 10000,
+      totalParticipants: 2400,
+      requiredTokens: 1,
+      rules: 'One vote per fan token held',
+    },
+    {
+      id: 'sandbox-poll-2',
+      title: 'Sandbox: Pick the training kit colour',
+      description: 'Fixture poll served in sandbox mode',
+      tokenSymbol: 'PSG',
+      club: 'Paris Saint-Germain',
+      startDate: '2025-01-02T00:00:00.000Z',
+      endDate: '2025-01-09T00:00:00.000Z',
+      status: 'active',
+      options: [
+        { id: '1', text: 'Navy', votes: 800, percentage: 40 },
+        { id: '2', text: 'White', votes: 1200, percentage: 60 },
+      ],
+      totalVotes: 2000,
+      totalParticipants: 650,
+      requiredTokens: 1,
+      rules: 'One vote per fan token held',
+    },
+    {
+      id: 'sandbox-poll-3',
+      title: 'Sandbox: Vote for the goal of the month',
+      description: 'Fixture poll served in sandbox mode',
+      tokenSymbol: 'BAR',
+      club: 'FC Barcelona',
+      startDate: '2025-02-01T00:00:00.000Z',
+      endDate: '2025-02-08T00:00:00.000Z',
+      status: 'upcoming',
+      options: [
+        { id: '1', text: 'Goal 1', votes: 0, percentage: 0 },
+        { id: '2', text: 'Goal 2', votes: 0, percentage: 0 },
+      ],
+      totalVotes: 0,
+      totalParticipants: 0,
+      requiredTokens: 1,
+      rules: 'One vote per fan token held',
+    },
+    {
+      id: 'sandbox-poll-4',
+      title: 'Sandbox: Name the new mascot',
+      description: 'Fixture poll served in sandbox mode',
+      tokenSymbol: 'JUV',
+      club: 'Juventus',
+      startDate: '2024-12-01T00:00:00.000Z',
+      endDate: '2024-12-08T00:00:00.000Z',
+      status: 'ended',
+      options: [
+        { id: '1', text: 'Zebra', votes: 4500, percentage: 75, isWinner: true },
+        { id: '2', text: 'Bianconero', votes: 1500, percentage: 25, isWinner: false },
+      ],
+      totalVotes: 6000,
+      totalParticipants: 1800,
+      requiredTokens: 1,
+      rules: 'One vote per fan token held',
+    },
+  ] as IDataObject[],
+
+  votes: [
+    {
+      pollId: 'sandbox-poll-4',
+      pollTitle: 'Sandbox: Name the new mascot',
+      optionId: '1',
+      optionText: 'Zebra',
+      tokenSymbol: 'JUV',
+      tokenCount: 3,
+      votedAt: '2024-12-03T12:00:00.000Z',
+      transactionHash: null,
+    },
+    {
+      pollId: 'sandbox-poll-1',
+      pollTitle: 'Sandbox: Choose the pre-match walkout song',
+      optionId: '2',
+      optionText: 'Song B',
+      tokenSymbol: 'BAR',
+      tokenCount: 5,
+      votedAt: '2025-01-03T18:30:00.000Z',
+      transactionHash: null,
+    },
+  ] as IDataObject[],
+
+  rewards: [
+    {
+      id: 'sandbox-reward-1',
+      title: 'Sandbox: Signed home shirt',
+      description: 'Fixture reward served in sandbox mode',
+      fullDescription: 'A signed home shirt, delivered by post',
+      tokenSymbol: 'BAR',
+      club: 'FC Barcelona',
+      requiredTokens: 50,
+      type: 'merchandise',
+      status: 'available',
+      expiryDate: '2025-06-30T00:00:00.000Z',
+      quantity: 100,
+      remaining: 42,
+      eligibilityCriteria: ['Hold at least 50 BAR'],
+      deliveryMethod: 'post',
+    },
+    {
+      id: 'sandbox-reward-2',
+      title: 'Sandbox: Stadium tour',
+      description: 'Fixture reward served in sandbox mode',
+      fullDescription: 'A guided tour of the stadium for two',
+      tokenSymbol: 'PSG',
+      club: 'Paris Saint-Germain',
+      requiredTokens: 200,
+      type: 'experience',
+      status: 'available',
+      expiryDate: '2025-09-30T00:00:00.000Z',
+      quantity: 20,
+      remaining: 5,
+      eligibilityCriteria: ['Hold at least 200 PSG'],
+      deliveryMethod: 'email',
+    },
+  ] as IDataObject[],
+
+  userRewards: [
+    {
+      id: 'sandbox-claim-1',
+      rewardId: 'sandbox-reward-1',
+      title: 'Sandbox: Signed home shirt',
+      description: 'Fixture reward served in sandbox mode',
+      tokenSymbol: 'BAR',
+      club: 'FC Barcelona',
+      type: 'merchandise',
+      status: 'claimed',
+      tokensUsed: 50,
+      claimedAt: '2025-01-05T09:00:00.000Z',
+      deliveredAt: '2025-01-12T09:00:00.000Z',
+      expiryDate: '2025-06-30T00:00:00.000Z',
+      redemptionCode: 'SANDBOX-0001',
+      transactionHash: null,
+    },
+  ] as IDataObject[],
+
+  prices: {
+    CHZ: {
+      priceUsd: '0.08',
+      priceBtc: '0.0000008',
+      priceEth: '0.00002',
+      change24h: 1.5,
+      marketCap: '710400000',
+    },
+    BAR: {
+      priceUsd: '1.5',
+      priceBtc: '0.000015',
+      priceEth: '0.000375',
+      change24h: -2.25,
+      marketCap: '60000000',
+    },
+    PSG: {
+      priceUsd: '2.1',
+      priceBtc: '0.000021',
+      priceEth: '0.000525',
+      change24h: 3.1,
+      marketCap: '84000000',
+    },
+    JUV: {
+      priceUsd: '1.2',
+      priceBtc: '0.000012',
+      priceEth: '0.0003',
+      change24h: 0,
+      marketCap: '24000000',
+    },
+  } as Record<string, Omit<ITokenPrice, 'symbol'>>,
+
+  volumes: {
+    CHZ: { volume24h: '25000000', volumeChange: 4.2, trades24h: 91000 },
+    BAR: { volume24h: '850000', volumeChange: -12.5, trades24h: 5400 },
+    PSG: { volume24h: '1200000', volumeChange: 8, trades24h: 7300 },
+    JUV: { volume24h: '430000', volumeChange: 0, trades24h: 2100 },
+  } as Record<string, Omit<ITokenVolume, 'symbol'>>,
+
+  // In ChilizScan tokenholderlist shape (raw amounts with 18 decimals), largest first
+  holders: [
+    {
+      TokenHolderAddress: '0x1111111111111111111111111111111111111111',
+      TokenHolderQuantity: '5000000000000000000000000',
+    },
+    {
+      TokenHolderAddress: '0x2222222222222222222222222222222222222222',
+      TokenHolderQuantity: '2500000000000000000000000',
+    },
+    {
+      TokenHolderAddress: '0x3333333333333333333333333333333333333333',
+      TokenHolderQuantity: '1000000000000000000000000',
+    },
+    {
+      TokenHolderAddress: '0x4444444444444444444444444444444444444444',
+      TokenHolderQuantity: '250000000000000000000000',
+    },
+    {
+      TokenHolderAddress: '0x5555555555555555555555555555555555555555',
+      TokenHolderQuantity: '100000000000000000000000',
+    },
+  ] as IDataObject[],
+};
@@ -5,10 +5,34 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, ILoadOptionsFunctions, IHttpRequestMethods } from 'n8n-workflow';
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  ILoadOptionsFunctions,
+  IPollFunctions,
+  IHttpRequestMethods,
+  JsonObject,
+} from 'n8n-workflow';
 import { NodeApiError } from 'n8n-workflow';
-import { NETWORKS, API_ENDPOINTS } from '../constants/constants';
-import type { IChilizCredentials, IJsonRpcResponse, NetworkType } from '../utils/types';
+import {
+  NETWORKS,
+  API_ENDPOINTS,
+  CHILIZSCAN_PAGINATION,
+  MAX_BATCH_SIZE,
+  MULTICALL3_AGGREGATE3,
+  RPC_RETRY,
+} from '../constants/constants';
+import { getSandboxResponse } from './sandbox';
+import { SANDBOX_FIXTURES } from '../constants/fixtures';
+import { decodeFunctionResult, encodeFunctionData } from '../utils/abi';
+import { chunkArray, sleep } from '../utils/helpers';
+import type {
+  IBatchCall,
+  IBatchCallResult,
+  IChilizCredentials,
+  IJsonRpcResponse,
+  NetworkType,
+} from '../utils/types';
 
 /**
  * Get the RPC URL based on network configuration
@@ -21,6 +45,16 @@ export function getRpcUrl(credentials: IChilizCredentials): string {
   return NETWORKS[network]?.rpcUrl || NETWORKS.mainnet.rpcUrl;
 }
 
+/**
+ * Get the primary RPC URL followed by the fallback URLs from the credential
+ */
+export function getRpcUrls(credentials: IChilizCredentials): string[] {
+  const fallbacks = (credentials.fallbackRpcUrls || '')
+    .split(/[\s,]+/)
+    .filter((url) => url !== '');
+  return [...new Set([getRpcUrl(credentials), ...fallbacks])];
+}
+
 /**
  * Get the explorer API URL based on network
  */
@@ -38,17 +72,151 @@ export function getChainId(network: NetworkType): number {
   return NETWORKS.mainnet.chainId;
 }
 
+// Consecutive failures per RPC endpoint, shared by every execution in this process
+const endpointHealth = new Map<string, { failures: number; openUntil: number }>();
+
+const TRANSIENT_ERROR_CODES = [
+  'ECONNABORTED',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+];
+
+// -32005: limit exceeded, as returned by rate-limited public nodes
+const TRANSIENT_RPC_CODES = [-32005, 429];
+
+const TRANSIENT_RPC_MESSAGES =
+  /header not found|rate limit|too many requests|timeout|timed out|temporarily unavailable|service unavailable/i;
+
+const LOG_RANGE_ERROR_MESSAGES =
+  /more than \d+ results|block range|range (is )?too (large|wide)|too many (blocks|results|logs)|exceeds? (the )?max|response size/i;
+
+/**
+ * Whether an eth_getLogs error means the block range or result set was too large
+ */
+export function isLogRangeError(error: unknown): boolean {
+  return LOG_RANGE_ERROR_MESSAGES.test((error as { message?: string } | undefined)?.message || '');
+}
+
+/**
+ * Whether a failed RPC request is worth retrying or sending to another endpoint
+ */
+export function isTransientRpcError(error: unknown): boolean {
+  // Retrying the same oversized query cannot succeed
+  if (isLogRangeError(error)) return false;
+
+  const details = (error || {}) as {
+    code?: string | number;
+    message?: string;
+    httpCode?: string;
+    statusCode?: number;
+    response?: { status?: number };
+  };
+
+  const status = Number(details.response?.status ?? details.statusCode ?? details.httpCode);
+  if (status === 429 || status >= 500) return true;
+
+  if (typeof details.code === 'string' && TRANSIENT_ERROR_CODES.includes(details.code)) return true;
+  if (typeof details.code === 'number' && TRANSIENT_RPC_CODES.includes(details.code)) return true;
+
+  return TRANSIENT_RPC_MESSAGES.test(details.message || '');
+}
+
+/**
+ * Forget recorded endpoint failures and close every circuit breaker
+ */
+export function resetRpcCircuitBreakers(): void {
+  endpointHealth.clear();
+}
+
+function isCircuitOpen(url: string): boolean {
+  const health = endpointHealth.get(url);
+  return health !== undefined && health.openUntil > Date.now();
+}
+
+function recordEndpointFailure(url: string): void {
+  const health = endpointHealth.get(url) || { failures: 0, openUntil: 0 };
+  health.failures++;
+  if (health.failures >= RPC_RETRY.breakerThreshold) {
+    health.openUntil = Date.now() + RPC_RETRY.breakerCooldownMs;
+  }
+  endpointHealth.set(url, health);
+}
+
+/**
+ * Exponential backoff with jitter, so parallel executions do not retry in lockstep
+ */
+function getRetryDelay(retry: number): number {
+  const ceiling = Math.min(RPC_RETRY.maxDelayMs, RPC_RETRY.baseDelayMs * 2 ** retry);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/**
+ * POST a JSON-RPC body, failing over between endpoints and retrying transient errors
+ */
+async function sendRpcRequest(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  body: IDataObject | IDataObject[],
+): Promise<unknown> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const urls = getRpcUrls(credentials);
+  const maxRetries = credentials.maxRetries ?? RPC_RETRY.maxRetries;
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      await sleep(getRetryDelay(attempt - 1));
+    }
+
+    // Skip endpoints that keep failing, unless every endpoint does
+    const available = urls.filter((url) => !isCircuitOpen(url));
+
+    for (const url of available.length > 0 ? available : urls) {
+      try {
+        const response = await this.helpers.httpRequest({
+          method: 'POST' as IHttpRequestMethods,
+          url,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body,
+          json: true,
+          timeout: RPC_RETRY.requestTimeoutMs,
+        });
+
+        const rpcError = (response as IJsonRpcResponse | undefined)?.error;
+        if (rpcError && isTransientRpcError(rpcError)) {
+          throw Object.assign(new Error(rpcError.message), { code: rpcError.code });
+        }
+
+        endpointHealth.delete(url);
+        return response;
+      } catch (error) {
+        if (!isTransientRpcError(error)) throw error;
+        lastError = error;
+        recordEndpointFailure(url);
+      }
+    }
+  }
+
+  const message = (lastError as Error)?.message || 'Unknown error';
+  throw new NodeApiError(this.getNode(), { message } as JsonObject, {
+    message: `RPC request failed on every endpoint: ${message}`,
+    description: `Tried ${urls.join(', ')} ${maxRetries + 1} time(s)`,
+  });
+}
+
 /**
  * Make a JSON-RPC request to the Chiliz node
  */
 export async function jsonRpcRequest<T>(
-  this: IExecuteFunctions | ILoadOptionsFunctions,
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
   method: string,
   params: unknown[] = [],
 ): Promise<T> {
-  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
-  const rpcUrl = getRpcUrl(credentials);
-
   const requestBody = {
     jsonrpc: '2.0',
     method,
@@ -56,20 +224,11 @@ export async function jsonRpcRequest<T>(
     id: Date.now(),
   };
 
-  const response = await this.helpers.httpRequest({
-    method: 'POST' as IHttpRequestMethods,
-    url: rpcUrl,
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: requestBody,
-    json: true,
-  });
-
-  const jsonRpcResponse = response as IJsonRpcResponse<T>;
+  const jsonRpcResponse = (await sendRpcRequest.call(this, requestBody)) as IJsonRpcResponse<T>;
 
   if (jsonRpcResponse.error) {
-    throw new NodeApiError(this.getNode(), {
+    // Keep the raw error (including any revert data) on errorResponse
+    throw new NodeApiError(this.getNode(), jsonRpcResponse.error as unknown as JsonObject, {
       message: jsonRpcResponse.error.message,
       description: `JSON-RPC Error (${jsonRpcResponse.error.code}): ${jsonRpcResponse.error.message}`,
     });
@@ -78,11 +237,148 @@ export async function jsonRpcRequest<T>(
   return jsonRpcResponse.result as T;
 }
 
+/**
+ * Send several JSON-RPC requests in one batch array (responses are returned in request order)
+ */
+export async function jsonRpcBatchRequest(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  requests: Array<{ method: string; params?: unknown[] }>,
+): Promise<IJsonRpcResponse[]> {
+  if (requests.length === 0) return [];
+
+  const firstId = Date.now();
+  const requestBody = requests.map((request, i) => ({
+    jsonrpc: '2.0',
+    method: request.method,
+    params: request.params || [],
+    id: firstId + i,
+  }));
+
+  const response = await sendRpcRequest.call(this, requestBody);
+
+  if (!Array.isArray(response)) {
+    // Endpoints without batch support answer with a single error object
+    const error = (response as IJsonRpcResponse).error;
+    throw new NodeApiError(this.getNode(), (error || {}) as unknown as JsonObject, {
+      message: 'JSON-RPC batch request failed',
+      description: error
+        ? `JSON-RPC Error (${error.code}): ${error.message}`
+        : 'The RPC endpoint does not support batch requests',
+    });
+  }
+
+  const responses = new Map(
+    (response as IJsonRpcResponse[]).map((item) => [Number(item.id), item]),
+  );
+  return requestBody.map(
+    (request) =>
+      responses.get(request.id) || {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32603, message: 'No response for this request in the batch' },
+      },
+  );
+}
+
+/**
+ * Run many contract reads in as few round-trips as possible: through Multicall3 aggregate3
+ * when a multicall address is configured, otherwise as JSON-RPC batches of eth_call
+ */
+export async function batchEthCall(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  calls: IBatchCall[],
+  blockTag = 'latest',
+): Promise<IBatchCallResult[]> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const multicallAddress = credentials.multicallAddress?.trim();
+  const results: IBatchCallResult[] = [];
+
+  for (const chunk of chunkArray(calls, MAX_BATCH_SIZE)) {
+    if (multicallAddress) {
+      results.push(...(await multicallAggregate3.call(this, multicallAddress, chunk, blockTag)));
+      continue;
+    }
+
+    const responses = await jsonRpcBatchRequest.call(
+      this,
+      chunk.map((call) => ({ method: 'eth_call', params: [call, blockTag] })),
+    );
+    results.push(
+      ...responses.map((response) =>
+        response.error
+          ? {
+              success: false,
+              // Keep revert data so callers can decode the reason
+              returnData: typeof response.error.data === 'string' ? response.error.data : '0x',
+            }
+          : { success: true, returnData: (response.result as string) || '0x' },
+      ),
+    );
+  }
+
+  return results;
+}
+
+async function multicallAggregate3(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  multicallAddress: string,
+  calls: IBatchCall[],
+  blockTag: string,
+): Promise<IBatchCallResult[]> {
+  const data = encodeFunctionData(MULTICALL3_AGGREGATE3, [
+    calls.map((call) => ({ target: call.to, allowFailure: true, callData: call.data })),
+  ]);
+
+  const result = (await jsonRpcRequest.call(this, 'eth_call', [
+    { to: multicallAddress, data },
+    blockTag,
+  ])) as string;
+
+  if (!result || result === '0x') {
+    throw new NodeApiError(this.getNode(), {} as JsonObject, {
+      message: `No Multicall3 contract at ${multicallAddress}`,
+      description:
+        'Check the Multicall Address on the credential, or clear it to use JSON-RPC batches',
+    });
+  }
+
+  const [returnData] = decodeFunctionResult(MULTICALL3_AGGREGATE3, result) as [
+    IBatchCallResult[],
+  ];
+  return returnData.map((item) => ({ success: item.success, returnData: item.returnData }));
+}
+
+/**
+ * Wrap a failed HTTP request in a NodeApiError naming the API, the endpoint and the HTTP status
+ */
+function httpRequestError(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  error: unknown,
+  api: string,
+  endpoint: string,
+): NodeApiError {
+  if (error instanceof NodeApiError) return error;
+
+  const details = error as {
+    message?: string;
+    httpCode?: string;
+    statusCode?: number;
+    response?: { status?: number };
+  };
+  const status = details.response?.status ?? details.statusCode ?? details.httpCode;
+  // Only the message is kept: the raw error carries the request headers, API key included
+  return new NodeApiError(this.getNode(), { message: details.message ?? 'Unknown error' }, {
+    message: `${api} request failed${status ? ` (HTTP ${status})` : ''}: ${endpoint}`,
+    description: details.message,
+    httpCode: status !== undefined ? String(status) : undefined,
+  });
+}
+
 /**
  * Make a request to ChilizScan API
  */
 export async function chilizScanRequest<T>(
-  this: IExecuteFunctions | ILoadOptionsFunctions,
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
   module: string,
   action: string,
   params: Record<string, string | number> = {},
@@ -105,11 +401,17 @@ export async function chilizScanRequest<T>(
   const queryString = new URLSearchParams(queryParams).toString();
   const url = `${apiUrl}?${queryString}`;
 
-  const response = await this.helpers.httpRequest({
-    method: 'GET' as IHttpRequestMethods,
-    url,
-    json: true,
-  });
+  let response;
+  try {
+    response = await this.helpers.httpRequest({
+      method: 'GET' as IHttpRequestMethods,
+      url,
+      json: true,
+    });
+  } catch (error) {
+    // The URL carries the API key, so only the module and action are reported
+    throw httpRequestError.call(this, error, 'ChilizScan', `${module}/${action}`);
+  }
 
   if (response.status === '0' && response.message !== 'No transactions found') {
     throw new NodeApiError(this.getNode(), {
@@ -122,16 +424,199 @@ export async function chilizScanRequest<T>(
 }
 
 /**
- * Make a request to Socios API (for voting/rewards)
+ * Fetch every result of a paginated ChilizScan list action (txlist, tokentx, ...).
+ * Pages are walked until a short page; when the explorer's result window is reached the
+ * block range is narrowed to start at the last block seen and paging restarts.
  */
-export async function sociosApiRequest<T>(
+export async function chilizScanRequestAll(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  module: string,
+  action: string,
+  params: Record<string, string | number> = {},
+): Promise<IDataObject[]> {
+  const { pageSize, resultWindow, requestIntervalMs } = CHILIZSCAN_PAGINATION;
+  const descending = params.sort === 'desc';
+  let startBlock = Number(params.startblock ?? 0);
+  let endBlock = Number(params.endblock ?? 99999999);
+  let page = 1;
+
+  const results: IDataObject[] = [];
+  // Items of the block paging restarted from, which were already collected
+  let boundaryItems = new Set<string>();
+
+  for (let request = 0; ; request++) {
+    if (request > 0) {
+      await sleep(requestIntervalMs);
+    }
+
+    const pageResult = await chilizScanRequest.call(this, module, action, {
+      ...params,
+      startblock: startBlock,
+      endblock: endBlock,
+      page,
+      offset: pageSize,
+      sort: descending ? 'desc' : 'asc',
+    });
+    const items = Array.isArray(pageResult) ? (pageResult as IDataObject[]) : [];
+
+    for (const item of items) {
+      if (!boundaryItems.has(JSON.stringify(item))) {
+        results.push(item);
+      }
+    }
+
+    if (items.length < pageSize) {
+      return results;
+    }
+
+    if (page * pageSize < resultWindow) {
+      page++;
+      continue;
+    }
+
+    const lastBlock = Number(items[items.length - 1].blockNumber);
+    if (lastBlock === (descending ? endBlock : startBlock)) {
+      throw new NodeApiError(this.getNode(), {} as JsonObject, {
+        message: `Block ${lastBlock} has more than ${resultWindow} results`,
+        description: 'ChilizScan cannot page past its result window within a single block',
+      });
+    }
+
+    boundaryItems = new Set(
+      results
+        .filter((item) => Number(item.blockNumber) === lastBlock)
+        .map((item) => JSON.stringify(item)),
+    );
+    if (descending) {
+      endBlock = lastBlock;
+    } else {
+      startBlock = lastBlock;
+    }
+    page = 1;
+  }
+}
+
+/**
+ * Read up to `maxHolders` holders of a token from the ChilizScan tokenholderlist action,
+ * largest first (the bundled fixtures in sandbox mode). The explorer's result window caps
+ * how many holders can be listed.
+ */
+export async function getTokenHolderList(
+  this: IExecuteFunctions | IPollFunctions,
+  tokenAddress: string,
+  maxHolders: number,
+): Promise<IDataObject[]> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const { pageSize, resultWindow, requestIntervalMs } = CHILIZSCAN_PAGINATION;
+  const max = Math.min(Math.max(maxHolders, 1), resultWindow);
+
+  if (credentials.sandbox) {
+    return SANDBOX_FIXTURES.holders.slice(0, max);
+  }
+
+  // Every page must use the same offset for page numbers to line up
+  const offset = Math.min(pageSize, max);
+  const holders: IDataObject[] = [];
+  for (let page = 1; holders.length < max; page++) {
+    if (page > 1) {
+      await sleep(requestIntervalMs);
+    }
+    const pageResult = await chilizScanRequest.call(this, 'token', 'tokenholderlist', {
+      contractaddress: tokenAddress,
+      page,
+      offset,
+    });
+    const items = Array.isArray(pageResult) ? (pageResult as IDataObject[]) : [];
+    holders.push(...items);
+    if (items.length < offset) break;
+  }
+  return holders.slice(0, max);
+}
+
+/**
+ * Number of holders of a token from the ChilizScan tokenholdercount action (the bundled
+ * fixtures in sandbox mode)
+ */
+export async function getTokenHolderCount(
+  this: IExecuteFunctions | IPollFunctions,
+  tokenAddress: string,
+): Promise<number> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  if (credentials.sandbox) {
+    return SANDBOX_FIXTURES.holders.length;
+  }
+
+  const result = await chilizScanRequest.call(this, 'token', 'tokenholdercount', {
+    contractaddress: tokenAddress,
+  });
+  const count = Number(result);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`ChilizScan returned an invalid holder count for ${tokenAddress}`);
+  }
+  return count;
+}
+
+/**
+ * Verified ABIs by explorer and contract address. A verified ABI never changes, so entries
+ * are kept for the life of the process; misses are not cached as a contract may be verified later.
+ */
+const verifiedAbiCache = new Map<string, string>();
+
+/**
+ * Clear the verified ABI cache
+ */
+export function clearVerifiedAbiCache(): void {
+  verifiedAbiCache.clear();
+}
+
+/**
+ * Fetch the verified ABI of a contract from ChilizScan (null when not verified)
+ */
+export async function getVerifiedAbi(
   this: IExecuteFunctions | ILoadOptionsFunctions,
+  address: string,
+): Promise<string | null> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const cacheKey = `${getExplorerApiUrl(credentials)}:${address.toLowerCase()}`;
+  const cached = verifiedAbiCache.get(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const abiResult = await chilizScanRequest.call(this, 'contract', 'getabi', { address });
+    if (abiResult && typeof abiResult === 'string' && abiResult.trim().startsWith('[')) {
+      verifiedAbiCache.set(cacheKey, abiResult);
+      return abiResult;
+    }
+  } catch {
+    // ABI not available
+  }
+  return null;
+}
+
+/**
+ * Make a request to Socios API (for voting/rewards). With sandbox mode enabled on the
+ * credential, requests are answered from the bundled fixtures instead.
+ */
+export async function sociosApiRequest<T>(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
   endpoint: string,
   method: IHttpRequestMethods = 'GET',
   body?: Record<string, unknown>,
 ): Promise<T> {
   const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
 
+  if (credentials.sandbox) {
+    const fixture = getSandboxResponse(endpoint, method, body);
+    if (fixture === undefined) {
+      throw new NodeApiError(this.getNode(), {} as JsonObject, {
+        message: `Sandbox has no fixture for ${method} ${endpoint}`,
+        description: 'Sandbox mode is enabled on the credential, so the Socios API is not called',
+        httpCode: '404',
+      });
+    }
+    return fixture as T;
+  }
+
   if (!credentials.sociosApiKey) {
     throw new NodeApiError(this.getNode(), {
       message: 'Socios API key required',
@@ -141,18 +626,22 @@ export async function sociosApiRequest<T>(
 
   const url = `${API_ENDPOINTS.socios.base}${endpoint}`;
 
-  const response = await this.helpers.httpRequest({
-    method,
-    url,
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${credentials.sociosApiKey}`,
-    },
-    body: body ? body : undefined,
-    json: true,
-  });
+  try {
+    const response = await this.helpers.httpRequest({
+      method,
+      url,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${credentials.sociosApiKey}`,
+      },
+      body: body ? body : undefined,
+      json: true,
+    });
 
-  return response as T;
+    return response as T;
+  } catch (error) {
+    throw httpRequestError.call(this, error, 'Socios API', `${method} ${endpoint}`);
+  }
 }
 
 /**
@@ -217,10 +706,7 @@ export function isValidTxHash(hash: string): boolean {
  * Encode function call for smart contract
  */
 export function encodeFunctionCall(functionSignature: string, params: unknown[]): string {
-  // Simple encoding for common functions - for full support, ethers.js would be used
-  const functionSelector = functionSignature.slice(0, 10);
-  // This is a simplified version - in production, use ethers.js Interface
-  return functionSelector + params.map(() => '').join('');
+  return encodeFunctionData(functionSignature, params);
 }
 
 /**
@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+import { jsonRpcRequest } from './client';
+import { TRIGGER_CURSOR } from '../constants/constants';
+import { hexToNumber, numberToHex } from '../utils/helpers';
+import type { IBlockCursor, ICursorRange, IProcessedBlock } from '../utils/types';
+
+/**
+ * Read a block's hash, or null when the node does not have the block yet
+ */
+async function getBlockHash(this: IPollFunctions, blockNumber: number): Promise<string | null> {
+  const block = (await jsonRpcRequest.call(this, 'eth_getBlockByNumber', [
+    numberToHex(blockNumber),
+    false,
+  ])) as IDataObject | null;
+  return block ? (block.hash as string) : null;
+}
+
+/**
+ * Find the newest processed block still on the canonical chain. When a reorg is deeper than
+ * the remembered blocks, the parent of the oldest one is trusted instead.
+ */
+async function findCommonAncestor(
+  this: IPollFunctions,
+  blocks: IProcessedBlock[],
+): Promise<IProcessedBlock | null> {
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    if ((await getBlockHash.call(this, blocks[i].number)) === blocks[i].hash) {
+      return blocks[i];
+    }
+  }
+
+  const parent = blocks[0].number - 1;
+  const hash = parent >= 0 ? await getBlockHash.call(this, parent) : null;
+  return hash ? { number: parent, hash, events: [] } : null;
+}
+
+/**
+ * Work out which blocks a trigger poll should process. The cursor is checked against the
+ * chain first: processed blocks that were reorged out are returned as `retracted` and the
+ * range restarts after the common ancestor. Only blocks with enough confirmations are
+ * included, at most `maxBlocks` per poll. Returns null when there is nothing to do.
+ */
+export async function getCursorRange(
+  this: IPollFunctions,
+  state: IDataObject,
+  scope: string,
+  options: { confirmations?: number; maxBlocks?: number } = {},
+): Promise<ICursorRange | null> {
+  const confirmations = Math.max(0, options.confirmations ?? TRIGGER_CURSOR.confirmations);
+  const maxBlocks = Math.max(1, options.maxBlocks || TRIGGER_CURSOR.maxBlocksPerPoll);
+
+  const head = hexToNumber((await jsonRpcRequest.call(this, 'eth_blockNumber', [])) as string);
+  const confirmedHead = head - confirmations;
+  if (confirmedHead < 0) return null;
+
+  // A cursor for other filters (or another event) starts over
+  const cursor = state.cursor as IBlockCursor | undefined;
+  const blocks = cursor?.scope === scope ? cursor.blocks : [];
+
+  let fromBlock: number;
+  let kept: IProcessedBlock[] = [];
+  let retracted: IProcessedBlock[] = [];
+  if (blocks.length > 0) {
+    const ancestor = await findCommonAncestor.call(this, blocks);
+    if (!ancestor) return null;
+    kept = blocks.filter((block) => block.number < ancestor.number);
+    kept.push(blocks.find((block) => block.number === ancestor.number) ?? ancestor);
+    retracted = blocks.filter((block) => block.number > ancestor.number);
+    fromBlock = ancestor.number + 1;
+  } else {
+    // Resume from the block number stored by earlier versions, otherwise start at the confirmed head
+    const lastBlockNumber = state.lastBlockNumber as number | undefined;
+    fromBlock = lastBlockNumber !== undefined ? lastBlockNumber + 1 : confirmedHead;
+  }
+
+  const toBlock = Math.min(confirmedHead, fromBlock + maxBlocks - 1);
+  let tip: IProcessedBlock;
+  if (toBlock >= fromBlock) {
+    const hash = await getBlockHash.call(this, toBlock);
+    if (!hash) return null;
+    tip = { number: toBlock, hash, events: [] };
+  } else if (retracted.length > 0) {
+    tip = kept[kept.length - 1];
+  } else {
+    return null;
+  }
+
+  return { head, fromBlock, toBlock, tip, kept, retracted };
+}
+
+/**
+ * Move the cursor to the end of a processed range, remembering the blocks that emitted
+ * events (and the recent tip) so a later reorg can be detected and retracted
+ */
+export function commitCursor(
+  state: IDataObject,
+  scope: string,
+  range: ICursorRange,
+  processed: IProcessedBlock[] = [],
+): void {
+  const byNumber = new Map<number, IProcessedBlock>();
+  for (const block of [...range.kept, ...processed]) {
+    byNumber.set(block.number, block);
+  }
+  if (!byNumber.has(range.tip.number)) {
+    byNumber.set(range.tip.number, range.tip);
+  }
+
+  const oldest = range.tip.number - TRIGGER_CURSOR.reorgDepth;
+  const blocks = [...byNumber.values()]
+    .filter((block) => block.number > oldest && block.number <= range.tip.number)
+    .sort((a, b) => a.number - b.number);
+
+  state.cursor = { scope, blocks } as IBlockCursor;
+  delete state.lastBlockNumber;
+}
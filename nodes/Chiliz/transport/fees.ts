@@ -0,0 +1,125 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { jsonRpcRequest, formatTokenAmount } from './client';
+import { FEE_ORACLE } from '../constants/constants';
+import { hexToBigInt, numberToHex } from '../utils/helpers';
+import type { FeeStrategy, IFeeEstimate, IFeeSuggestion } from '../utils/types';
+
+const STRATEGIES: FeeStrategy[] = ['slow', 'standard', 'fast'];
+
+/**
+ * Scale a bigint by a decimal multiplier, rounding up
+ */
+function applyMultiplier(value: bigint, multiplier: number): bigint {
+  const scaled = BigInt(Math.round(multiplier * 1000));
+  return (value * scaled + BigInt(999)) / BigInt(1000);
+}
+
+/**
+ * Median of a list of bigints (0 when empty)
+ */
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return BigInt(0);
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Suggest EIP-1559 fees from eth_feeHistory. Each strategy's priority fee is the median
+ * of its reward percentile over recent non-empty blocks; maxFeePerGas leaves headroom for
+ * the base fee to rise before inclusion. Returns null on networks without EIP-1559.
+ */
+export async function getFeeEstimate(
+  this: IExecuteFunctions,
+  blockCount: number = FEE_ORACLE.blockCount,
+): Promise<IFeeEstimate | null> {
+  const percentiles = STRATEGIES.map((strategy) => FEE_ORACLE.percentiles[strategy]);
+
+  let history: IDataObject;
+  try {
+    history = (await jsonRpcRequest.call(this, 'eth_feeHistory', [
+      numberToHex(blockCount),
+      'latest',
+      percentiles,
+    ])) as IDataObject;
+  } catch {
+    return null;
+  }
+
+  const baseFees = (history?.baseFeePerGas as string[] | undefined) || [];
+  if (baseFees.length === 0) return null;
+
+  // The last entry is the base fee of the next block
+  const baseFeePerGas = hexToBigInt(baseFees[baseFees.length - 1]);
+  const gasUsedRatio = (history.gasUsedRatio as number[]) || [];
+  const rewards = ((history.reward as string[][]) || []).filter(
+    (_, i) => (gasUsedRatio[i] ?? 0) > 0,
+  );
+
+  let fallbackTip: bigint | null = null;
+  if (rewards.length === 0) {
+    try {
+      const tipHex = await jsonRpcRequest.call(this, 'eth_maxPriorityFeePerGas', []);
+      fallbackTip = hexToBigInt(tipHex as string);
+    } catch {
+      fallbackTip = BigInt(0);
+    }
+  }
+
+  const estimate = { baseFeePerGas } as IFeeEstimate;
+  STRATEGIES.forEach((strategy, k) => {
+    const maxPriorityFeePerGas =
+      fallbackTip ?? median(rewards.map((blockRewards) => hexToBigInt(blockRewards[k])));
+    estimate[strategy] = {
+      maxPriorityFeePerGas,
+      maxFeePerGas:
+        applyMultiplier(baseFeePerGas, FEE_ORACLE.baseFeeMultiplier) + maxPriorityFeePerGas,
+    };
+  });
+
+  return estimate;
+}
+
+/**
+ * Estimate a gas limit with eth_estimateGas plus a safety multiplier
+ */
+export async function estimateGasLimit(
+  this: IExecuteFunctions,
+  tx: IDataObject,
+  multiplier: number = FEE_ORACLE.gasLimitMultiplier,
+): Promise<{ gasEstimate: bigint; gasLimit: bigint }> {
+  const gasHex = await jsonRpcRequest.call(this, 'eth_estimateGas', [tx]);
+  const gasEstimate = hexToBigInt(gasHex as string);
+  return { gasEstimate, gasLimit: applyMultiplier(gasEstimate, Math.max(multiplier, 1)) };
+}
+
+/**
+ * Format a fee suggestion in wei and Gwei for node output
+ */
+export function formatFeeSuggestion(suggestion: IFeeSuggestion): IDataObject {
+  return {
+    maxFeePerGas: suggestion.maxFeePerGas.toString(),
+    maxFeePerGasGwei: formatTokenAmount(suggestion.maxFeePerGas, 9),
+    maxPriorityFeePerGas: suggestion.maxPriorityFeePerGas.toString(),
+    maxPriorityFeePerGasGwei: formatTokenAmount(suggestion.maxPriorityFeePerGas, 9),
+  };
+}
+
+/**
+ * Format a fee estimate (base fee plus every strategy) for node output
+ */
+export function formatFeeEstimate(estimate: IFeeEstimate): IDataObject {
+  return {
+    baseFeePerGas: estimate.baseFeePerGas.toString(),
+    baseFeePerGasGwei: formatTokenAmount(estimate.baseFeePerGas, 9),
+    ...Object.fromEntries(
+      STRATEGIES.map((strategy) => [strategy, formatFeeSuggestion(estimate[strategy])]),
+    ),
+  };
+}
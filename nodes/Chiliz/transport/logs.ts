@@ -0,0 +1,96 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, IDataObject, IPollFunctions } from 'n8n-workflow';
+import { jsonRpcRequest, isLogRangeError } from './client';
+import { LOG_CHUNK_SIZE } from '../constants/constants';
+import { hexToNumber, numberToHex } from '../utils/helpers';
+import type { IEventFilterParams, ILogChunk } from '../utils/types';
+
+/**
+ * Parse a topics parameter given as an array or a JSON string (empty entries are dropped)
+ */
+export function parseTopics(topics: unknown): (string | null)[] {
+  const parsed = typeof topics === 'string' && topics.trim() !== '' ? JSON.parse(topics) : topics;
+  return Array.isArray(parsed) ? parsed.filter((t) => t !== '') : [];
+}
+
+/**
+ * Resolve a block parameter (number, decimal or hex string, or block tag) to a block number
+ */
+export async function resolveBlockNumber(
+  this: IExecuteFunctions,
+  block: string | number,
+): Promise<number> {
+  if (typeof block === 'number') return block;
+
+  const value = block.trim().toLowerCase();
+  if (value === 'earliest') return 0;
+  if (value === '' || ['latest', 'pending', 'safe', 'finalized'].includes(value)) {
+    return hexToNumber((await jsonRpcRequest.call(this, 'eth_blockNumber', [])) as string);
+  }
+
+  const blockNumber = value.startsWith('0x') ? parseInt(value, 16) : Number(value);
+  if (!Number.isInteger(blockNumber) || blockNumber < 0) {
+    throw new Error(`Invalid block "${block}": use a block number, a 0x hex number or "latest"`);
+  }
+  return blockNumber;
+}
+
+/**
+ * Fetch logs between two blocks in chunks of at most `chunkSize` blocks.
+ * A chunk the node rejects as too large is halved and retried; the chunk size grows back
+ * after each success. Logs are de-duplicated by transaction hash and log index, and
+ * fetching stops once `maxLogs` logs are collected.
+ */
+export async function getLogsInChunks(
+  this: IExecuteFunctions | IPollFunctions,
+  filter: Pick<IEventFilterParams, 'address' | 'topics'>,
+  fromBlock: number,
+  toBlock: number,
+  options: { chunkSize?: number; maxLogs?: number } = {},
+): Promise<ILogChunk[]> {
+  const maxChunkSize = Math.max(1, options.chunkSize || LOG_CHUNK_SIZE);
+  const maxLogs = options.maxLogs ?? Infinity;
+
+  const chunks: ILogChunk[] = [];
+  const seen = new Set<string>();
+  let logCount = 0;
+  let chunkSize = maxChunkSize;
+  let start = fromBlock;
+
+  while (start <= toBlock && logCount < maxLogs) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+
+    let logs: IDataObject[];
+    try {
+      logs = (await jsonRpcRequest.call(this, 'eth_getLogs', [
+        { ...filter, fromBlock: numberToHex(start), toBlock: numberToHex(end) },
+      ])) as IDataObject[];
+    } catch (error) {
+      if (!isLogRangeError(error) || end === start) throw error;
+      chunkSize = Math.max(1, Math.floor((end - start + 1) / 2));
+      continue;
+    }
+
+    const unique = (logs || []).filter((log) => {
+      const key = `${log.transactionHash}-${log.logIndex}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const kept = unique.slice(0, maxLogs - logCount);
+    logCount += kept.length;
+    chunks.push({ fromBlock: start, toBlock: end, logs: kept });
+
+    start = end + 1;
+    chunkSize = Math.min(maxChunkSize, chunkSize * 2);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,139 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { jsonRpcRequest } from './client';
+import { NONCE_MANAGER } from '../constants/constants';
+import { hexToNumber } from '../utils/helpers';
+import type { INonceStatus } from '../utils/types';
+
+/**
+ * Nonces handed out per chain and sender: the next unused nonce, and when each nonce above
+ * the node's pending count was last handed out. The key leaves out the RPC endpoint, so
+ * credentials reaching the same chain through different or failover URLs share one count.
+ * This state lives in memory and only coordinates sends within one n8n process; queue-mode
+ * workers, other instances or other wallets using the same key can still collide.
+ */
+const nonceState = new Map<string, { next: number; reserved: Map<number, number> }>();
+
+/**
+ * Forget every nonce handed out
+ */
+export function resetNonceManager(): void {
+  nonceState.clear();
+}
+
+/**
+ * Read the sender's transaction count at the latest and pending blocks
+ */
+async function getTransactionCounts(
+  this: IExecuteFunctions,
+  address: string,
+): Promise<{ latest: number; pending: number }> {
+  const [latestHex, pendingHex] = await Promise.all([
+    jsonRpcRequest.call(this, 'eth_getTransactionCount', [address, 'latest']),
+    jsonRpcRequest.call(this, 'eth_getTransactionCount', [address, 'pending']),
+  ]);
+  return { latest: hexToNumber(latestHex as string), pending: hexToNumber(pendingHex as string) };
+}
+
+/**
+ * Hand out the next nonce for a sender, reconciled with the node's pending count so items
+ * sending from the same key within an execution never collide.
+ * When the node's pending count stays below a nonce handed out earlier (the transaction was
+ * dropped or never arrived), that nonce blocks every later one; it is handed out again once
+ * it has gone unseen for longer than the gap timeout.
+ */
+export async function reserveNonce(
+  this: IExecuteFunctions,
+  chainId: number,
+  address: string,
+): Promise<number> {
+  const pendingHex = await jsonRpcRequest.call(this, 'eth_getTransactionCount', [
+    address,
+    'pending',
+  ]);
+  const pending = hexToNumber(pendingHex as string);
+
+  const key = `${chainId}:${address.toLowerCase()}`;
+  const state = nonceState.get(key) ?? { next: pending, reserved: new Map<number, number>() };
+  nonceState.set(key, state);
+
+  for (const nonce of state.reserved.keys()) {
+    if (nonce < pending) state.reserved.delete(nonce);
+  }
+
+  const now = Date.now();
+  let nonce: number;
+  if (state.next <= pending) {
+    nonce = pending;
+  } else {
+    const reservedAt = state.reserved.get(pending);
+    const isGap = reservedAt === undefined || now - reservedAt > NONCE_MANAGER.gapTimeoutMs;
+    nonce = isGap ? pending : state.next;
+  }
+
+  state.reserved.set(nonce, now);
+  state.next = Math.max(state.next, nonce + 1);
+  return nonce;
+}
+
+/**
+ * Return a nonce whose transaction was never broadcast, so it is handed out again
+ */
+export function releaseNonce(chainId: number, address: string, nonce: number): void {
+  const state = nonceState.get(`${chainId}:${address.toLowerCase()}`);
+  if (!state) return;
+
+  state.reserved.delete(nonce);
+  if (state.next === nonce + 1) state.next = nonce;
+}
+
+/**
+ * Compare the node's view of a sender's nonces with the nonces handed out. Queued
+ * transactions (above a gap) are read from txpool_contentFrom where the node supports it.
+ */
+export async function getNonceStatus(
+  this: IExecuteFunctions,
+  chainId: number,
+  address: string,
+): Promise<INonceStatus> {
+  const { latest, pending } = await getTransactionCounts.call(this, address);
+  const state = nonceState.get(`${chainId}:${address.toLowerCase()}`);
+
+  let queued: number[] | null = null;
+  try {
+    const content = (await jsonRpcRequest.call(this, 'txpool_contentFrom', [
+      address,
+    ])) as IDataObject;
+    queued = Object.keys((content?.queued as IDataObject) || {})
+      .map(Number)
+      .sort((a, b) => a - b);
+  } catch {
+    // txpool namespace not exposed by this node
+  }
+
+  // Missing nonces up to the highest one handed out or queued. Without the txpool only the
+  // nonce at the pending count is known to be missing.
+  const highest = Math.max(state ? state.next - 1 : -1, ...(queued ?? []));
+  const gaps: number[] = [];
+  for (let nonce = pending; nonce <= highest; nonce++) {
+    if (queued === null) {
+      gaps.push(nonce);
+      break;
+    }
+    if (!queued.includes(nonce)) gaps.push(nonce);
+  }
+
+  return {
+    latest,
+    pending,
+    next: Math.max(pending, state?.next ?? 0),
+    queued,
+    gaps,
+  };
+}
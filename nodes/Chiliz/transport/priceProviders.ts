@@ -0,0 +1,518 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IHttpRequestMethods, IDataObject } from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+import type { JsonObject } from 'n8n-workflow';
+import { jsonRpcRequest, formatTokenAmount } from './client';
+import { getLogsInChunks } from './logs';
+import { BLOCKS_PER_DAY, SWAP_EVENT_TOPIC } from '../constants/constants';
+import { SANDBOX_FIXTURES } from '../constants/fixtures';
+import { decodeParameters } from '../utils/abi';
+import {
+  buildCallData,
+  decodeStringResult,
+  hexToBigInt,
+  hexToNumber,
+  normalizeAddress,
+  numberToHex,
+} from '../utils/helpers';
+import type {
+  IChilizCredentials,
+  IPriceProvider,
+  IPriceQuery,
+  ITokenPrice,
+  ITokenVolume,
+  PriceProviderContext,
+} from '../utils/types';
+
+const USD_SYMBOL_PATTERN = /^(USD[A-Z]*|DAI)(\.E)?$/i;
+
+interface IPairSide {
+  address: string;
+  symbol: string;
+  decimals: number;
+  reserve: bigint;
+}
+
+interface IPairState {
+  base: IPairSide;
+  quote: IPairSide;
+  baseIsToken0: boolean;
+}
+
+/**
+ * Call a contract function and return the raw result
+ */
+async function callContract(
+  this: PriceProviderContext,
+  to: string,
+  signature: string,
+  blockTag: string = 'latest',
+): Promise<string> {
+  const result = await jsonRpcRequest.call(this, 'eth_call', [
+    { to, data: buildCallData(signature, []) },
+    blockTag,
+  ]);
+  return result as string;
+}
+
+/**
+ * Current block number
+ */
+async function getLatestBlock(this: PriceProviderContext): Promise<number> {
+  return hexToNumber((await jsonRpcRequest.call(this, 'eth_blockNumber', [])) as string);
+}
+
+/**
+ * Convert a raw token amount into a decimal number
+ */
+function toDecimal(amount: bigint, decimals: number): number {
+  return parseFloat(formatTokenAmount(amount, decimals));
+}
+
+/**
+ * Read a pair's tokens and reserves, with the given token as the base side. The base token is
+ * matched by contract address: a symbol() string can be claimed by any token.
+ */
+async function readPair(
+  this: PriceProviderContext,
+  pairAddress: string,
+  baseAddress: string,
+  blockTag: string = 'latest',
+): Promise<IPairState> {
+  const pair = normalizeAddress(pairAddress);
+  const token0 = '0x' + (await callContract.call(this, pair, 'token0()')).slice(-40);
+  const token1 = '0x' + (await callContract.call(this, pair, 'token1()')).slice(-40);
+  const reservesHex = await callContract.call(this, pair, 'getReserves()', blockTag);
+  const [reserve0, reserve1] = decodeParameters(['uint112', 'uint112', 'uint32'], reservesHex);
+
+  const sides = await Promise.all(
+    [token0, token1].map(async (address, i) => ({
+      address: address.toLowerCase(),
+      symbol: decodeStringResult(await callContract.call(this, address, 'symbol()')),
+      decimals: hexToNumber(await callContract.call(this, address, 'decimals()')),
+      reserve: BigInt((i === 0 ? reserve0 : reserve1) as string),
+    })),
+  );
+
+  const base = normalizeAddress(baseAddress);
+  const baseIndex = sides.findIndex((side) => side.address === base);
+  if (baseIndex === -1) {
+    throw new Error(
+      `Pair ${pair} does not contain token ${base} ` +
+        `(tokens: ${sides.map((s) => `${s.symbol} ${s.address}`).join(' / ')})`,
+    );
+  }
+
+  return { base: sides[baseIndex], quote: sides[1 - baseIndex], baseIsToken0: baseIndex === 0 };
+}
+
+/**
+ * Price of the base token in units of the quote token
+ */
+function pairPrice(state: IPairState): number {
+  const baseReserve = toDecimal(state.base.reserve, state.base.decimals);
+  if (baseReserve === 0) {
+    throw new Error(`Pair has no ${state.base.symbol} liquidity`);
+  }
+  return toDecimal(state.quote.reserve, state.quote.decimals) / baseReserve;
+}
+
+/**
+ * Read the total supply of a token
+ */
+async function readTotalSupply(
+  this: PriceProviderContext,
+  address: string,
+  decimals?: number,
+): Promise<number> {
+  try {
+    const tokenDecimals =
+      decimals ?? hexToNumber(await callContract.call(this, address, 'decimals()'));
+    const supply = hexToBigInt(await callContract.call(this, address, 'totalSupply()'));
+    return toDecimal(supply, tokenDecimals);
+  } catch (error) {
+    throw new Error(`total supply of ${address} could not be read (${(error as Error).message})`);
+  }
+}
+
+/**
+ * Run the computation of an optional price figure, recording why it failed instead of failing
+ * the whole price
+ */
+async function optionalFigure<T>(
+  warnings: string[],
+  figure: string,
+  compute: () => Promise<T>,
+): Promise<T | null> {
+  try {
+    return await compute();
+  } catch (error) {
+    warnings.push(`${figure} unavailable: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Contract address of the queried token, which the DEX source needs to find it in a pair
+ */
+function requireTokenAddress(query: IPriceQuery, purpose: string): string {
+  if (!query.tokenAddress) {
+    throw new Error(
+      `${purpose} needs the contract address of ${query.symbol}: enter the address, ` +
+        'or add the token to the token list on the credential or node',
+    );
+  }
+  return normalizeAddress(query.tokenAddress);
+}
+
+/**
+ * Price of one USD stablecoin unit in another token (BTC or ETH), from a pair of that token
+ * against the same stablecoin
+ */
+async function readUsdPriceIn(
+  this: PriceProviderContext,
+  pairAddress: string | undefined,
+  usdAddress: string,
+  asset: 'BTC' | 'ETH',
+): Promise<number> {
+  if (!pairAddress) {
+    throw new Error(
+      `set the ${asset} pair address (wrapped ${asset} against the USD stablecoin of the price) to quote the price in ${asset}`,
+    );
+  }
+  return pairPrice(await readPair.call(this, pairAddress, usdAddress));
+}
+
+/**
+ * Sum the base-token side of Swap events in a block range, read in chunks the RPC accepts
+ */
+async function sumSwaps(
+  this: PriceProviderContext,
+  pairAddress: string,
+  state: IPairState,
+  fromBlock: number,
+  toBlock: number,
+): Promise<{ volume: bigint; trades: number }> {
+  const chunks = await getLogsInChunks.call(
+    this,
+    { address: normalizeAddress(pairAddress), topics: [SWAP_EVENT_TOPIC] },
+    Math.max(fromBlock, 0),
+    toBlock,
+  );
+  const logs = chunks.flatMap((chunk) => chunk.logs);
+
+  let volume = BigInt(0);
+  for (const log of logs) {
+    const [amount0In, amount1In, amount0Out, amount1Out] = decodeParameters(
+      ['uint256', 'uint256', 'uint256', 'uint256'],
+      log.data as string,
+    ).map((value) => BigInt(value as string));
+    volume += state.baseIsToken0 ? amount0In + amount0Out : amount1In + amount1Out;
+  }
+
+  return { volume, trades: logs.length };
+}
+
+/**
+ * On-chain source: reserves of a Uniswap V2 style pair on a Chiliz DEX
+ */
+export const dexPriceProvider: IPriceProvider = {
+  async getPrice(this: PriceProviderContext, query: IPriceQuery): Promise<ITokenPrice> {
+    if (!query.pairAddress) {
+      throw new Error('A DEX pair address is required for the DEX price source');
+    }
+
+    const pairAddress = query.pairAddress;
+    const tokenAddress = requireTokenAddress(query, 'The DEX price source');
+    const state = await readPair.call(this, pairAddress, tokenAddress);
+    const priceQuote = pairPrice(state);
+
+    // Convert to USD directly from a stablecoin pair, or through a quote/stablecoin pair
+    let quoteUsd: number;
+    let usdAddress: string;
+    if (USD_SYMBOL_PATTERN.test(state.quote.symbol)) {
+      quoteUsd = 1;
+      usdAddress = state.quote.address;
+    } else if (query.usdPairAddress) {
+      const usdState = await readPair.call(this, query.usdPairAddress, state.quote.address);
+      if (!USD_SYMBOL_PATTERN.test(usdState.quote.symbol)) {
+        throw new Error(`USD pair must quote ${state.quote.symbol} in a USD stablecoin`);
+      }
+      quoteUsd = pairPrice(usdState);
+      usdAddress = usdState.quote.address;
+    } else {
+      throw new Error(
+        `${query.symbol} is quoted in ${state.quote.symbol}; set a USD pair address to convert it to USD`,
+      );
+    }
+
+    const priceUsd = priceQuote * quoteUsd;
+    const warnings: string[] = [];
+    const usdInBtc = await optionalFigure(warnings, 'BTC price', () =>
+      readUsdPriceIn.call(this, query.btcPairAddress, usdAddress, 'BTC'),
+    );
+    const usdInEth = await optionalFigure(warnings, 'ETH price', () =>
+      readUsdPriceIn.call(this, query.ethPairAddress, usdAddress, 'ETH'),
+    );
+
+    // 24h change from the reserves one day ago (needs a node that serves historical state)
+    const change24h = await optionalFigure(warnings, '24h change', async () => {
+      const latest = await getLatestBlock.call(this);
+      let pastPrice: number;
+      try {
+        const pastState = await readPair.call(
+          this,
+          pairAddress,
+          tokenAddress,
+          numberToHex(Math.max(latest - BLOCKS_PER_DAY, 0)),
+        );
+        pastPrice = pairPrice(pastState);
+      } catch (error) {
+        throw new Error(
+          `the RPC endpoint did not serve the pair's reserves from ${BLOCKS_PER_DAY} blocks ago ` +
+            `(an archive node is needed): ${(error as Error).message}`,
+        );
+      }
+      return pastPrice === 0 ? 0 : ((priceQuote - pastPrice) / pastPrice) * 100;
+    });
+
+    const totalSupply = await optionalFigure(warnings, 'Market cap', () =>
+      readTotalSupply.call(this, state.base.address, state.base.decimals),
+    );
+
+    return {
+      symbol: query.symbol,
+      priceUsd: priceUsd.toString(),
+      priceBtc: usdInBtc === null ? null : (priceUsd * usdInBtc).toFixed(10),
+      priceEth: usdInEth === null ? null : (priceUsd * usdInEth).toFixed(10),
+      change24h,
+      marketCap: totalSupply === null ? null : (totalSupply * priceUsd).toString(),
+      source: 'dex',
+      quoteSymbol: state.quote.symbol,
+      priceQuote: priceQuote.toString(),
+      ...(warnings.length > 0 ? { warnings } : {}),
+    };
+  },
+
+  async getVolume(this: PriceProviderContext, query: IPriceQuery): Promise<ITokenVolume> {
+    if (!query.pairAddress) {
+      throw new Error('A DEX pair address is required for the DEX price source');
+    }
+
+    const tokenAddress = requireTokenAddress(query, 'The DEX volume source');
+    const state = await readPair.call(this, query.pairAddress, tokenAddress);
+    const latest = await getLatestBlock.call(this);
+
+    const current = await sumSwaps.call(
+      this,
+      query.pairAddress,
+      state,
+      latest - BLOCKS_PER_DAY + 1,
+      latest,
+    );
+    const previous = await sumSwaps.call(
+      this,
+      query.pairAddress,
+      state,
+      latest - 2 * BLOCKS_PER_DAY + 1,
+      latest - BLOCKS_PER_DAY,
+    );
+
+    const volume = toDecimal(current.volume, state.base.decimals);
+    const previousVolume = toDecimal(previous.volume, state.base.decimals);
+
+    return {
+      symbol: query.symbol,
+      volume24h: volume.toString(),
+      volumeChange: previousVolume === 0 ? 0 : ((volume - previousVolume) / previousVolume) * 100,
+      trades24h: current.trades,
+      source: 'dex',
+    };
+  },
+};
+
+/**
+ * GET a path from the ticker API configured on the credential
+ */
+async function tickerRequest(
+  this: PriceProviderContext,
+  path: string,
+  params: Record<string, string>,
+): Promise<unknown> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  if (!credentials.priceApiUrl) {
+    throw new Error('Price API URL is not configured on the Chiliz credential');
+  }
+
+  const baseUrl = credentials.priceApiUrl.replace(/\/+$/, '');
+  const queryString = new URLSearchParams(params).toString();
+
+  return this.helpers.httpRequest({
+    method: 'GET' as IHttpRequestMethods,
+    url: `${baseUrl}${path}?${queryString}`,
+    json: true,
+  });
+}
+
+/**
+ * Read a positive number from a ticker API response field
+ */
+function tickerNumber(
+  this: PriceProviderContext,
+  response: IDataObject,
+  field: string,
+  market: string,
+  allowNegative = false,
+): number {
+  const value = parseFloat(String(response?.[field]));
+  if (!Number.isFinite(value) || (!allowNegative && value <= 0)) {
+    throw new NodeApiError(this.getNode(), response as JsonObject, {
+      message: `Ticker API returned an invalid ${field} for ${market}: ${JSON.stringify(response?.[field] ?? null)}`,
+    });
+  }
+  return value;
+}
+
+/**
+ * HTTP source: a Binance-compatible ticker API (/api/v3/ticker/24hr, /api/v3/klines)
+ */
+export const tickerPriceProvider: IPriceProvider = {
+  async getPrice(this: PriceProviderContext, query: IPriceQuery): Promise<ITokenPrice> {
+    const quote = (query.quoteSymbol || 'USDT').toUpperCase();
+    const symbol = query.symbol.toUpperCase();
+
+    const ticker = (await tickerRequest.call(this, '/api/v3/ticker/24hr', {
+      symbol: `${symbol}${quote}`,
+    })) as IDataObject;
+    const priceUsd = tickerNumber.call(this, ticker, 'lastPrice', `${symbol}${quote}`);
+
+    const warnings: string[] = [];
+    const change24h = await optionalFigure(warnings, '24h change', async () =>
+      tickerNumber.call(this, ticker, 'priceChangePercent', `${symbol}${quote}`, true),
+    );
+    const assetUsd = (asset: 'BTC' | 'ETH') =>
+      optionalFigure(warnings, `${asset} price`, async () => {
+        const response = await tickerRequest.call(this, '/api/v3/ticker/price', {
+          symbol: `${asset}${quote}`,
+        });
+        return tickerNumber.call(this, response as IDataObject, 'price', `${asset}${quote}`);
+      });
+    const [btcUsd, ethUsd] = await Promise.all([assetUsd('BTC'), assetUsd('ETH')]);
+
+    const totalSupply = await optionalFigure(warnings, 'Market cap', () =>
+      readTotalSupply.call(this, requireTokenAddress(query, 'the market cap')),
+    );
+
+    return {
+      symbol: query.symbol,
+      priceUsd: priceUsd.toString(),
+      priceBtc: btcUsd === null ? null : (priceUsd / btcUsd).toFixed(10),
+      priceEth: ethUsd === null ? null : (priceUsd / ethUsd).toFixed(10),
+      change24h,
+      marketCap: totalSupply === null ? null : (totalSupply * priceUsd).toString(),
+      source: 'ticker',
+      quoteSymbol: quote,
+      priceQuote: priceUsd.toString(),
+      ...(warnings.length > 0 ? { warnings } : {}),
+    };
+  },
+
+  async getVolume(this: PriceProviderContext, query: IPriceQuery): Promise<ITokenVolume> {
+    const quote = (query.quoteSymbol || 'USDT').toUpperCase();
+    const symbol = query.symbol.toUpperCase();
+
+    // 48 hourly candles: the last 24 are the current window, the first 24 the previous one
+    const klines = (await tickerRequest.call(this, '/api/v3/klines', {
+      symbol: `${symbol}${quote}`,
+      interval: '1h',
+      limit: '48',
+    })) as unknown[][];
+
+    if (!Array.isArray(klines) || klines.length === 0) {
+      throw new Error(`Ticker API returned no candles for ${symbol}${quote}`);
+    }
+
+    const split = Math.max(klines.length - 24, 0);
+    const sum = (rows: unknown[][], column: number) =>
+      rows.reduce((total, row) => total + parseFloat(String(row[column])), 0);
+
+    const volume = sum(klines.slice(split), 5);
+    const previousVolume = sum(klines.slice(0, split), 5);
+
+    return {
+      symbol: query.symbol,
+      volume24h: volume.toString(),
+      volumeChange: previousVolume === 0 ? 0 : ((volume - previousVolume) / previousVolume) * 100,
+      trades24h: sum(klines.slice(split), 8),
+      source: 'ticker',
+    };
+  },
+};
+
+/**
+ * Sandbox source: fixed prices and volumes from the bundled fixtures
+ */
+export const sandboxPriceProvider: IPriceProvider = {
+  async getPrice(this: PriceProviderContext, query: IPriceQuery): Promise<ITokenPrice> {
+    const symbol = query.symbol.toUpperCase();
+    const price = SANDBOX_FIXTURES.prices[symbol];
+    if (!price) {
+      throw new Error(
+        `Sandbox has no price fixture for ${symbol} (available: ${Object.keys(SANDBOX_FIXTURES.prices).join(', ')})`,
+      );
+    }
+    return { symbol: query.symbol, ...price, source: 'sandbox' };
+  },
+
+  async getVolume(this: PriceProviderContext, query: IPriceQuery): Promise<ITokenVolume> {
+    const symbol = query.symbol.toUpperCase();
+    const volume = SANDBOX_FIXTURES.volumes[symbol];
+    if (!volume) {
+      throw new Error(
+        `Sandbox has no volume fixture for ${symbol} (available: ${Object.keys(SANDBOX_FIXTURES.volumes).join(', ')})`,
+      );
+    }
+    return { symbol: query.symbol, ...volume, source: 'sandbox' };
+  },
+};
+
+const PRICE_PROVIDERS: Record<string, IPriceProvider> = {
+  dex: dexPriceProvider,
+  ticker: tickerPriceProvider,
+};
+
+/**
+ * Register an additional price source (or replace a built-in one)
+ */
+export function registerPriceProvider(name: string, provider: IPriceProvider): void {
+  PRICE_PROVIDERS[name] = provider;
+}
+
+/**
+ * Look up a price source by name
+ */
+export function getPriceProvider(name: string): IPriceProvider {
+  const provider = PRICE_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown price source "${name}"`);
+  }
+  return provider;
+}
+
+/**
+ * Price source for a request: the sandbox fixtures when sandbox mode is enabled on the
+ * credential, otherwise the named source
+ */
+export async function resolvePriceProvider(
+  this: PriceProviderContext,
+  name: string,
+): Promise<IPriceProvider> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  return credentials.sandbox ? sandboxPriceProvider : getPriceProvider(name);
+}
@@ -0,0 +1,150 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IHttpRequestMethods } from 'n8n-workflow';
+import { SANDBOX_FIXTURES } from '../constants/fixtures';
+
+type SandboxRoute = (
+  match: string[],
+  query: URLSearchParams,
+  body?: Record<string, unknown>,
+) => unknown;
+
+/**
+ * Apply the token, type, status and limit filters of a Socios list endpoint
+ */
+function filterList(items: IDataObject[], query: URLSearchParams): IDataObject[] {
+  const token = query.get('token')?.toUpperCase();
+  const type = query.get('type');
+  const status = query.get('status');
+  const limit = Number(query.get('limit')) || items.length;
+
+  return items
+    .filter((item) => !token || item.tokenSymbol === token)
+    .filter((item) => !type || item.type === type)
+    .filter((item) => !status || item.status === status)
+    .slice(0, limit);
+}
+
+function findPoll(pollId: string): IDataObject | undefined {
+  return SANDBOX_FIXTURES.polls.find((poll) => poll.id === pollId);
+}
+
+function findReward(rewardId: string): IDataObject | undefined {
+  return SANDBOX_FIXTURES.rewards.find((reward) => reward.id === rewardId);
+}
+
+/**
+ * Socios API endpoints served from the fixtures. A route returning undefined has no
+ * fixture for the request, which the API would answer with a 404.
+ */
+const ROUTES: Array<{ method: IHttpRequestMethods; path: RegExp; handle: SandboxRoute }> = [
+  {
+    method: 'GET',
+    path: /^\/polls\/(active|upcoming|ended)$/,
+    handle: ([status], query) =>
+      filterList(
+        SANDBOX_FIXTURES.polls.filter((poll) => poll.status === status),
+        query,
+      ),
+  },
+  {
+    method: 'GET',
+    path: /^\/polls\/([^/]+)\/results$/,
+    handle: ([pollId]) => {
+      const poll = findPoll(pollId);
+      return poll && poll.status !== 'upcoming' ? poll : undefined;
+    },
+  },
+  {
+    method: 'POST',
+    path: /^\/polls\/([^/]+)\/vote$/,
+    handle: ([pollId], _query, body) => {
+      const poll = findPoll(pollId);
+      const options = (poll?.options as IDataObject[] | undefined) || [];
+      if (poll?.status !== 'active' || !options.some((option) => option.id === body?.optionId)) {
+        return undefined;
+      }
+      return { accepted: true, transactionHash: null };
+    },
+  },
+  {
+    method: 'GET',
+    path: /^\/polls\/([^/]+)$/,
+    handle: ([pollId]) => findPoll(pollId),
+  },
+  {
+    method: 'GET',
+    path: /^\/users\/votes$/,
+    handle: (_match, query) => filterList(SANDBOX_FIXTURES.votes, query),
+  },
+  {
+    method: 'GET',
+    path: /^\/rewards\/available$/,
+    handle: (_match, query) => filterList(SANDBOX_FIXTURES.rewards, query),
+  },
+  {
+    method: 'GET',
+    path: /^\/users\/rewards(?:\/history)?$/,
+    handle: (_match, query) => filterList(SANDBOX_FIXTURES.userRewards, query),
+  },
+  {
+    method: 'POST',
+    path: /^\/rewards\/([^/]+)\/claim$/,
+    handle: ([rewardId]) =>
+      findReward(rewardId)
+        ? {
+            claimId: `sandbox-claim-${rewardId}`,
+            redemptionCode: 'SANDBOX-0000',
+            transactionHash: null,
+            nextSteps: 'Sandbox mode: nothing was claimed',
+          }
+        : undefined,
+  },
+  {
+    method: 'GET',
+    path: /^\/rewards\/([^/]+)\/eligibility$/,
+    handle: ([rewardId]) => {
+      const reward = findReward(rewardId);
+      return reward
+        ? {
+            eligible: true,
+            reason: 'Sandbox mode: every fixture reward is claimable',
+            requiredTokens: reward.requiredTokens,
+            userBalance: reward.requiredTokens,
+            missingTokens: 0,
+          }
+        : undefined;
+    },
+  },
+  {
+    method: 'GET',
+    path: /^\/rewards\/([^/]+)$/,
+    handle: ([rewardId]) => findReward(rewardId),
+  },
+];
+
+/**
+ * Answer a Socios API request from the sandbox fixtures, or undefined when there is no
+ * fixture for it
+ */
+export function getSandboxResponse(
+  endpoint: string,
+  method: IHttpRequestMethods,
+  body?: Record<string, unknown>,
+): unknown {
+  const [path, queryString = ''] = endpoint.split('?');
+  const query = new URLSearchParams(queryString);
+
+  for (const route of ROUTES) {
+    const match = route.method === method ? route.path.exec(path) : null;
+    if (match) {
+      return route.handle(match.slice(1).map(decodeURIComponent), query, body);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,404 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { Transaction, Wallet, hexlify, randomBytes } from 'ethers';
+import type { Interface } from 'ethers';
+import { jsonRpcRequest, getChainId } from './client';
+import { estimateGasLimit, getFeeEstimate } from './fees';
+import { releaseNonce, reserveNonce } from './nonces';
+import { SIGNED_VOTE, TRANSACTION_WAIT } from '../constants/constants';
+import { decodeRevertData } from '../utils/abi';
+import { add0x, hexToBigInt, hexToNumber, numberToHex, sleep } from '../utils/helpers';
+import type {
+  IChilizCredentials,
+  IRevertReason,
+  ISentTransaction,
+  ISignedVote,
+  ITransactionRequest,
+  ITransactionWaitResult,
+  IVotePayload,
+} from '../utils/types';
+
+/**
+ * Create a local signer from the credential private key
+ */
+export function getSigner(this: IExecuteFunctions, credentials: IChilizCredentials): Wallet {
+  if (!credentials.privateKey) {
+    throw new NodeOperationError(
+      this.getNode(),
+      'Private key is required for signing transactions. Please configure it in credentials.',
+    );
+  }
+
+  try {
+    return new Wallet(add0x(credentials.privateKey.trim()));
+  } catch {
+    throw new NodeOperationError(this.getNode(), 'Invalid private key in credentials');
+  }
+}
+
+/**
+ * Resolve the chain ID used for EIP-155 replay protection
+ */
+export async function resolveChainId(
+  this: IExecuteFunctions,
+  credentials: IChilizCredentials,
+): Promise<number> {
+  if (credentials.network === 'custom') {
+    const chainIdHex = await jsonRpcRequest.call(this, 'eth_chainId', []);
+    return hexToNumber(chainIdHex as string);
+  }
+  return getChainId(credentials.network);
+}
+
+/**
+ * Sign a vote with the credential key, either as EIP-712 typed data bound to the chain or as
+ * an EIP-191 personal message. A random nonce and an expiry are added to the payload.
+ */
+export async function signVote(
+  this: IExecuteFunctions,
+  vote: Pick<IVotePayload, 'pollId' | 'optionId' | 'tokenCount'>,
+  scheme: ISignedVote['scheme'],
+  validitySeconds: number = SIGNED_VOTE.defaultValiditySeconds,
+): Promise<ISignedVote> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const wallet = getSigner.call(this, credentials);
+  const chainId = await resolveChainId.call(this, credentials);
+
+  const payload: IVotePayload = {
+    ...vote,
+    voter: wallet.address.toLowerCase(),
+    nonce: hexlify(randomBytes(32)),
+    expiry: Math.floor(Date.now() / 1000) + Math.max(1, validitySeconds),
+  };
+
+  if (scheme === 'eip191') {
+    const message = [
+      `Vote on poll ${payload.pollId}`,
+      `Option: ${payload.optionId}`,
+      `Voter: ${payload.voter}`,
+      `Tokens: ${payload.tokenCount}`,
+      `Nonce: ${payload.nonce}`,
+      `Expiry: ${payload.expiry}`,
+      `Chain ID: ${chainId}`,
+    ].join('\n');
+    return {
+      scheme,
+      payload,
+      chainId,
+      signedData: message,
+      signature: await wallet.signMessage(message),
+    };
+  }
+
+  const domain = { ...SIGNED_VOTE.domain, chainId };
+  const signature = await wallet.signTypedData(domain, SIGNED_VOTE.types, payload);
+  return {
+    scheme,
+    payload,
+    chainId,
+    signedData: { domain, types: SIGNED_VOTE.types, primaryType: 'Vote', message: { ...payload } },
+    signature,
+  };
+}
+
+/**
+ * Whether a broadcast was rejected because its nonce has already been used
+ */
+function isNonceTakenError(error: unknown): boolean {
+  return /nonce too low|replacement transaction underpriced|already been used/i.test(
+    (error as Error).message || '',
+  );
+}
+
+/**
+ * Sign a transaction locally and broadcast it with eth_sendRawTransaction
+ */
+export async function signAndSendTransaction(
+  this: IExecuteFunctions,
+  request: ITransactionRequest,
+): Promise<ISentTransaction> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  const wallet = getSigner.call(this, credentials);
+  const from = wallet.address.toLowerCase();
+  const chainId = await resolveChainId.call(this, credentials);
+
+  const data = request.data || '0x';
+  const value = request.value ?? BigInt(0);
+
+  // An explicit gas price signs a legacy transaction; otherwise the fee oracle picks EIP-1559 caps
+  let gasPrice = request.gasPrice;
+  let maxFeePerGas = request.maxFeePerGas;
+  let maxPriorityFeePerGas = request.maxPriorityFeePerGas;
+  if (gasPrice === undefined && (maxFeePerGas === undefined || maxPriorityFeePerGas === undefined)) {
+    const estimate = await getFeeEstimate.call(this);
+    if (estimate) {
+      const suggestion = estimate[credentials.feeStrategy || 'standard'];
+      maxPriorityFeePerGas ??= suggestion.maxPriorityFeePerGas;
+      maxFeePerGas ??= suggestion.maxFeePerGas;
+      if (maxFeePerGas < maxPriorityFeePerGas) maxFeePerGas = maxPriorityFeePerGas;
+    } else {
+      const gasPriceHex = await jsonRpcRequest.call(this, 'eth_gasPrice', []);
+      gasPrice = hexToBigInt(gasPriceHex as string);
+    }
+  }
+  const feeFields =
+    gasPrice !== undefined
+      ? { type: 0, gasPrice }
+      : { type: 2, maxFeePerGas, maxPriorityFeePerGas };
+
+  let gasLimit = request.gasLimit;
+  if (!gasLimit) {
+    ({ gasLimit } = await estimateGasLimit.call(
+      this,
+      { from, to: request.to, data, value: numberToHex(value) },
+      credentials.gasLimitMultiplier,
+    ));
+  }
+
+  const send = async (nonce: number): Promise<string> => {
+    const signedTx = await wallet.signTransaction({
+      chainId,
+      nonce,
+      to: request.to,
+      data,
+      value,
+      gasLimit,
+      ...feeFields,
+    });
+    try {
+      return (await jsonRpcRequest.call(this, 'eth_sendRawTransaction', [signedTx])) as string;
+    } catch (error) {
+      // A retried broadcast may find the transaction already in the pool
+      if (/already known/i.test((error as Error).message)) {
+        return Transaction.from(signedTx).hash as string;
+      }
+      throw error;
+    }
+  };
+
+  let nonce = request.nonce;
+  let hash: string;
+  if (nonce !== undefined) {
+    hash = await send(nonce);
+  } else {
+    // Managed nonce: returned when the broadcast fails, and skipped once if the node says it is taken
+    for (let attempt = 0; ; attempt++) {
+      nonce = await reserveNonce.call(this, chainId, from);
+      try {
+        hash = await send(nonce);
+        break;
+      } catch (error) {
+        const taken = isNonceTakenError(error);
+        if (!taken) releaseNonce(chainId, from, nonce);
+        if (!taken || attempt > 0) throw error;
+      }
+    }
+  }
+
+  return {
+    hash,
+    from,
+    to: request.to,
+    nonce,
+    chainId,
+    value: value.toString(),
+    gasLimit: gasLimit.toString(),
+    type: feeFields.type,
+    gasPrice: gasPrice !== undefined ? gasPrice.toString() : null,
+    maxFeePerGas: feeFields.type === 2 ? String(maxFeePerGas) : null,
+    maxPriorityFeePerGas: feeFields.type === 2 ? String(maxPriorityFeePerGas) : null,
+    data,
+  };
+}
+
+/**
+ * Poll for a transaction receipt until it is mined or the timeout elapses
+ */
+export async function waitForReceipt(
+  this: IExecuteFunctions,
+  hash: string,
+  timeoutMs = 60000,
+  intervalMs = 2000,
+): Promise<IDataObject | null> {
+  const deadline = Date.now() + timeoutMs;
+  let receipt = await jsonRpcRequest.call(this, 'eth_getTransactionReceipt', [hash]);
+
+  while (!receipt && Date.now() + intervalMs <= deadline) {
+    await sleep(intervalMs);
+    receipt = await jsonRpcRequest.call(this, 'eth_getTransactionReceipt', [hash]);
+  }
+
+  return receipt ? (receipt as IDataObject) : null;
+}
+
+/**
+ * Wait until a transaction has the requested number of confirmations (the mined block counts as one)
+ */
+export async function waitForConfirmations(
+  this: IExecuteFunctions,
+  hash: string,
+  confirmations = 1,
+  timeoutMs = 60000,
+  intervalMs = 2000,
+): Promise<{ receipt: IDataObject | null; confirmations: number }> {
+  const deadline = Date.now() + timeoutMs;
+  let receipt = await waitForReceipt.call(this, hash, timeoutMs, intervalMs);
+  if (!receipt) {
+    return { receipt: null, confirmations: 0 };
+  }
+
+  const minedBlock = hexToNumber(receipt.blockNumber as string);
+  let latestHex = await jsonRpcRequest.call(this, 'eth_blockNumber', []);
+  let confirmed = hexToNumber(latestHex as string) - minedBlock + 1;
+
+  while (confirmed < confirmations && Date.now() + intervalMs <= deadline) {
+    await sleep(intervalMs);
+    latestHex = await jsonRpcRequest.call(this, 'eth_blockNumber', []);
+    confirmed = hexToNumber(latestHex as string) - minedBlock + 1;
+  }
+
+  if (confirmations > 1) {
+    // Re-read the receipt in case the transaction was reorganised into another block
+    receipt = (await jsonRpcRequest.call(this, 'eth_getTransactionReceipt', [hash])) as IDataObject | null;
+  }
+
+  return { receipt, confirmations: Math.max(confirmed, 0) };
+}
+
+/**
+ * Poll a transaction until it has the requested number of confirmations or the timeout elapses.
+ * A transaction that stays missing from the node for several polls without being mined is
+ * reported as replaced when its sender's nonce has since been used, and as dropped otherwise.
+ */
+export async function waitForTransaction(
+  this: IExecuteFunctions,
+  hash: string,
+  confirmations = 1,
+  timeoutMs = 60000,
+  intervalMs = 2000,
+): Promise<ITransactionWaitResult> {
+  const deadline = Date.now() + timeoutMs;
+  let transaction: IDataObject | null = null;
+  let misses = 0;
+
+  for (;;) {
+    const receipt = (await jsonRpcRequest.call(this, 'eth_getTransactionReceipt', [
+      hash,
+    ])) as IDataObject | null;
+    let confirmed = 0;
+
+    if (receipt) {
+      const latestHex = await jsonRpcRequest.call(this, 'eth_blockNumber', []);
+      confirmed = Math.max(
+        hexToNumber(latestHex as string) - hexToNumber(receipt.blockNumber as string) + 1,
+        0,
+      );
+      if (confirmed >= confirmations) {
+        return {
+          status: receipt.status === '0x1' ? 'success' : 'failed',
+          receipt,
+          transaction,
+          confirmations: confirmed,
+          timedOut: false,
+        };
+      }
+    } else {
+      const current = (await jsonRpcRequest.call(this, 'eth_getTransactionByHash', [
+        hash,
+      ])) as IDataObject | null;
+
+      if (current) {
+        transaction = current;
+        misses = 0;
+      } else if (transaction && ++misses >= TRANSACTION_WAIT.droppedAfterMisses) {
+        const nonceHex = await jsonRpcRequest.call(this, 'eth_getTransactionCount', [
+          transaction.from,
+          'latest',
+        ]);
+        const nonceUsed = hexToNumber(nonceHex as string) > hexToNumber(transaction.nonce as string);
+
+        // The receipt may have landed between the two lookups
+        const mined = nonceUsed
+          ? await jsonRpcRequest.call(this, 'eth_getTransactionReceipt', [hash])
+          : null;
+        if (!mined) {
+          return {
+            status: nonceUsed ? 'replaced' : 'dropped',
+            receipt: null,
+            transaction,
+            confirmations: 0,
+            timedOut: false,
+          };
+        }
+        continue;
+      }
+    }
+
+    if (Date.now() + intervalMs > deadline) {
+      return {
+        status: receipt || transaction ? 'pending' : 'notFound',
+        receipt,
+        transaction,
+        confirmations: confirmed,
+        timedOut: true,
+      };
+    }
+    await sleep(intervalMs);
+  }
+}
+
+/**
+ * Pull hex revert data out of a JSON-RPC error, if the node returned any
+ */
+export function getRevertData(error: unknown): string | null {
+  const response = (error as { errorResponse?: IDataObject }).errorResponse;
+  let data = response?.data as unknown;
+
+  // Some nodes nest the payload as { data: { data: '0x...' } }
+  if (data && typeof data === 'object') {
+    data = (data as IDataObject).data;
+  }
+
+  return typeof data === 'string' && /^0x[0-9a-fA-F]*$/.test(data) ? data : null;
+}
+
+/**
+ * Simulate a call with eth_call and return the decoded revert reason, or null if it succeeds
+ */
+export async function getRevertReason(
+  this: IExecuteFunctions,
+  call: { from: string; to: string; data: string; value?: bigint; gas?: bigint },
+  blockTag: string = 'latest',
+  iface?: Interface | null,
+): Promise<IRevertReason | null> {
+  const { gas, ...request } = call;
+  try {
+    await jsonRpcRequest.call(this, 'eth_call', [
+      {
+        ...request,
+        value: numberToHex(call.value ?? BigInt(0)),
+        ...(gas !== undefined ? { gas: numberToHex(gas) } : {}),
+      },
+      blockTag,
+    ]);
+    return null;
+  } catch (error) {
+    const data = getRevertData(error);
+    if (data !== null) {
+      return decodeRevertData(data, iface);
+    }
+
+    const message = (error as Error).message || '';
+    if (/revert/i.test(message)) {
+      return { type: 'empty', reason: message };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,312 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject, IExecuteFunctions, IPollFunctions } from 'n8n-workflow';
+import { batchEthCall, formatTokenAmount, jsonRpcRequest } from './client';
+import { getLogsInChunks } from './logs';
+import { BLOCKS_PER_DAY, VOTING_CONTRACT } from '../constants/constants';
+import {
+  decodeEventLog,
+  decodeFunctionResult,
+  encodeFunctionData,
+  parseEventFragments,
+} from '../utils/abi';
+import {
+  encodeAddress,
+  encodeUint256,
+  hexToBigInt,
+  hexToNumber,
+  numberToHex,
+} from '../utils/helpers';
+import type { IOnChainPoll, IPollTally } from '../utils/types';
+
+type VotingContext = IExecuteFunctions | IPollFunctions;
+
+const VOTE_CAST = parseEventFragments([VOTING_CONTRACT.voteCastEvent]);
+
+/**
+ * Number of polls created on a voting contract
+ */
+export async function getPollCount(this: VotingContext, contract: string): Promise<number> {
+  const result = (await jsonRpcRequest.call(this, 'eth_call', [
+    { to: contract, data: encodeFunctionData(VOTING_CONTRACT.pollCount, []) },
+    'latest',
+  ])) as string;
+  if (!result || result === '0x') {
+    throw new Error(`No voting contract at ${contract}: pollCount() returned no data`);
+  }
+  return Number(decodeFunctionResult(VOTING_CONTRACT.pollCount, result)[0]);
+}
+
+/**
+ * Read polls by ID in batched calls. Polls that cannot be read (unknown IDs) are left out.
+ */
+export async function readPolls(
+  this: VotingContext,
+  contract: string,
+  pollIds: Array<string | number>,
+): Promise<IOnChainPoll[]> {
+  const results = await batchEthCall.call(
+    this,
+    pollIds.map((pollId) => ({
+      to: contract,
+      data: encodeFunctionData(VOTING_CONTRACT.getPoll, [pollId]),
+    })),
+  );
+
+  const polls: IOnChainPoll[] = [];
+  results.forEach((result, i) => {
+    if (!result.success || result.returnData === '0x') return;
+    const [title, description, token, startTime, endTime, snapshotBlock, options] =
+      decodeFunctionResult(VOTING_CONTRACT.getPoll, result.returnData) as [
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string[],
+      ];
+    polls.push({
+      id: String(pollIds[i]),
+      title,
+      description,
+      token: token.toLowerCase(),
+      startTime: Number(startTime),
+      endTime: Number(endTime),
+      snapshotBlock: Number(snapshotBlock),
+      options: [...options],
+    });
+  });
+  return polls;
+}
+
+/**
+ * Read a single poll, failing when the contract does not have it
+ */
+export async function readPoll(
+  this: VotingContext,
+  contract: string,
+  pollId: string,
+): Promise<IOnChainPoll> {
+  if (!/^\d+$/.test(pollId.trim())) {
+    throw new Error(`Invalid poll ID "${pollId}": on-chain polls are numbered from 1`);
+  }
+  const [poll] = await readPolls.call(this, contract, [pollId.trim()]);
+  if (!poll) {
+    throw new Error(`Poll ${pollId} not found on voting contract ${contract}`);
+  }
+  return poll;
+}
+
+/**
+ * Status of a poll at a point in time (Unix seconds)
+ */
+export function getPollStatus(
+  poll: IOnChainPoll,
+  now: number = Math.floor(Date.now() / 1000),
+): 'upcoming' | 'active' | 'ended' {
+  if (now < poll.startTime) return 'upcoming';
+  return now < poll.endTime ? 'active' : 'ended';
+}
+
+/**
+ * Read a block's timestamp (Unix seconds)
+ */
+async function getBlockTimestamp(this: VotingContext, blockNumber: number): Promise<number> {
+  const block = (await jsonRpcRequest.call(this, 'eth_getBlockByNumber', [
+    numberToHex(blockNumber),
+    false,
+  ])) as IDataObject | null;
+  if (!block) {
+    throw new Error(`Block ${blockNumber} not found`);
+  }
+  return hexToNumber(block.timestamp as string);
+}
+
+/**
+ * First block mined at or after a time (Unix seconds), or the latest block when the time is
+ * still ahead. The search starts from an estimate at the nominal block time and widens the
+ * bracket until it holds the block, so it needs few reads even on a long chain.
+ */
+export async function findBlockByTimestamp(
+  this: VotingContext,
+  timestamp: number,
+): Promise<number> {
+  const latest = hexToNumber((await jsonRpcRequest.call(this, 'eth_blockNumber', [])) as string);
+  const latestTime = await getBlockTimestamp.call(this, latest);
+  if (timestamp >= latestTime) return latest;
+
+  const blockTime = 86400 / BLOCKS_PER_DAY;
+  const estimate = Math.max(latest - Math.ceil((latestTime - timestamp) / blockTime), 0);
+
+  // Bracket: the block at `low` is older than the time, the block at `high` is not
+  let low = -1;
+  let high = latest;
+  let step = Math.ceil(60 / blockTime);
+  if ((await getBlockTimestamp.call(this, estimate)) >= timestamp) {
+    high = estimate;
+    for (let probe = estimate - step; probe >= 0; probe = high - (step *= 2)) {
+      if ((await getBlockTimestamp.call(this, probe)) < timestamp) {
+        low = probe;
+        break;
+      }
+      high = probe;
+    }
+  } else {
+    low = estimate;
+    for (let probe = estimate + step; probe < latest; probe = low + (step *= 2)) {
+      if ((await getBlockTimestamp.call(this, probe)) >= timestamp) {
+        high = probe;
+        break;
+      }
+      low = probe;
+    }
+  }
+
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await getBlockTimestamp.call(this, middle)) >= timestamp) high = middle;
+    else low = middle;
+  }
+  return high;
+}
+
+/**
+ * Read the VoteCast events of a contract from a block on, optionally for one poll or voter
+ */
+export async function getVoteEvents(
+  this: VotingContext,
+  contract: string,
+  fromBlock: number,
+  filter: { pollId?: string; voter?: string } = {},
+): Promise<IDataObject[]> {
+  const latest = hexToNumber((await jsonRpcRequest.call(this, 'eth_blockNumber', [])) as string);
+  const topics = [
+    VOTE_CAST[0].topicHash,
+    filter.pollId !== undefined ? encodeUint256(filter.pollId) : null,
+    filter.voter ? encodeAddress(filter.voter) : null,
+  ];
+  while (topics[topics.length - 1] === null) topics.pop();
+
+  const chunks = await getLogsInChunks.call(
+    this,
+    { address: contract, topics },
+    Math.min(fromBlock, latest),
+    latest,
+  );
+
+  return chunks
+    .flatMap((chunk) => chunk.logs)
+    .map((log) => {
+      const decoded = decodeEventLog(VOTE_CAST, {
+        topics: log.topics as string[],
+        data: log.data as string,
+      });
+      return decoded
+        ? {
+            pollId: decoded.args.pollId,
+            voter: (decoded.args.voter as string).toLowerCase(),
+            optionId: decoded.args.optionId,
+            blockNumber: hexToNumber(log.blockNumber as string),
+            logIndex: hexToNumber(log.logIndex as string),
+            transactionHash: log.transactionHash,
+          }
+        : null;
+    })
+    .filter((vote): vote is NonNullable<typeof vote> => vote !== null)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * Fan token balances of voters at a block, as decimal token amounts (0 when unreadable)
+ */
+export async function readVoterWeights(
+  this: VotingContext,
+  token: string,
+  voters: string[],
+  blockTag: string = 'latest',
+): Promise<Map<string, number>> {
+  const [decimalsResult, ...balances] = await batchEthCall.call(
+    this,
+    [
+      { to: token, data: encodeFunctionData('decimals()', []) },
+      ...voters.map((voter) => ({
+        to: token,
+        data: encodeFunctionData('balanceOf(address)', [voter]),
+      })),
+    ],
+    blockTag,
+  );
+  // Without decimals the raw balances cannot be scaled, so do not guess
+  if (!decimalsResult.success || decimalsResult.returnData === '0x') {
+    throw new Error(`Cannot weight votes: decimals() of token ${token} could not be read`);
+  }
+  const decimals = hexToNumber(decimalsResult.returnData);
+
+  return new Map(
+    voters.map((voter, i) => {
+      const balance = balances[i];
+      const raw =
+        balance.success && balance.returnData !== '0x'
+          ? hexToBigInt(balance.returnData)
+          : BigInt(0);
+      return [voter, parseFloat(formatTokenAmount(raw, decimals))];
+    }),
+  );
+}
+
+/**
+ * Tally a poll from its VoteCast events, read from the block at the poll's start time on.
+ * Each voter's last vote for a valid option counts, weighted by their fan token balance at
+ * the poll's snapshot block (or the latest block while the snapshot block is still ahead).
+ */
+export async function tallyPoll(
+  this: VotingContext,
+  contract: string,
+  poll: IOnChainPoll,
+): Promise<IPollTally> {
+  const startBlock = await findBlockByTimestamp.call(this, poll.startTime);
+  const events = await getVoteEvents.call(this, contract, startBlock, { pollId: poll.id });
+
+  const lastVotes = new Map<string, IDataObject>();
+  for (const vote of events) {
+    if (Number(vote.optionId) < poll.options.length) {
+      lastVotes.set(vote.voter as string, vote);
+    }
+  }
+  const voters = [...lastVotes.keys()];
+
+  const latest = hexToNumber((await jsonRpcRequest.call(this, 'eth_blockNumber', [])) as string);
+  const blockTag = poll.snapshotBlock <= latest ? numberToHex(poll.snapshotBlock) : 'latest';
+  const weights = await readVoterWeights.call(this, poll.token, voters, blockTag);
+
+  const votes = voters.map((voter) => {
+    const vote = lastVotes.get(voter) as IDataObject;
+    return {
+      voter,
+      optionId: String(vote.optionId),
+      weight: weights.get(voter) ?? 0,
+      transactionHash: vote.transactionHash as string,
+    };
+  });
+
+  const totalVotes = votes.reduce((sum, vote) => sum + vote.weight, 0);
+  const options = poll.options.map((text, optionId) => {
+    const optionVotes = votes.filter((vote) => vote.optionId === String(optionId));
+    const weight = optionVotes.reduce((sum, vote) => sum + vote.weight, 0);
+    return {
+      id: String(optionId),
+      text,
+      votes: weight,
+      percentage: totalVotes > 0 ? Math.round((weight / totalVotes) * 10000) / 100 : 0,
+      voters: optionVotes.length,
+    };
+  });
+
+  return { options, totalVotes, totalVoters: votes.length, votes };
+}
@@ -0,0 +1,383 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import { AbiCoder, EventFragment, FunctionFragment, Interface, ParamType } from 'ethers';
+import type { InterfaceAbi } from 'ethers';
+import { PANIC_CODES } from '../constants/constants';
+import type { IDecodedEvent, IRevertReason } from './types';
+
+const coder = AbiCoder.defaultAbiCoder();
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+/**
+ * Parse a function signature or human-readable fragment
+ * e.g. "transfer(address,uint256)" or "function balanceOf(address owner) view returns (uint256)"
+ */
+export function parseFunctionSignature(signature: string): FunctionFragment {
+  try {
+    return FunctionFragment.from(signature.trim());
+  } catch (error) {
+    throw new Error(`Invalid function signature "${signature}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Compute the 4-byte keccak-256 selector for a function signature
+ */
+export function computeSelector(signature: string): string {
+  return parseFunctionSignature(signature).selector;
+}
+
+/**
+ * Parse user input that may be a JSON string into a value
+ */
+function parseJsonInput(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`Expected a JSON array or object but got "${value}"`);
+  }
+}
+
+/**
+ * Coerce a loosely typed value (e.g. from a node parameter) into what the ABI coder expects
+ */
+export function coerceAbiValue(param: ParamType, value: unknown): unknown {
+  if (param.isArray()) {
+    const items = parseJsonInput(value);
+    if (!Array.isArray(items)) {
+      throw new Error(`Expected an array for ${param.format()}`);
+    }
+    return items.map((item) => coerceAbiValue(param.arrayChildren, item));
+  }
+
+  if (param.isTuple()) {
+    const tuple = parseJsonInput(value);
+    if (Array.isArray(tuple)) {
+      return param.components.map((component, i) => coerceAbiValue(component, tuple[i]));
+    }
+    if (tuple && typeof tuple === 'object') {
+      return param.components.map((component, i) =>
+        coerceAbiValue(
+          component,
+          (tuple as Record<string, unknown>)[component.name || String(i)],
+        ),
+      );
+    }
+    throw new Error(`Expected an array or object for ${param.format()}`);
+  }
+
+  if (param.baseType === 'bool') {
+    const text = String(value).trim().toLowerCase();
+    if (value === true || text === 'true' || text === '1') return true;
+    if (value === false || text === 'false' || text === '0') return false;
+    throw new Error(`Invalid bool value ${JSON.stringify(value)}: use true or false`);
+  }
+
+  if (param.baseType.startsWith('uint') || param.baseType.startsWith('int')) {
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`Missing value for ${param.format()}`);
+    }
+    return BigInt(String(value));
+  }
+
+  if (param.baseType === 'address') {
+    return String(value).toLowerCase();
+  }
+
+  if (param.baseType === 'string') {
+    return String(value ?? '');
+  }
+
+  return value;
+}
+
+/**
+ * Convert a decoded ABI value into plain JSON (bigints as strings, tuples as named objects)
+ */
+export function toJsonValue(param: ParamType, value: unknown): unknown {
+  if (param.isArray()) {
+    return Array.from(value as unknown[]).map((item) => toJsonValue(param.arrayChildren, item));
+  }
+
+  if (param.isTuple()) {
+    const items = Array.from(value as unknown[]);
+    const named = param.components.every((component) => component.name);
+    if (!named) {
+      return param.components.map((component, i) => toJsonValue(component, items[i]));
+    }
+    return Object.fromEntries(
+      param.components.map((component, i) => [component.name, toJsonValue(component, items[i])]),
+    );
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (param.baseType === 'address') {
+    return (value as string).toLowerCase();
+  }
+
+  return value;
+}
+
+/**
+ * Normalize a list of types given as strings or ParamTypes
+ */
+function toParamTypes(types: ReadonlyArray<string | ParamType>): ParamType[] {
+  return types.map((type) => (typeof type === 'string' ? ParamType.from(type) : type));
+}
+
+/**
+ * ABI-encode values for the given types (no selector)
+ */
+export function encodeParameters(types: ReadonlyArray<string | ParamType>, values: unknown[]): string {
+  const params = toParamTypes(types);
+  if (params.length !== values.length) {
+    throw new Error(`Expected ${params.length} parameters but got ${values.length}`);
+  }
+  return coder.encode(
+    params,
+    params.map((param, i) => coerceAbiValue(param, values[i])),
+  );
+}
+
+/**
+ * ABI-decode data for the given types into plain JSON values
+ */
+export function decodeParameters(types: ReadonlyArray<string | ParamType>, data: string): unknown[] {
+  const params = toParamTypes(types);
+  if (params.length === 0) return [];
+  const decoded = coder.decode(params, data);
+  return params.map((param, i) => toJsonValue(param, decoded[i]));
+}
+
+/**
+ * Build call data (selector + encoded arguments) for a function signature
+ */
+export function encodeFunctionData(signature: string, values: unknown[]): string {
+  const fragment = parseFunctionSignature(signature);
+  return fragment.selector + encodeParameters(fragment.inputs, values).slice(2);
+}
+
+/**
+ * Decode the return data of a function call using the outputs declared in its signature
+ */
+export function decodeFunctionResult(signature: string, data: string): unknown[] {
+  const fragment = parseFunctionSignature(signature);
+  return decodeParameters(fragment.outputs, data);
+}
+
+/**
+ * Split an ABI given as JSON or as human-readable fragments (one per line) into fragments
+ */
+function toAbiFragments(abi: string | ReadonlyArray<unknown>): unknown[] {
+  let fragments: unknown = abi;
+
+  if (typeof abi === 'string') {
+    const trimmed = abi.trim();
+    fragments =
+      trimmed.startsWith('[') || trimmed.startsWith('{')
+        ? JSON.parse(trimmed)
+        : trimmed
+            .split('\n')
+            .map((line) => line.trim())
+            .filter((line) => line !== '');
+  }
+
+  return Array.isArray(fragments) ? fragments : [fragments];
+}
+
+/**
+ * Parse an ABI given as JSON or as human-readable fragments (one per line)
+ */
+export function parseAbi(abi: string | ReadonlyArray<unknown>): Interface {
+  const fragments = toAbiFragments(abi);
+
+  try {
+    return new Interface(fragments as InterfaceAbi);
+  } catch (error) {
+    throw new Error(`Invalid ABI: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Find a function in an ABI by name, signature or human-readable fragment
+ */
+export function findAbiFunction(iface: Interface, key: string): FunctionFragment {
+  const lookup = key.includes('(') ? parseFunctionSignature(key).format('sighash') : key.trim();
+  const fragment = iface.getFunction(lookup);
+  if (!fragment) {
+    throw new Error(`Function "${key}" not found in ABI`);
+  }
+  return fragment;
+}
+
+/**
+ * List the read-only (view/pure) functions of an ABI
+ */
+export function getViewFunctions(iface: Interface): FunctionFragment[] {
+  const fragments: FunctionFragment[] = [];
+  iface.forEachFunction((fragment) => {
+    if (fragment.constant) fragments.push(fragment);
+  });
+  return fragments;
+}
+
+/**
+ * Decode function return data into named fields (unnamed outputs become output0, output1, ...)
+ */
+export function decodeFunctionOutputs(fragment: FunctionFragment, data: string): IDataObject {
+  const values = decodeParameters(fragment.outputs, data);
+  return Object.fromEntries(
+    fragment.outputs.map((output, i) => [output.name || `output${i}`, values[i]]),
+  ) as IDataObject;
+}
+
+/**
+ * Decode revert data into a readable reason: Error(string), Panic(uint256) or a custom error
+ * from the given ABI. Unknown custom errors are reported by selector.
+ */
+export function decodeRevertData(data: string, iface?: Interface | null): IRevertReason {
+  if (!data || data === '0x') {
+    return { type: 'empty', reason: 'execution reverted without a reason' };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const payload = '0x' + data.slice(10);
+
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [message] = decodeParameters(['string'], payload);
+      return { type: 'Error', reason: message as string, selector, data };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = decodeParameters(['uint256'], payload);
+      const description = PANIC_CODES[Number(code)] || 'unknown panic code';
+      return {
+        type: 'Panic',
+        reason: `Panic(0x${BigInt(code as string).toString(16)}): ${description}`,
+        selector,
+        data,
+        args: { code: code as string },
+      };
+    }
+  } catch {
+    // Malformed payload - report it as an unknown error below
+  }
+
+  const fragment = iface?.getError(selector);
+  if (fragment) {
+    let values: unknown[];
+    try {
+      values = decodeParameters(fragment.inputs, payload);
+    } catch {
+      // Keep the original revert visible when its payload does not match the ABI
+      return {
+        type: 'CustomError',
+        reason: `${fragment.name} with undecodable data ${data}`,
+        selector,
+        data,
+      };
+    }
+    const args = Object.fromEntries(
+      fragment.inputs.map((input, i) => [input.name || `arg${i}`, values[i]]),
+    ) as IDataObject;
+    return {
+      type: 'CustomError',
+      reason: `${fragment.name}(${values.map((value) => JSON.stringify(value)).join(', ')})`,
+      selector,
+      data,
+      args,
+    };
+  }
+
+  return { type: 'CustomError', reason: `unknown custom error ${selector}`, selector, data };
+}
+
+/**
+ * Parse the events of an ABI, or bare event signatures such as "Transfer(address indexed from, ...)".
+ * Fragments are kept apart rather than merged into an Interface, so events sharing a topic
+ * (ERC-20 and ERC-721 Transfer) can be told apart by their indexed parameters.
+ */
+export function parseEventFragments(abi: string | ReadonlyArray<unknown>): EventFragment[] {
+  const events: EventFragment[] = [];
+
+  for (const fragment of toAbiFragments(abi)) {
+    if (typeof fragment === 'string') {
+      if (/^(function|error|constructor|fallback|receive|struct)\b/.test(fragment)) continue;
+      const signature = fragment.startsWith('event ') ? fragment : `event ${fragment}`;
+      try {
+        events.push(EventFragment.from(signature));
+      } catch (error) {
+        throw new Error(`Invalid event "${fragment}": ${(error as Error).message}`);
+      }
+    } else if ((fragment as IDataObject | null)?.type === 'event') {
+      events.push(EventFragment.from(fragment));
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Whether an indexed parameter is stored in its topic as a keccak-256 hash
+ */
+function isHashedTopic(param: ParamType): boolean {
+  return param.isArray() || param.isTuple() || param.type === 'string' || param.type === 'bytes';
+}
+
+/**
+ * Decode a log against the event whose topic and indexed parameter count match it.
+ * Parameters are returned by name (unnamed ones become arg0, arg1, ...); indexed strings,
+ * bytes, arrays and tuples can only be returned as the hash held in their topic.
+ * Returns null when no event matches.
+ */
+export function decodeEventLog(
+  events: ReadonlyArray<EventFragment>,
+  log: { topics: string[]; data: string },
+): IDecodedEvent | null {
+  const [topic0, ...indexedTopics] = log.topics || [];
+  if (!topic0) return null;
+
+  const fragment = events.find(
+    (event) =>
+      !event.anonymous &&
+      event.topicHash === topic0.toLowerCase() &&
+      event.inputs.filter((input) => input.indexed).length === indexedTopics.length,
+  );
+  if (!fragment) return null;
+
+  const values = decodeParameters(
+    fragment.inputs.filter((input) => !input.indexed),
+    log.data || '0x',
+  );
+
+  let topicIndex = 0;
+  let valueIndex = 0;
+  const args = Object.fromEntries(
+    fragment.inputs.map((input, i) => {
+      if (!input.indexed) return [input.name || `arg${i}`, values[valueIndex++]];
+      const topic = indexedTopics[topicIndex++];
+      const value = isHashedTopic(input) ? topic : decodeParameters([input], topic)[0];
+      return [input.name || `arg${i}`, value];
+    }),
+  ) as IDataObject;
+
+  return {
+    eventName: fragment.name,
+    signature: fragment.format('sighash'),
+    topic: fragment.topicHash,
+    args,
+  };
+}
@@ -7,6 +7,7 @@
 
 import type { IDataObject } from 'n8n-workflow';
 import type { IBlock, ITransaction, IEventLog, IFanToken, ITokenBalance } from './types';
+import { computeSelector, decodeParameters, encodeParameters } from './abi';
 
 /**
  * Parse hex string to number
@@ -170,28 +171,25 @@ export function padHex(hex: string, length: number): string {
 }
 
 /**
- * Keccak256 hash function selector (first 4 bytes)
- * Simple implementation for function selectors
+ * Keccak-256 function selector (first 4 bytes)
+ * Accepts a full signature, a raw 0x selector or a shorthand ERC-20/ERC-721 function name
  */
 export function getFunctionSelector(signature: string): string {
-  // This is a placeholder - in production, use ethers.js or similar
-  // For common functions, we can use pre-computed selectors
-  const selectors: Record<string, string> = {
-    'transfer(address,uint256)': '0xa9059cbb',
-    'balanceOf(address)': '0x70a08231',
-    'totalSupply()': '0x18160ddd',
-    'name()': '0x06fdde03',
-    'symbol()': '0x95d89b41',
-    'decimals()': '0x313ce567',
-    'approve(address,uint256)': '0x095ea7b3',
-    'allowance(address,address)': '0xdd62ed3e',
-    'transferFrom(address,address,uint256)': '0x23b872dd',
-    'ownerOf(uint256)': '0x6352211e',
-    'tokenURI(uint256)': '0xc87b56dd',
-    'safeTransferFrom(address,address,uint256)': '0x42842e0e',
-  };
+  const trimmed = signature.trim();
+
+  if (/^0x[a-fA-F0-9]{8}$/.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
 
-  return selectors[signature] || '0x00000000';
+  if (!trimmed.includes('(')) {
+    const known = FUNCTION_SELECTORS[trimmed];
+    if (known) return known;
+    throw new Error(
+      `Cannot derive a selector from "${signature}" - use the full signature, e.g. ${trimmed}(address)`,
+    );
+  }
+
+  return computeSelector(trimmed);
 }
 
 /**
@@ -212,19 +210,16 @@ export function encodeUint256(value: string | number | bigint): string {
 /**
  * Build contract call data
  */
-export function buildCallData(functionSignature: string, params: Array<{ type: string; value: string }>): string {
+export function buildCallData(
+  functionSignature: string,
+  params: Array<{ type: string; value: unknown }>,
+): string {
   const selector = getFunctionSelector(functionSignature);
-  let data = selector;
-
-  for (const param of params) {
-    if (param.type === 'address') {
-      data += strip0x(encodeAddress(param.value));
-    } else if (param.type === 'uint256') {
-      data += strip0x(encodeUint256(param.value));
-    }
-  }
-
-  return data;
+  const encoded = encodeParameters(
+    params.map((param) => param.type),
+    params.map((param) => param.value),
+  );
+  return selector + strip0x(encoded);
 }
 
 /**
@@ -242,6 +237,18 @@ export function hexToString(hex: string): string {
   return result.trim();
 }
 
+/**
+ * Decode a string returned by eth_call
+ * Falls back to raw bytes32 decoding for legacy tokens that return bytes32 names
+ */
+export function decodeStringResult(hex: string): string {
+  try {
+    return decodeParameters(['string'], hex)[0] as string;
+  } catch {
+    return hexToString(hex);
+  }
+}
+
 /**
  * Format timestamp to ISO string
  */
@@ -297,6 +304,10 @@ export const FUNCTION_SELECTORS: Record<string, string> = {
   'tokenURI(uint256)': '0xc87b56dd',
   'safeTransferFrom(address,address,uint256)': '0x42842e0e',
   'getApproved(uint256)': '0x081812fc',
+  'isApprovedForAll(address,address)': '0xe985e9c5',
+  // ERC-1155
+  'balanceOf(address,uint256)': '0x00fdd58e',
+  'safeTransferFrom(address,address,uint256,uint256,bytes)': '0xf242432a',
   // Shorthand keys
   name: '0x06fdde03',
   symbol: '0x95d89b41',
@@ -311,6 +322,7 @@ export const FUNCTION_SELECTORS: Record<string, string> = {
   tokenURI: '0xc87b56dd',
   safeTransferFrom: '0x42842e0e',
   getApproved: '0x081812fc',
+  isApprovedForAll: '0xe985e9c5',
 };
 
 /**
@@ -0,0 +1,165 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions, ILoadOptionsFunctions, IPollFunctions } from 'n8n-workflow';
+import { FAN_TOKENS, FAN_TOKEN_ADDRESSES } from '../constants/constants';
+import { isValidAddress, normalizeAddress } from './helpers';
+import type { IChilizCredentials, IRegistryToken, NetworkType } from './types';
+
+/**
+ * Fan Tokens for one network, keyed by upper-case symbol
+ */
+export type TokenRegistry = Record<string, IRegistryToken>;
+
+type TokenListEntry = Omit<IRegistryToken, 'network'> & { network?: NetworkType };
+
+const NETWORK_NAMES: NetworkType[] = ['mainnet', 'spicy', 'custom'];
+
+/**
+ * Validate and normalize a token list given as JSON: either an array of
+ * { symbol, address, name?, club?, decimals?, network? } or a { SYMBOL: address } map
+ */
+export function parseTokenList(list: unknown, source: string): TokenListEntry[] {
+  let parsed = list;
+  if (typeof list === 'string') {
+    if (list.trim() === '') return [];
+    try {
+      parsed = JSON.parse(list);
+    } catch (error) {
+      throw new Error(`Invalid token list in ${source}: ${(error as Error).message}`);
+    }
+  }
+
+  if (!parsed) return [];
+
+  const entries: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object'
+      ? Object.entries(parsed as Record<string, unknown>).map(([symbol, address]) => ({
+          symbol,
+          address,
+        }))
+      : [parsed];
+
+  return entries.map((entry, i) => {
+    const token = (entry || {}) as Record<string, unknown>;
+    const symbol = typeof token.symbol === 'string' ? token.symbol.trim().toUpperCase() : '';
+
+    if (!symbol) {
+      throw new Error(`Token list entry ${i} in ${source} has no symbol`);
+    }
+    if (typeof token.address !== 'string' || !isValidAddress(token.address)) {
+      throw new Error(`Invalid address "${String(token.address)}" for ${symbol} in ${source}`);
+    }
+    if (token.network !== undefined && !NETWORK_NAMES.includes(token.network as NetworkType)) {
+      throw new Error(`Unknown network "${String(token.network)}" for ${symbol} in ${source}`);
+    }
+
+    return {
+      symbol,
+      name: typeof token.name === 'string' ? token.name : FAN_TOKENS[symbol]?.name || symbol,
+      club: typeof token.club === 'string' ? token.club : FAN_TOKENS[symbol]?.club,
+      address: normalizeAddress(token.address),
+      decimals: token.decimals === undefined ? undefined : Number(token.decimals),
+      network: token.network as NetworkType | undefined,
+    };
+  });
+}
+
+// Built-in addresses are validated once, when the module loads
+const BUILT_IN_ADDRESSES: Record<string, TokenListEntry[]> = Object.fromEntries(
+  Object.entries(FAN_TOKEN_ADDRESSES).map(([network, addresses]) => [
+    network,
+    parseTokenList(addresses, `built-in ${network} addresses`),
+  ]),
+);
+
+/**
+ * Build the registry for a network: built-in tokens, then each token list in order (later lists win)
+ */
+export function createTokenRegistry(
+  network: NetworkType,
+  ...lists: Array<{ list: unknown; source: string }>
+): TokenRegistry {
+  const registry: TokenRegistry = {};
+
+  for (const [symbol, info] of Object.entries(FAN_TOKENS)) {
+    registry[symbol] = { symbol, name: info.name, club: info.club, network };
+  }
+
+  const entries = [
+    ...(BUILT_IN_ADDRESSES[network] || []),
+    ...lists.flatMap(({ list, source }) => parseTokenList(list, source)),
+  ];
+
+  for (const entry of entries) {
+    if (entry.network && entry.network !== network) continue;
+    registry[entry.symbol] = {
+      ...registry[entry.symbol],
+      ...Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)),
+      network,
+    } as IRegistryToken;
+  }
+
+  return registry;
+}
+
+/**
+ * Load the registry for the credential network, including the credential and node token lists
+ */
+export async function loadTokenRegistry(
+  this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  nodeTokenList?: unknown,
+): Promise<TokenRegistry> {
+  const credentials = (await this.getCredentials('chilizApi')) as IChilizCredentials;
+  return createTokenRegistry(
+    credentials.network,
+    { list: credentials.tokenList, source: 'the credential token list' },
+    { list: nodeTokenList, source: 'the node token list' },
+  );
+}
+
+/**
+ * Find a registry token by contract address
+ */
+export function findTokenByAddress(
+  registry: TokenRegistry,
+  address: string,
+): IRegistryToken | undefined {
+  const normalized = normalizeAddress(address);
+  return Object.values(registry).find((token) => token.address === normalized);
+}
+
+/**
+ * Resolve a symbol to a registry token that has a contract address on the current network
+ */
+export function resolveToken(registry: TokenRegistry, symbol: string): IRegistryToken {
+  const key = symbol.trim();
+  const token = registry[key.toUpperCase()];
+  if (!token) {
+    throw new Error(
+      `Unknown fan token "${key}". Known tokens: ${Object.keys(registry).join(', ')}. ` +
+        'Add it to the token list on the credential or node.',
+    );
+  }
+  if (!token.address) {
+    throw new Error(
+      `No ${token.network} contract address is configured for ${token.symbol}. ` +
+        `Add it to the token list on the credential or node, e.g. [{"symbol":"${token.symbol}","address":"0x..."}]`,
+    );
+  }
+  return token;
+}
+
+/**
+ * Canonical symbol for API filters (unknown symbols are passed through upper-cased)
+ */
+export function canonicalSymbol(registry: TokenRegistry, symbol: string): string {
+  const trimmed = symbol.trim();
+  if (!trimmed) return '';
+  return registry[trimmed.toUpperCase()]?.symbol || trimmed.toUpperCase();
+}
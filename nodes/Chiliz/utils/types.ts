@@ -5,7 +5,7 @@
  * See LICENSE file for details.
  */
 
-import type { IDataObject } from 'n8n-workflow';
+import type { IDataObject, IExecuteFunctions, IPollFunctions } from 'n8n-workflow';
 
 /**
  * Network type
@@ -18,9 +18,37 @@ export type NetworkType = 'mainnet' | 'spicy' | 'custom';
 export interface IChilizCredentials {
   network: NetworkType;
   rpcEndpoint?: string;
+  fallbackRpcUrls?: string;
+  maxRetries?: number;
   privateKey?: string;
   chilizScanApiKey?: string;
   sociosApiKey?: string;
+  priceApiUrl?: string;
+  tokenList?: string;
+  multicallAddress?: string;
+  feeStrategy?: FeeStrategy;
+  gasLimitMultiplier?: number;
+  sandbox?: boolean;
+}
+
+/**
+ * Fee oracle speed, from cheapest to fastest inclusion
+ */
+export type FeeStrategy = 'slow' | 'standard' | 'fast';
+
+/**
+ * EIP-1559 fee caps for one strategy
+ */
+export interface IFeeSuggestion {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Fee oracle output: the next block's base fee and a suggestion per strategy
+ */
+export interface IFeeEstimate extends Record<FeeStrategy, IFeeSuggestion> {
+  baseFeePerGas: bigint;
 }
 
 /**
@@ -47,6 +75,43 @@ export interface IJsonRpcResponse<T = unknown> {
   };
 }
 
+/**
+ * Contract read in a batch
+ */
+export interface IBatchCall {
+  to: string;
+  data: string;
+}
+
+/**
+ * Outcome of one contract read in a batch
+ */
+export interface IBatchCallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Decoded revert reason of a failed contract call
+ */
+export interface IRevertReason {
+  type: 'Error' | 'Panic' | 'CustomError' | 'empty';
+  reason: string;
+  selector?: string;
+  data?: string;
+  args?: IDataObject;
+}
+
+/**
+ * Event log decoded against an ABI event
+ */
+export interface IDecodedEvent {
+  eventName: string;
+  signature: string;
+  topic: string;
+  args: IDataObject;
+}
+
 /**
  * Fan Token information
  */
@@ -115,6 +180,60 @@ export interface ITransactionReceipt {
   logs: IEventLog[];
 }
 
+/**
+ * Unsigned transaction request built by an operation
+ */
+export interface ITransactionRequest {
+  to: string;
+  data?: string;
+  value?: bigint;
+  gasLimit?: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  nonce?: number;
+}
+
+/**
+ * Locally signed transaction that has been broadcast
+ */
+export interface ISentTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  nonce: number;
+  chainId: number;
+  value: string;
+  gasLimit: string;
+  type: number;
+  gasPrice: string | null;
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  data: string;
+}
+
+/**
+ * Outcome of waiting for a transaction to be confirmed
+ */
+export interface ITransactionWaitResult {
+  status: 'success' | 'failed' | 'pending' | 'dropped' | 'replaced' | 'notFound';
+  receipt: IDataObject | null;
+  transaction: IDataObject | null;
+  confirmations: number;
+  timedOut: boolean;
+}
+
+/**
+ * A sender's nonces as seen by the node and the nonce manager
+ */
+export interface INonceStatus {
+  latest: number;
+  pending: number;
+  next: number;
+  queued: number[] | null;
+  gaps: number[];
+}
+
 /**
  * Block data
  */
@@ -179,6 +298,56 @@ export interface IPollOption {
   text: string;
   votes: number;
   percentage: number;
+  /** Voters behind a token-weighted tally */
+  voters?: number;
+}
+
+/**
+ * Vote fields covered by a vote signature (expiry in Unix seconds)
+ */
+export interface IVotePayload {
+  pollId: string;
+  optionId: string;
+  voter: string;
+  tokenCount: number;
+  nonce: string;
+  expiry: number;
+}
+
+/**
+ * Signed vote: EIP-712 typed data, or an EIP-191 personal message
+ */
+export interface ISignedVote {
+  scheme: 'eip712' | 'eip191';
+  payload: IVotePayload;
+  chainId: number;
+  signedData: IDataObject | string;
+  signature: string;
+}
+
+/**
+ * Poll as stored by an on-chain voting contract (times in Unix seconds)
+ */
+export interface IOnChainPoll {
+  id: string;
+  title: string;
+  description: string;
+  token: string;
+  startTime: number;
+  endTime: number;
+  snapshotBlock: number;
+  options: string[];
+}
+
+/**
+ * Token-weighted tally of an on-chain poll: `votes` are token amounts at the snapshot block
+ */
+export interface IPollTally {
+  options: IPollOption[];
+  totalVotes: number;
+  totalVoters: number;
+  /** Each voter's counted vote and weight */
+  votes: Array<{ voter: string; optionId: string; weight: number; transactionHash: string }>;
 }
 
 /**
@@ -303,6 +472,15 @@ export interface IEventFilterParams {
   toBlock?: number | 'latest' | 'earliest' | 'pending';
 }
 
+/**
+ * Logs fetched for one block range of a split eth_getLogs query
+ */
+export interface ILogChunk {
+  fromBlock: number;
+  toBlock: number;
+  logs: IDataObject[];
+}
+
 /**
  * Unit conversion result
  */
@@ -323,17 +501,94 @@ export interface IApiHealth {
   network: string;
 }
 
+/**
+ * A block a trigger has processed: its hash, and the ids of the events emitted from it
+ */
+export interface IProcessedBlock extends IDataObject {
+  number: number;
+  hash: string;
+  events: string[];
+}
+
+/**
+ * Persisted block cursor of a block-based trigger. `scope` identifies what is being watched
+ * (event and filters); `blocks` are recent processed blocks in ascending order, the last
+ * one being the block the cursor stands on.
+ */
+export interface IBlockCursor extends IDataObject {
+  scope: string;
+  blocks: IProcessedBlock[];
+}
+
+/**
+ * Blocks a trigger poll should process, and the processed blocks lost to a reorg
+ */
+export interface ICursorRange {
+  head: number;
+  fromBlock: number;
+  toBlock: number;
+  tip: IProcessedBlock;
+  kept: IProcessedBlock[];
+  retracted: IProcessedBlock[];
+}
+
+/**
+ * Native CHZ movement seen by the CHZ Transfer trigger. `id` is the transaction hash, with
+ * the trace id appended for internal transactions.
+ */
+export interface IChzMovement {
+  id: string;
+  from: string;
+  to: string;
+  value: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  internal: boolean;
+}
+
 /**
  * Trigger state for polling
  */
 export interface ITriggerState extends IDataObject {
+  cursor?: IBlockCursor;
+  /** Cursor of earlier versions, migrated on the next poll */
   lastBlockNumber?: number;
+  /** IDs of the polls in the last active (or ended) list, for the poll events */
+  seenPollIds?: string[];
+  seenEndedPollIds?: string[];
+  /** Legacy cursors of the poll events, migrated on the next poll */
   lastPollId?: string;
+  lastEndedPollId?: string;
+  pollStates?: Record<string, IPollLifecycleState>;
+  endedPollIds?: string[];
+  priceHistory?: IPriceHistory;
   lastRewardId?: string;
   lastTokenAddress?: string;
   lastTimestamp?: number;
 }
 
+/**
+ * What the poll lifecycle trigger remembers about an active poll
+ */
+export interface IPollLifecycleState {
+  endDate: string;
+  /** Last option to lead outright (a tie keeps the previous leader) */
+  leader: string | null;
+  closingSoonSent: boolean;
+}
+
+/**
+ * Fan Token entry in the token registry
+ */
+export interface IRegistryToken {
+  symbol: string;
+  name: string;
+  club?: string;
+  address?: string;
+  decimals?: number;
+  network: NetworkType;
+}
+
 /**
  * Token holder
  */
@@ -353,16 +608,65 @@ export interface ITokenVolume {
   volume24h: string;
   volumeChange: number;
   trades24h: number;
+  source?: string;
 }
 
 /**
- * Token price
+ * Token price. Only the USD price is guaranteed; the other figures are null when the source
+ * cannot compute them, with the reason in warnings.
  */
 export interface ITokenPrice {
   symbol: string;
   priceUsd: string;
-  priceBtc: string;
-  priceEth: string;
-  change24h: number;
-  marketCap: string;
+  priceBtc: string | null;
+  priceEth: string | null;
+  change24h: number | null;
+  marketCap: string | null;
+  source?: string;
+  quoteSymbol?: string;
+  priceQuote?: string;
+  warnings?: string[];
+}
+
+/**
+ * Price observation kept by the Price Change Alert trigger
+ */
+export interface IPricePoint {
+  timestamp: number;
+  price: number;
+}
+
+/**
+ * Price history of the Price Change Alert trigger. The scope names the token, price source
+ * and window the points were observed for; a history of another scope is started over.
+ */
+export interface IPriceHistory extends IDataObject {
+  scope: string;
+  points: IPricePoint[];
+}
+
+/**
+ * Price lookup for a price provider
+ */
+export interface IPriceQuery {
+  symbol: string;
+  tokenAddress?: string;
+  pairAddress?: string;
+  usdPairAddress?: string;
+  btcPairAddress?: string;
+  ethPairAddress?: string;
+  quoteSymbol?: string;
+}
+
+/**
+ * Node contexts a price provider can run in (actions and triggers)
+ */
+export type PriceProviderContext = IExecuteFunctions | IPollFunctions;
+
+/**
+ * Source of token prices and volumes
+ */
+export interface IPriceProvider {
+  getPrice(this: PriceProviderContext, query: IPriceQuery): Promise<ITokenPrice>;
+  getVolume(this: PriceProviderContext, query: IPriceQuery): Promise<ITokenVolume>;
 }
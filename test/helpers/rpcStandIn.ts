@@ -0,0 +1,90 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+/**
+ * Local JSON-RPC stand-in for exercising actions without network access.
+ *
+ * Builds a minimal IExecuteFunctions whose httpRequest helper dispatches
+ * JSON-RPC calls to in-memory handlers.
+ */
+
+import type { IDataObject, IExecuteFunctions, IHttpRequestOptions } from 'n8n-workflow';
+import { isResourceLocatorValue } from 'n8n-workflow';
+
+export type RpcHandler = (params: unknown[]) => unknown;
+
+export interface IRpcCall {
+	method: string;
+	params: unknown[];
+}
+
+export interface IStandInOptions {
+	handlers: Record<string, RpcHandler>;
+	parameters?: IDataObject;
+	credentials?: IDataObject;
+	http?: (options: IHttpRequestOptions) => unknown;
+}
+
+export function createRpcStandIn(options: IStandInOptions) {
+	const calls: IRpcCall[] = [];
+	const credentials = { network: 'mainnet', ...options.credentials };
+	const parameters = options.parameters || {};
+
+	const dispatch = (body: IDataObject) => {
+		const method = body.method as string;
+		const params = (body.params as unknown[]) || [];
+		calls.push({ method, params });
+
+		const handler = options.handlers[method];
+		if (!handler) {
+			return { jsonrpc: '2.0', id: body.id, error: { code: -32601, message: `Method ${method} not found` } };
+		}
+		try {
+			return { jsonrpc: '2.0', id: body.id, result: handler(params) };
+		} catch (error) {
+			// Errors may carry revert data, as execution-reverted responses do
+			const { message, data } = error as Error & { data?: string };
+			return { jsonrpc: '2.0', id: body.id, error: { code: 3, message, data } };
+		}
+	};
+
+	const context = {
+		getCredentials: async () => credentials,
+		getNodeParameter: (
+			name: string,
+			_index: number,
+			fallback?: unknown,
+			options?: { extractValue?: boolean },
+		) => {
+			const value = name in parameters ? parameters[name] : fallback;
+			// Resource locator values unwrap the way n8n does when asked to extract them
+			return options?.extractValue && isResourceLocatorValue(value) ? value.value : value;
+		},
+		getNode: () => ({ name: 'Chiliz', type: 'n8n-nodes-chiliz.chiliz', typeVersion: 1, parameters: {} }),
+		continueOnFail: () => false,
+		helpers: {
+			httpRequest: async (request: IHttpRequestOptions) => {
+				// Only JSON-RPC bodies go to the handlers; other POSTs (Socios API) go to `http`
+				const body = request.body as IDataObject | IDataObject[] | undefined;
+				if (request.method === 'POST' && body && (Array.isArray(body) || body.jsonrpc)) {
+					return Array.isArray(body) ? body.map(dispatch) : dispatch(body);
+				}
+				if (options.http) {
+					return options.http(request);
+				}
+				throw new Error(`Unexpected request to ${request.url}`);
+			},
+		},
+	} as unknown as IExecuteFunctions;
+
+	return { context, calls };
+}
@@ -0,0 +1,216 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { id } from 'ethers';
+import { ERC20_ABI, ERC721_ABI } from '../../nodes/Chiliz/constants/constants';
+import {
+	computeSelector,
+	decodeEventLog,
+	decodeFunctionResult,
+	decodeParameters,
+	decodeRevertData,
+	encodeFunctionData,
+	encodeParameters,
+	parseAbi,
+	parseEventFragments,
+} from '../../nodes/Chiliz/utils/abi';
+import { buildCallData, decodeStringResult, getFunctionSelector } from '../../nodes/Chiliz/utils/helpers';
+
+describe('ABI codec', () => {
+	describe('selectors', () => {
+		it('should compute keccak-256 selectors for any signature', () => {
+			expect(computeSelector('transfer(address,uint256)')).toBe('0xa9059cbb');
+			expect(computeSelector('setApprovalForAll(address,bool)')).toBe('0xa22cb465');
+			expect(computeSelector('function balanceOf(address owner) view returns (uint256)')).toBe(
+				'0x70a08231',
+			);
+		});
+
+		it('should resolve shorthand names and raw selectors', () => {
+			expect(getFunctionSelector('balanceOf')).toBe('0x70a08231');
+			expect(getFunctionSelector('0xA9059CBB')).toBe('0xa9059cbb');
+			expect(getFunctionSelector('multicall(bytes[])')).toBe('0xac9650d8');
+			expect(() => getFunctionSelector('unknownFunction')).toThrow('full signature');
+		});
+	});
+
+	describe('encoding', () => {
+		it('should encode static types', () => {
+			const encoded = encodeParameters(['bool', 'int8', 'bytes4'], ['true', '-1', '0xdeadbeef']);
+			expect(encoded).toBe(
+				'0x' +
+					'1'.padStart(64, '0') +
+					'f'.repeat(64) +
+					'deadbeef'.padEnd(64, '0'),
+			);
+		});
+
+		it('should encode dynamic bytes, strings, arrays and tuples', () => {
+			const types = ['string', 'bytes', 'uint256[]', 'tuple(address owner, uint96 amount)'];
+			const values = [
+				'Forza',
+				'0x0102',
+				'["1","2","3"]',
+				{ owner: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', amount: '500' },
+			];
+
+			const decoded = decodeParameters(types, encodeParameters(types, values));
+
+			expect(decoded).toEqual([
+				'Forza',
+				'0x0102',
+				['1', '2', '3'],
+				{ owner: '0x742d35cc6634c0532925a3b844bc454e4438f44e', amount: '500' },
+			]);
+		});
+
+		it('should build call data for arbitrary functions', () => {
+			expect(
+				buildCallData('transfer(address,uint256)', [
+					{ type: 'address', value: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e' },
+					{ type: 'uint256', value: '1000' },
+				]),
+			).toBe(
+				'0xa9059cbb' +
+					'742d35cc6634c0532925a3b844bc454e4438f44e'.padStart(64, '0') +
+					(1000).toString(16).padStart(64, '0'),
+			);
+
+			expect(encodeFunctionData('vote(uint256,bool)', ['7', false]).slice(0, 10)).toBe(
+				computeSelector('vote(uint256,bool)'),
+			);
+		});
+
+		it('should only accept explicit bool values', () => {
+			expect(encodeParameters(['bool', 'bool'], [' TRUE ', '0'])).toBe(
+				encodeParameters(['bool', 'bool'], [true, false]),
+			);
+			expect(() => encodeParameters(['bool'], ['yes'])).toThrow('Invalid bool value "yes"');
+			expect(() => encodeFunctionData('vote(uint256,bool)', ['7', 'ture'])).toThrow(
+				'Invalid bool value "ture"',
+			);
+		});
+
+		it('should reject a parameter count mismatch', () => {
+			expect(() => encodeFunctionData('transfer(address,uint256)', ['0x00'])).toThrow(
+				'Expected 2 parameters',
+			);
+		});
+	});
+
+	describe('decoding', () => {
+		it('should decode function results from declared outputs', () => {
+			const data = encodeParameters(['uint256', 'bool'], ['42', true]);
+			expect(decodeFunctionResult('function info() view returns (uint256, bool)', data)).toEqual([
+				'42',
+				true,
+			]);
+		});
+
+		it('should decode ABI strings and legacy bytes32 strings', () => {
+			expect(decodeStringResult(encodeParameters(['string'], ['FC Barcelona Fan Token']))).toBe(
+				'FC Barcelona Fan Token',
+			);
+			expect(decodeStringResult('0x' + Buffer.from('BAR').toString('hex').padEnd(64, '0'))).toBe(
+				'BAR',
+			);
+		});
+
+		it('should decode Error(string) and Panic(uint256) revert data', () => {
+			expect(decodeRevertData(encodeFunctionData('Error(string)', ['Not enough CHZ'])).reason).toBe(
+				'Not enough CHZ',
+			);
+			expect(decodeRevertData(encodeFunctionData('Panic(uint256)', ['17'])).reason).toBe(
+				'Panic(0x11): arithmetic overflow or underflow',
+			);
+			expect(decodeRevertData('0xdeadbeef').reason).toBe('unknown custom error 0xdeadbeef');
+		});
+
+		it('should keep the raw data of a custom error its ABI cannot decode', () => {
+			const iface = parseAbi(['error TooLate(uint256 pollId, string reason)']);
+			const selector = computeSelector('TooLate(uint256,string)');
+			const decoded = decodeRevertData(
+				encodeFunctionData('TooLate(uint256,string)', ['3', 'ended']),
+				iface,
+			);
+			expect(decoded.reason).toBe('TooLate("3", "ended")');
+
+			const truncated = selector + '00'.repeat(40);
+			expect(decodeRevertData(truncated, iface)).toEqual({
+				type: 'CustomError',
+				reason: `TooLate with undecodable data ${truncated}`,
+				selector,
+				data: truncated,
+			});
+		});
+	});
+
+	describe('events', () => {
+		const TRANSFER = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+		const FROM = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+		const TO = '0x3333333333333333333333333333333333333333';
+		const addressTopic = (address: string) => encodeParameters(['address'], [address]);
+		const standardEvents = parseEventFragments([...ERC20_ABI, ...ERC721_ABI]);
+
+		it('should tell ERC-20 and ERC-721 Transfer apart by their indexed parameters', () => {
+			const erc20 = decodeEventLog(standardEvents, {
+				topics: [TRANSFER, addressTopic(FROM), addressTopic(TO)],
+				data: encodeParameters(['uint256'], ['1000']),
+			});
+			const erc721 = decodeEventLog(standardEvents, {
+				topics: [
+					TRANSFER,
+					addressTopic(FROM),
+					addressTopic(TO),
+					encodeParameters(['uint256'], ['7']),
+				],
+				data: '0x',
+			});
+
+			expect(erc20).toEqual({
+				eventName: 'Transfer',
+				signature: 'Transfer(address,address,uint256)',
+				topic: TRANSFER,
+				args: { from: FROM, to: TO, value: '1000' },
+			});
+			expect(erc721?.args).toEqual({ from: FROM, to: TO, tokenId: '7' });
+		});
+
+		it('should decode bare event signatures with mixed parameter types', () => {
+			const events = parseEventFragments(
+				'VoteCast(uint256 indexed pollId, string indexed club, address voter, bool, string choice)',
+			);
+			const log = {
+				topics: [
+					id('VoteCast(uint256,string,address,bool,string)'),
+					encodeParameters(['uint256'], ['12']),
+					id('BAR'),
+				],
+				data: encodeParameters(['address', 'bool', 'string'], [FROM, true, 'Home kit']),
+			};
+
+			expect(decodeEventLog(events, log)?.args).toEqual({
+				pollId: '12',
+				club: id('BAR'),
+				voter: FROM,
+				arg3: true,
+				choice: 'Home kit',
+			});
+		});
+
+		it('should return null for logs no event matches', () => {
+			expect(decodeEventLog(standardEvents, { topics: [id('Unknown()')], data: '0x' })).toBeNull();
+			expect(decodeEventLog(standardEvents, { topics: [], data: '0x' })).toBeNull();
+			expect(() => parseEventFragments('Transfer(address indexed')).toThrow('Invalid event');
+		});
+	});
+});
@@ -0,0 +1,156 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import type { IExecuteFunctions, IHttpRequestOptions } from 'n8n-workflow';
+import { getTokenBalances } from '../../nodes/Chiliz/actions/accounts/accounts';
+import { getFanTokenInfo, getUserTokens } from '../../nodes/Chiliz/actions/fanTokens/fanTokens';
+import { batchEthCall } from '../../nodes/Chiliz/transport/client';
+import { computeSelector, decodeParameters, encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+import type { RpcHandler } from '../helpers/rpcStandIn';
+
+const MULTICALL = '0xca11bde05977b3631167028862be2a173976ca11';
+const HOLDER = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+const BAR = '0x1000000000000000000000000000000000000001';
+const PSG = '0x1000000000000000000000000000000000000002';
+const JUV = '0x1000000000000000000000000000000000000003';
+const TOKEN_LIST = { BAR, PSG, JUV };
+
+const word = (value: string) => encodeParameters(['uint256'], [value]);
+
+// BAR: 5 held, PSG: nothing held, JUV: reverts
+const tokenCall = (to: string, data: string): string => {
+	if (to === JUV) throw new Error('execution reverted');
+	const selector = data.slice(0, 10);
+	if (selector === computeSelector('decimals()')) return word('0');
+	if (selector === computeSelector('name()')) return encodeParameters(['string'], ['FC Barcelona']);
+	if (selector === computeSelector('symbol()')) return encodeParameters(['string'], ['BAR']);
+	if (selector === computeSelector('totalSupply()')) return word('40000000');
+	return word(to === BAR ? '5' : '0');
+};
+
+const AGGREGATE3 = computeSelector('aggregate3((address,bool,bytes)[])');
+
+/**
+ * eth_call stand-in that also answers Multicall3 aggregate3
+ */
+const ethCall: RpcHandler = ([call]) => {
+	const { to, data } = call as { to: string; data: string };
+	if (to !== MULTICALL) return tokenCall(to, data);
+
+	expect(data.slice(0, 10)).toBe(AGGREGATE3);
+	const [calls] = decodeParameters(
+		['tuple(address target, bool allowFailure, bytes callData)[]'],
+		'0x' + data.slice(10),
+	) as [Array<{ target: string; callData: string }>];
+	const results = calls.map(({ target, callData }) => {
+		try {
+			return { success: true, returnData: tokenCall(target.toLowerCase(), callData) };
+		} catch {
+			return { success: false, returnData: '0x' };
+		}
+	});
+	return encodeParameters(['tuple(bool success, bytes returnData)[]'], [results]);
+};
+
+/**
+ * Count HTTP round-trips made through the stand-in
+ */
+const countRequests = (context: IExecuteFunctions) => {
+	const requests: IHttpRequestOptions[] = [];
+	const send = context.helpers.httpRequest;
+	context.helpers.httpRequest = (async (options: IHttpRequestOptions) => {
+		requests.push(options);
+		return send(options);
+	}) as typeof send;
+	return requests;
+};
+
+describe('Batched contract reads', () => {
+	it('should aggregate token reads into one Multicall3 call', async () => {
+		const { context, calls } = createRpcStandIn({
+			credentials: { multicallAddress: MULTICALL },
+			parameters: { userAddress: HOLDER, tokenList: TOKEN_LIST },
+			handlers: { eth_call: ethCall },
+		});
+		const requests = countRequests(context);
+
+		const holdings = await getUserTokens.call(context, 0);
+
+		expect(requests).toHaveLength(1);
+		expect(calls).toHaveLength(1);
+		expect(holdings.map((h) => h.json)).toEqual([
+			expect.objectContaining({ symbol: 'BAR', contractAddress: BAR, balanceFormatted: '5' }),
+		]);
+	});
+
+	it('should fall back to one JSON-RPC batch without a multicall address', async () => {
+		const { context, calls } = createRpcStandIn({
+			parameters: { address: HOLDER, tokenList: TOKEN_LIST },
+			handlers: { eth_call: ethCall, eth_getBalance: () => '0xde0b6b3a7640000' },
+		});
+		const requests = countRequests(context);
+
+		const [result] = await getTokenBalances.call(context, 0);
+		const balances = result.json.balances as Array<Record<string, unknown>>;
+
+		// One request for the CHZ balance, one batch of six eth_calls for the three tokens
+		expect(requests).toHaveLength(2);
+		expect(Array.isArray(requests[1].body)).toBe(true);
+		expect(calls.filter((c) => c.method === 'eth_call')).toHaveLength(6);
+		expect(balances.map((b) => b.token)).toEqual(['CHZ', 'BAR']);
+		expect(balances[1]).toMatchObject({ balanceFormatted: '5', decimals: 0 });
+	});
+
+	it('should read Fan Token info in a single round-trip', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { tokenAddress: BAR },
+			handlers: { eth_call: ethCall },
+		});
+		const requests = countRequests(context);
+
+		const [result] = await getFanTokenInfo.call(context, 0);
+
+		expect(requests).toHaveLength(1);
+		expect(result.json).toMatchObject({
+			name: 'FC Barcelona',
+			symbol: 'BAR',
+			decimals: 0,
+			totalSupply: '40000000',
+		});
+	});
+
+	it('should resolve a symbol through the token registry', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { tokenAddress: 'bar', tokenList: TOKEN_LIST },
+			handlers: { eth_call: ethCall },
+		});
+
+		const [result] = await getFanTokenInfo.call(context, 0);
+
+		expect(result.json).toMatchObject({ address: BAR, symbol: 'BAR', club: 'FC Barcelona' });
+	});
+
+	it('should keep revert data for failed calls in a JSON-RPC batch', async () => {
+		const { context } = createRpcStandIn({
+			handlers: {
+				eth_call: () => {
+					throw Object.assign(new Error('execution reverted'), { data: '0x08c379a0' });
+				},
+			},
+		});
+
+		const results = await batchEthCall.call(context, [{ to: BAR, data: '0x18160ddd' }]);
+
+		expect(results).toEqual([{ success: false, returnData: '0x08c379a0' }]);
+	});
+});
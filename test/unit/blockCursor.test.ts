@@ -0,0 +1,206 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+import { ChilizTrigger } from '../../nodes/Chiliz/ChilizTrigger.node';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const CONTRACT = '0x3333333333333333333333333333333333333333';
+const TOPIC = '0x' + 'ab'.repeat(32);
+const hex = (value: number) => '0x' + value.toString(16);
+
+/**
+ * In-memory chain whose blocks can be reorged from a given height
+ */
+function createChain(head: number) {
+	const chain = { head, fork: '', forkHeight: 0, logs: [] as IDataObject[] };
+	const hashOf = (n: number, fork = chain.fork) =>
+		'0x' + ((n >= chain.forkHeight ? fork : '') + n.toString(16)).padStart(64, '0');
+
+	const handlers = {
+		eth_blockNumber: () => hex(chain.head),
+		eth_getBlockByNumber: ([block]: unknown[]) => {
+			const n = parseInt(block as string, 16);
+			if (n > chain.head) return null;
+			return {
+				number: hex(n),
+				hash: hashOf(n),
+				parentHash: hashOf(n - 1),
+				timestamp: hex(1_700_000_000 + n * 3),
+				gasUsed: '0x0',
+				gasLimit: '0x1c9c380',
+				transactions: [],
+			};
+		},
+		eth_getLogs: ([filter]: unknown[]) => {
+			const { fromBlock, toBlock } = filter as { fromBlock: string; toBlock: string };
+			return chain.logs.filter((log) => {
+				const n = parseInt(log.blockNumber as string, 16);
+				return n >= parseInt(fromBlock, 16) && n <= parseInt(toBlock, 16);
+			});
+		},
+	};
+
+	// Replace every block from `height` with a block of another fork
+	const reorg = (height: number, fork: string) => {
+		chain.fork = fork;
+		chain.forkHeight = height;
+		return { stale: (n: number) => hashOf(n, '') };
+	};
+
+	const log = (n: number, transactionHash: string): IDataObject => ({
+		address: CONTRACT,
+		topics: [TOPIC],
+		data: '0x',
+		blockNumber: hex(n),
+		blockHash: hashOf(n),
+		transactionHash,
+		logIndex: '0x0',
+	});
+
+	return { chain, handlers, reorg, log, hashOf };
+}
+
+function createPollContext(
+	handlers: Record<string, (params: unknown[]) => unknown>,
+	parameters: IDataObject,
+	staticData: IDataObject,
+) {
+	const { context, calls } = createRpcStandIn({ handlers });
+	const values: IDataObject = {
+		event: 'contractEvent',
+		contractAddress: CONTRACT,
+		eventSignature: TOPIC,
+		...parameters,
+	};
+	Object.assign(context, {
+		getNodeParameter: (name: string, fallback?: unknown) =>
+			name in values ? values[name] : fallback,
+		getWorkflowStaticData: () => staticData,
+		logger: { warn: () => undefined, error: jest.fn() },
+	});
+	return { context: context as unknown as IPollFunctions, calls };
+}
+
+describe('Block cursor', () => {
+	const trigger = new ChilizTrigger();
+
+	it('should start at the confirmed head and only scan confirmed blocks', async () => {
+		const { chain, handlers, log } = createChain(100);
+		const staticData: IDataObject = {};
+		const { context, calls } = createPollContext(handlers, { confirmations: 3 }, staticData);
+
+		chain.logs.push(log(97, '0x01'), log(99, '0x02'));
+		const first = await trigger.poll.call(context);
+		chain.head = 103;
+		const second = await trigger.poll.call(context);
+
+		expect(first![0].map((item) => item.json.transactionHash)).toEqual(['0x01']);
+		expect(second![0].map((item) => item.json)).toEqual([
+			expect.objectContaining({ transactionHash: '0x02', blockNumber: 99, removed: false }),
+		]);
+		const ranges = calls
+			.filter((call) => call.method === 'eth_getLogs')
+			.map((call) => call.params[0] as IDataObject);
+		expect(ranges.map((range) => [range.fromBlock, range.toBlock])).toEqual([
+			['0x61', '0x61'],
+			['0x62', '0x64'],
+		]);
+	});
+
+	it('should retract events from reorged blocks and emit the new ones', async () => {
+		const { chain, handlers, reorg, log } = createChain(100);
+		const staticData: IDataObject = {};
+		const { context } = createPollContext(handlers, { confirmations: 0 }, staticData);
+
+		await trigger.poll.call(context);
+		chain.head = 105;
+		chain.logs.push(log(103, '0x0a'));
+		await trigger.poll.call(context);
+
+		// Blocks from 102 are replaced; the transaction lands in block 104 instead
+		const { stale } = reorg(102, 'f');
+		chain.logs = [log(104, '0x0a')];
+		chain.head = 106;
+		const result = await trigger.poll.call(context);
+
+		expect(result![0].map((item) => item.json)).toEqual([
+			expect.objectContaining({
+				removed: true,
+				blockNumber: 103,
+				blockHash: stale(103),
+				transactionHash: '0x0a',
+			}),
+			expect.objectContaining({ removed: false, blockNumber: 104, transactionHash: '0x0a' }),
+		]);
+	});
+
+	it('should carry blocks over the per-poll cap to the next poll', async () => {
+		const { chain, handlers } = createChain(100);
+		const staticData: IDataObject = {};
+		const { context } = createPollContext(
+			handlers,
+			{ event: 'newBlock', confirmations: 0, maxBlocksPerPoll: 4 },
+			staticData,
+		);
+
+		await trigger.poll.call(context);
+		chain.head = 110;
+		const first = await trigger.poll.call(context);
+		const second = await trigger.poll.call(context);
+		const third = await trigger.poll.call(context);
+
+		const numbers = (result: typeof first) => result![0].map((item) => item.json.blockNumber);
+		expect(numbers(first)).toEqual([101, 102, 103, 104]);
+		expect(numbers(second)).toEqual([105, 106, 107, 108]);
+		expect(numbers(third)).toEqual([109, 110]);
+		await expect(trigger.poll.call(context)).resolves.toBeNull();
+	});
+
+	it('should resume from the block number stored by earlier versions', async () => {
+		const { handlers } = createChain(100);
+		const staticData: IDataObject = { lastBlockNumber: 95 };
+		const { context } = createPollContext(
+			handlers,
+			{ event: 'newBlock', confirmations: 2 },
+			staticData,
+		);
+
+		const result = await trigger.poll.call(context);
+
+		expect(result![0].map((item) => item.json.blockNumber)).toEqual([96, 97, 98]);
+		expect(staticData.lastBlockNumber).toBeUndefined();
+		expect(staticData.cursor).toMatchObject({ scope: 'newBlock' });
+	});
+
+	it('should start over when the watched contract changes', async () => {
+		const { chain, handlers, log } = createChain(100);
+		const staticData: IDataObject = {};
+		const first = createPollContext(handlers, { confirmations: 0 }, staticData);
+		await trigger.poll.call(first.context);
+
+		chain.head = 120;
+		chain.logs.push(log(110, '0x0b'));
+		const other = '0x4444444444444444444444444444444444444444';
+		const second = createPollContext(
+			handlers,
+			{ confirmations: 0, contractAddress: other },
+			staticData,
+		);
+		await expect(trigger.poll.call(second.context)).resolves.toBeNull();
+
+		const ranges = second.calls
+			.filter((call) => call.method === 'eth_getLogs')
+			.map((call) => call.params[0] as IDataObject);
+		expect(ranges).toEqual([expect.objectContaining({ fromBlock: '0x78', toBlock: '0x78' })]);
+	});
+});
@@ -0,0 +1,121 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import type { IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import { getTransactionHistory } from '../../nodes/Chiliz/actions/accounts/accounts';
+import { getUserNFTs } from '../../nodes/Chiliz/actions/nfts/nfts';
+import * as helpers from '../../nodes/Chiliz/utils/helpers';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const HOLDER = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+const OTHER = '0x3333333333333333333333333333333333333333';
+const COLLECTION = '0x4444444444444444444444444444444444444444';
+
+/**
+ * ChilizScan stand-in for list actions, enforcing the 10,000 result window
+ */
+const explorer = (records: IDataObject[]) => {
+	const requests: Record<string, string>[] = [];
+
+	const http = ({ url }: IHttpRequestOptions) => {
+		const query = Object.fromEntries(new URL(url).searchParams);
+		requests.push(query);
+
+		const page = Number(query.page);
+		const offset = Number(query.offset);
+		if (page * offset > 10000) {
+			return { status: '0', message: 'NOTOK', result: 'Result window is too large' };
+		}
+
+		const inRange = records.filter((record) => {
+			const block = Number(record.blockNumber);
+			return block >= Number(query.startblock) && block <= Number(query.endblock);
+		});
+		if (query.sort === 'desc') inRange.reverse();
+
+		const result = inRange.slice((page - 1) * offset, page * offset);
+		return result.length > 0
+			? { status: '1', message: 'OK', result }
+			: { status: '0', message: 'No transactions found', result: [] };
+	};
+
+	return { http, requests };
+};
+
+describe('ChilizScan Return All', () => {
+	let sleep: jest.SpyInstance;
+
+	beforeEach(() => {
+		sleep = jest.spyOn(helpers, 'sleep').mockResolvedValue();
+	});
+
+	afterEach(() => sleep.mockRestore());
+
+	it('should page past the result window by narrowing the block range', async () => {
+		// Three transactions per block, oldest first
+		const transactions = Array.from({ length: 10500 }, (_, i) => ({
+			hash: '0x' + i.toString(16).padStart(64, '0'),
+			blockNumber: String(Math.floor(i / 3) + 1),
+			timeStamp: '1700000000',
+			from: HOLDER,
+			to: OTHER,
+			value: '1',
+		}));
+		const { http, requests } = explorer(transactions);
+		const { context } = createRpcStandIn({
+			parameters: { address: HOLDER, returnAll: true },
+			handlers: {},
+			http,
+		});
+
+		const results = await getTransactionHistory.call(context, 0);
+		const hashes = results.map((result) => result.json.hash);
+
+		expect(hashes).toHaveLength(10500);
+		expect(new Set(hashes).size).toBe(10500);
+		expect(hashes[0]).toBe(transactions[10499].hash);
+		expect(hashes[10499]).toBe(transactions[0].hash);
+		// Ten pages, then paging restarts from the last block seen
+		expect(requests[10]).toMatchObject({ page: '1', endblock: String(Math.floor(500 / 3) + 1) });
+		expect(sleep).toHaveBeenCalledTimes(requests.length - 1);
+	});
+
+	it('should replay the full NFT history oldest first to find holdings', async () => {
+		const transfer = (tokenID: string, from: string, to: string, blockNumber: string) => ({
+			contractAddress: COLLECTION,
+			tokenID,
+			tokenName: 'Club Moments',
+			tokenSymbol: 'CLUB',
+			from,
+			to,
+			blockNumber,
+			timeStamp: blockNumber,
+			hash: `0x${tokenID}${blockNumber}`,
+		});
+		const { http } = explorer([
+			transfer('1', OTHER, HOLDER, '10'),
+			transfer('2', OTHER, HOLDER, '11'),
+			transfer('1', HOLDER, OTHER, '12'),
+			transfer('1', OTHER, HOLDER, '13'),
+			transfer('2', HOLDER, OTHER, '14'),
+		]);
+		const { context } = createRpcStandIn({
+			parameters: { userAddress: HOLDER, returnAll: true },
+			handlers: {},
+			http,
+		});
+
+		const [result] = await getUserNFTs.call(context, 0);
+
+		expect(result.json.nfts).toEqual([expect.objectContaining({ tokenId: '1', receivedAt: '13' })]);
+	});
+});
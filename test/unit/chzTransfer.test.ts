@@ -0,0 +1,169 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import type { IDataObject, IHttpRequestOptions, IPollFunctions } from 'n8n-workflow';
+import { ChilizTrigger } from '../../nodes/Chiliz/ChilizTrigger.node';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const HOT_WALLET = '0x1111111111111111111111111111111111111111';
+const COLD_WALLET = '0x2222222222222222222222222222222222222222';
+const OUTSIDER = '0x3333333333333333333333333333333333333333';
+const CONTRACT = '0x4444444444444444444444444444444444444444';
+
+const hex = (value: number | bigint) => '0x' + value.toString(16);
+const chz = (value: number) => BigInt(value) * BigInt(10 ** 18);
+const hashOf = (n: number) => '0x' + n.toString(16).padStart(64, '0');
+
+const tx = (hash: string, from: string, to: string | null, value: bigint) => ({
+	hash,
+	from,
+	to,
+	value: hex(value),
+});
+
+/**
+ * Chain of blocks 100-102 holding the given transactions per block
+ */
+function createChain(transactions: Record<number, IDataObject[]>, failed: string[] = []) {
+	return {
+		eth_blockNumber: () => hex(102),
+		eth_getBlockByNumber: ([block, full]: unknown[]) => {
+			const n = parseInt(block as string, 16);
+			return {
+				number: hex(n),
+				hash: hashOf(n),
+				timestamp: hex(1_700_000_000 + n * 3),
+				transactions: full ? transactions[n] || [] : [],
+			};
+		},
+		eth_getTransactionReceipt: ([hash]: unknown[]) => ({
+			transactionHash: hash,
+			status: failed.includes(hash as string) ? '0x0' : '0x1',
+		}),
+	};
+}
+
+function createPollContext(
+	handlers: Record<string, (params: unknown[]) => unknown>,
+	parameters: IDataObject,
+	http?: (options: IHttpRequestOptions) => unknown,
+) {
+	const { context } = createRpcStandIn({ handlers, http });
+	const values: IDataObject = {
+		event: 'chzTransfer',
+		watchAddresses: `${HOT_WALLET}, ${COLD_WALLET}`,
+		confirmations: 0,
+		...parameters,
+	};
+	// Resume after block 99 so one poll scans blocks 100-102
+	const staticData: IDataObject = { lastBlockNumber: 99 };
+	Object.assign(context, {
+		getNodeParameter: (name: string, fallback?: unknown) =>
+			name in values ? values[name] : fallback,
+		getWorkflowStaticData: () => staticData,
+		logger: { warn: () => undefined, error: jest.fn() },
+	});
+	return context as unknown as IPollFunctions;
+}
+
+describe('CHZ Transfer trigger', () => {
+	const trigger = new ChilizTrigger();
+
+	const transactions = {
+		100: [
+			tx('0xa1', OUTSIDER, HOT_WALLET, chz(250)),
+			tx('0xa2', OUTSIDER, OUTSIDER, chz(900)),
+			tx('0xa3', HOT_WALLET, CONTRACT, BigInt(0)),
+		],
+		101: [tx('0xb1', HOT_WALLET, COLD_WALLET, chz(1000)), tx('0xb2', OUTSIDER, HOT_WALLET, chz(5))],
+		102: [tx('0xc1', OUTSIDER, HOT_WALLET, chz(700))],
+	};
+
+	it('should report CHZ moving in and out of watched addresses', async () => {
+		const context = createPollContext(createChain(transactions, ['0xc1']), {});
+
+		const result = await trigger.poll.call(context);
+
+		expect(result![0].map((item) => item.json)).toEqual([
+			expect.objectContaining({
+				direction: 'incoming',
+				watchedAddress: HOT_WALLET,
+				from: OUTSIDER,
+				value: chz(250).toString(),
+				valueFormatted: '250',
+				internal: false,
+				blockNumber: 100,
+				transactionHash: '0xa1',
+			}),
+			expect.objectContaining({
+				direction: 'outgoing',
+				watchedAddress: HOT_WALLET,
+				transactionHash: '0xb1',
+			}),
+			expect.objectContaining({
+				direction: 'incoming',
+				watchedAddress: COLD_WALLET,
+				transactionHash: '0xb1',
+			}),
+			expect.objectContaining({
+				direction: 'incoming',
+				valueFormatted: '5',
+				transactionHash: '0xb2',
+			}),
+		]);
+	});
+
+	it('should apply the minimum amount and direction filters', async () => {
+		const context = createPollContext(createChain(transactions), {
+			watchAddresses: HOT_WALLET,
+			transferDirection: 'incoming',
+			minAmount: '100.5',
+		});
+
+		const result = await trigger.poll.call(context);
+
+		expect(result![0].map((item) => item.json.transactionHash)).toEqual(['0xa1', '0xc1']);
+	});
+
+	it('should include internal transfers from ChilizScan', async () => {
+		const requested: string[] = [];
+		const internal = {
+			blockNumber: '101',
+			hash: '0xd1',
+			from: CONTRACT,
+			to: HOT_WALLET,
+			value: chz(42).toString(),
+			traceId: '0_1',
+			isError: '0',
+		};
+		const context = createPollContext(createChain({}), { includeInternal: true }, ({ url }) => {
+			requested.push(url as string);
+			const isHotWallet = (url as string).includes(HOT_WALLET);
+			return { status: '1', message: 'OK', result: isHotWallet ? [internal] : [] };
+		});
+
+		const result = await trigger.poll.call(context);
+
+		expect(requested[0]).toContain('action=txlistinternal');
+		expect(requested[0]).toContain('startblock=100&endblock=102');
+		expect(result![0].map((item) => item.json)).toEqual([
+			expect.objectContaining({
+				direction: 'incoming',
+				from: CONTRACT,
+				valueFormatted: '42',
+				internal: true,
+				blockHash: hashOf(101),
+				transactionHash: '0xd1',
+			}),
+		]);
+	});
+});
@@ -0,0 +1,110 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { Transaction } from 'ethers';
+import { estimateGas, sendTransaction } from '../../nodes/Chiliz/actions/transactions/transactions';
+import { getFeeEstimate } from '../../nodes/Chiliz/transport/fees';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+// Well-known development key (Hardhat account #0) - never holds real funds
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const RECIPIENT = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+
+const gwei = (value: number) => BigInt(value) * BigInt(10 ** 9);
+const hex = (value: bigint) => '0x' + value.toString(16);
+
+// Three blocks sampled at the 10th/50th/90th percentiles; the second block is empty
+const feeHistory = () => ({
+	oldestBlock: '0x64',
+	baseFeePerGas: [gwei(2400), gwei(2500), gwei(2500), gwei(2500)].map(hex),
+	gasUsedRatio: [0.4, 0, 0.6],
+	reward: [
+		[gwei(1), gwei(2), gwei(5)].map(hex),
+		['0x0', '0x0', '0x0'],
+		[gwei(3), gwei(4), gwei(9)].map(hex),
+	],
+});
+
+describe('Fee oracle', () => {
+	it('should suggest fees from reward percentiles of non-empty blocks', async () => {
+		const { context } = createRpcStandIn({ handlers: { eth_feeHistory: feeHistory } });
+
+		const estimate = await getFeeEstimate.call(context);
+
+		expect(estimate).toEqual({
+			baseFeePerGas: gwei(2500),
+			slow: { maxPriorityFeePerGas: gwei(3), maxFeePerGas: gwei(5003) },
+			standard: { maxPriorityFeePerGas: gwei(4), maxFeePerGas: gwei(5004) },
+			fast: { maxPriorityFeePerGas: gwei(9), maxFeePerGas: gwei(5009) },
+		});
+	});
+
+	it('should report networks without fee history', async () => {
+		const { context } = createRpcStandIn({
+			handlers: { eth_feeHistory: () => ({ oldestBlock: '0x64', baseFeePerGas: [] }) },
+		});
+
+		await expect(getFeeEstimate.call(context)).resolves.toBeNull();
+	});
+
+	it('should sign EIP-1559 transactions with the credential fee strategy', async () => {
+		let broadcast: Transaction | undefined;
+		const { context, calls } = createRpcStandIn({
+			credentials: { privateKey: PRIVATE_KEY, feeStrategy: 'fast', gasLimitMultiplier: 1.5 },
+			parameters: { toAddress: RECIPIENT, amount: '1' },
+			handlers: {
+				eth_feeHistory: feeHistory,
+				eth_getTransactionCount: () => '0x0',
+				eth_estimateGas: () => '0x5208',
+				eth_sendRawTransaction: ([raw]) => {
+					broadcast = Transaction.from(raw as string);
+					return broadcast.hash;
+				},
+				eth_getTransactionReceipt: () => ({
+					status: '0x1',
+					blockNumber: '0x68',
+					gasUsed: '0x5208',
+				}),
+			},
+		});
+
+		const [result] = await sendTransaction.call(context, 0);
+
+		expect(broadcast!.type).toBe(2);
+		expect(broadcast!.maxPriorityFeePerGas).toBe(gwei(9));
+		expect(broadcast!.maxFeePerGas).toBe(gwei(5009));
+		expect(broadcast!.gasLimit).toBe(BigInt(31500));
+		expect(result.json).toMatchObject({ type: 2, gasPrice: null, maxFeePerGas: '5009000000000' });
+		expect(calls.map((c) => c.method)).not.toContain('eth_gasPrice');
+	});
+
+	it('should estimate the padded gas limit and the expected and maximum cost', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { fromAddress: RECIPIENT, toAddress: RECIPIENT },
+			handlers: {
+				eth_feeHistory: feeHistory,
+				eth_estimateGas: () => '0x5208',
+				eth_gasPrice: () => hex(gwei(2504)),
+			},
+		});
+
+		const [result] = await estimateGas.call(context, 0);
+
+		expect(result.json).toMatchObject({
+			gasEstimate: '21000',
+			gasLimit: '25200',
+			feeStrategy: 'standard',
+			estimatedCostCHZ: '0.052584',
+			maxCostCHZ: '0.1261008',
+		});
+	});
+});
@@ -0,0 +1,165 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { decodeEvent, getLogs } from '../../nodes/Chiliz/actions/events/events';
+import { encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+import type { RpcHandler } from '../helpers/rpcStandIn';
+
+const CONTRACT = '0x2222222222222222222222222222222222222222';
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const log = (block: number, logIndex = 0) => ({
+	address: CONTRACT,
+	topics: [TRANSFER_TOPIC],
+	data: '0x',
+	blockNumber: '0x' + block.toString(16),
+	blockHash: '0x' + 'ab'.repeat(32),
+	transactionHash: '0x' + block.toString(16).padStart(64, '0'),
+	transactionIndex: '0x0',
+	logIndex: '0x' + logIndex.toString(16),
+	removed: false,
+});
+
+/**
+ * eth_getLogs stand-in with one log every 1,000 blocks that rejects ranges wider than `maxRange`
+ */
+const getLogsHandler =
+	(ranges: Array<[number, number]>, maxRange: number): RpcHandler =>
+	([filter]) => {
+		const { fromBlock, toBlock } = filter as { fromBlock: string; toBlock: string };
+		const from = parseInt(fromBlock, 16);
+		const to = parseInt(toBlock, 16);
+		ranges.push([from, to]);
+
+		if (to - from + 1 > maxRange) {
+			throw new Error('query returned more than 10000 results');
+		}
+
+		const logs = [];
+		for (let block = Math.ceil(from / 1000) * 1000; block <= to; block += 1000) {
+			logs.push(log(block));
+		}
+		// Nodes occasionally repeat a log at a chunk boundary
+		if (from > 0) logs.unshift(log(Math.floor((from - 1) / 1000) * 1000));
+		return logs;
+	};
+
+describe('Chunked eth_getLogs', () => {
+	const parameters = {
+		contractAddress: CONTRACT,
+		topics: `["${TRANSFER_TOPIC}"]`,
+		fromBlock: '0',
+		toBlock: '11999',
+		blockChunkSize: 5000,
+		limit: 1000,
+	};
+
+	it('should split the range, halve rejected chunks and de-duplicate logs', async () => {
+		const ranges: Array<[number, number]> = [];
+		const { context, calls } = createRpcStandIn({
+			parameters,
+			handlers: { eth_getLogs: getLogsHandler(ranges, 3000) },
+		});
+
+		const results = await getLogs.call(context, 0);
+
+		const served = ranges.filter(([from, to]) => to - from + 1 <= 3000);
+		expect(served[0][0]).toBe(0);
+		expect(served[served.length - 1][1]).toBe(11999);
+		served.slice(1).forEach(([from], i) => expect(from).toBe(served[i][1] + 1));
+
+		expect(results.map((r) => r.json.blockNumber)).toEqual(
+			Array.from({ length: 12 }, (_, i) => i * 1000),
+		);
+		expect((calls[0].params[0] as { topics: string[] }).topics).toEqual([TRANSFER_TOPIC]);
+	});
+
+	it('should output one item per chunk and stop at the limit', async () => {
+		const ranges: Array<[number, number]> = [];
+		const { context } = createRpcStandIn({
+			parameters: { ...parameters, outputPerChunk: true, limit: 6 },
+			handlers: { eth_getLogs: getLogsHandler(ranges, 5000) },
+		});
+
+		const results = await getLogs.call(context, 0);
+
+		expect(results.map((r) => r.json)).toEqual([
+			expect.objectContaining({ fromBlock: 0, toBlock: 4999, logCount: 5 }),
+			expect.objectContaining({ fromBlock: 5000, toBlock: 9999, logCount: 1 }),
+		]);
+		expect(ranges).toHaveLength(2);
+	});
+
+	it('should not split on errors unrelated to the range', async () => {
+		const { context, calls } = createRpcStandIn({
+			parameters,
+			handlers: {
+				eth_getLogs: () => {
+					throw new Error('invalid argument 0: hex string without 0x prefix');
+				},
+			},
+		});
+
+		await expect(getLogs.call(context, 0)).rejects.toThrow('Failed to get logs: invalid argument');
+		expect(calls).toHaveLength(1);
+	});
+});
+
+describe('Decode Event', () => {
+	const HOLDER = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+	const transferLog = {
+		...log(100),
+		topics: [
+			TRANSFER_TOPIC,
+			encodeParameters(['address'], [HOLDER]),
+			encodeParameters(['address'], [CONTRACT]),
+		],
+		data: encodeParameters(['uint256'], ['25']),
+	};
+
+	it('should decode a log output by Get Logs from the input item', async () => {
+		const { context: fetch } = createRpcStandIn({
+			parameters: { fromBlock: '100', toBlock: '100' },
+			handlers: { eth_getLogs: () => [transferLog] },
+		});
+		const [item] = await getLogs.call(fetch, 0);
+
+		const { context } = createRpcStandIn({ parameters: { eventLog: '{}' }, handlers: {} });
+		context.getInputData = () => [item];
+		const [result] = await decodeEvent.call(context, 0);
+
+		expect(result.json).toMatchObject({
+			blockNumber: 100,
+			decoded: true,
+			eventName: 'Transfer',
+			args: { from: HOLDER, to: CONTRACT, value: '25' },
+		});
+	});
+
+	it('should pass through logs the ABI does not cover', async () => {
+		const { context } = createRpcStandIn({
+			parameters: {
+				eventLog: JSON.stringify(transferLog),
+				eventAbi: 'event Approval(address indexed owner, address indexed spender, uint256 value)',
+			},
+			handlers: {},
+		});
+
+		const [result] = await decodeEvent.call(context, 0);
+
+		expect(result.json).toMatchObject({
+			decoded: false,
+			transactionHash: transferLog.transactionHash,
+		});
+	});
+});
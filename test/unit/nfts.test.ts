@@ -0,0 +1,140 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import { Transaction } from 'ethers';
+import { transferNFT } from '../../nodes/Chiliz/actions/nfts/nfts';
+import { decodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+import type { RpcHandler } from '../helpers/rpcStandIn';
+
+// Well-known development key (Hardhat account #0) - never holds real funds
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER_ADDRESS = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+const OTHER_OWNER = '0x3333333333333333333333333333333333333333';
+const RECIPIENT = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+const COLLECTION = '0x4444444444444444444444444444444444444444';
+
+const word = (hex: string) => '0x' + hex.replace('0x', '').padStart(64, '0');
+
+/**
+ * Answer eth_call by function selector
+ */
+const callsBySelector =
+	(results: Record<string, string>): RpcHandler =>
+	([call]) => {
+		const selector = (call as { data: string }).data.slice(0, 10);
+		if (!(selector in results)) throw new Error(`Unexpected call ${selector}`);
+		return results[selector];
+	};
+
+const sendHandlers = (onBroadcast: (tx: Transaction) => void): Record<string, RpcHandler> => ({
+	eth_getTransactionCount: () => '0x1',
+	eth_gasPrice: () => '0x3b9aca00',
+	eth_estimateGas: () => '0x186a0',
+	eth_sendRawTransaction: ([raw]) => {
+		const tx = Transaction.from(raw as string);
+		onBroadcast(tx);
+		return tx.hash;
+	},
+	eth_getTransactionReceipt: () => ({ status: '0x1', blockNumber: '0x30', gasUsed: '0x13880' }),
+});
+
+describe('Transfer NFT', () => {
+	const parameters = {
+		collectionAddress: COLLECTION,
+		tokenId: '7',
+		toAddress: RECIPIENT,
+	};
+
+	it('should call ERC-721 safeTransferFrom when the signer owns the token', async () => {
+		let broadcast: Transaction | undefined;
+		const { context } = createRpcStandIn({
+			credentials: { privateKey: PRIVATE_KEY },
+			parameters,
+			handlers: {
+				eth_call: callsBySelector({ '0x6352211e': word(SIGNER_ADDRESS) }),
+				...sendHandlers((tx) => (broadcast = tx)),
+			},
+		});
+
+		const [result] = await transferNFT.call(context, 0);
+
+		expect(broadcast!.to!.toLowerCase()).toBe(COLLECTION);
+		expect(broadcast!.data.slice(0, 10)).toBe('0x42842e0e');
+		expect(
+			decodeParameters(['address', 'address', 'uint256'], '0x' + broadcast!.data.slice(10)),
+		).toEqual([SIGNER_ADDRESS, RECIPIENT, '7']);
+		expect(result.json.status).toBe('success');
+	});
+
+	it('should fail early when the signer is neither owner nor approved', async () => {
+		const { context, calls } = createRpcStandIn({
+			credentials: { privateKey: PRIVATE_KEY },
+			parameters: { ...parameters, fromAddress: OTHER_OWNER },
+			handlers: {
+				eth_call: callsBySelector({
+					'0x6352211e': word(OTHER_OWNER),
+					'0x081812fc': word('0'),
+					'0xe985e9c5': word('0'),
+				}),
+			},
+		});
+
+		await expect(transferNFT.call(context, 0)).rejects.toThrow(
+			`Signer ${SIGNER_ADDRESS} is neither the owner of token 7 nor approved to transfer it`,
+		);
+		expect(calls.map((c) => c.method)).not.toContain('eth_sendRawTransaction');
+	});
+
+	it('should transfer an ERC-1155 amount after checking the balance', async () => {
+		let broadcast: Transaction | undefined;
+		const { context } = createRpcStandIn({
+			credentials: { privateKey: PRIVATE_KEY },
+			parameters: { ...parameters, nftStandard: 'erc1155', nftAmount: '3' },
+			handlers: {
+				eth_call: callsBySelector({ '0x00fdd58e': word('5') }),
+				...sendHandlers((tx) => (broadcast = tx)),
+			},
+		});
+
+		const [result] = await transferNFT.call(context, 0);
+
+		expect(broadcast!.data.slice(0, 10)).toBe('0xf242432a');
+		expect(
+			decodeParameters(
+				['address', 'address', 'uint256', 'uint256', 'bytes'],
+				'0x' + broadcast!.data.slice(10),
+			),
+		).toEqual([SIGNER_ADDRESS, RECIPIENT, '7', '3', '0x']);
+		expect(result.json.amount).toBe('3');
+	});
+
+	it('should reject an ERC-1155 amount that is not a whole number', async () => {
+		for (const nftAmount of ['1.5', 'abc']) {
+			const { context, calls } = createRpcStandIn({
+				credentials: { privateKey: PRIVATE_KEY },
+				parameters: { ...parameters, nftStandard: 'erc1155', nftAmount },
+				handlers: {},
+			});
+
+			const error = await transferNFT.call(context, 0).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(NodeOperationError);
+			expect((error as NodeOperationError).message).toBe(
+				`Invalid amount "${nftAmount}": use a whole number of tokens`,
+			);
+			expect((error as NodeOperationError).context.itemIndex).toBe(0);
+			expect(calls).toHaveLength(0);
+		}
+	});
+});
@@ -0,0 +1,228 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { Transaction } from 'ethers';
+import { getAccountNonce } from '../../nodes/Chiliz/actions/accounts/accounts';
+import {
+	cancelTransaction,
+	replaceTransaction,
+} from '../../nodes/Chiliz/actions/transactions/transactions';
+import { reserveNonce, resetNonceManager } from '../../nodes/Chiliz/transport/nonces';
+import { signAndSendTransaction } from '../../nodes/Chiliz/transport/signer';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+// Well-known development key (Hardhat account #0) - never holds real funds
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SENDER = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+const RECIPIENT = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+const TX_HASH = '0x' + 'e4'.repeat(32);
+const CHAIN_ID = 88888;
+
+const gwei = (value: number) => BigInt(value) * BigInt(10 ** 9);
+const hex = (value: bigint) => '0x' + value.toString(16);
+
+const stuckTx = {
+	hash: TX_HASH,
+	from: SENDER,
+	to: RECIPIENT,
+	nonce: '0x5',
+	input: '0xa9059cbb',
+	value: '0x0',
+	gas: '0x186a0',
+	maxFeePerGas: hex(gwei(5000)),
+	maxPriorityFeePerGas: hex(gwei(2)),
+	blockNumber: null,
+};
+
+const feeHistory = () => ({
+	oldestBlock: '0x64',
+	baseFeePerGas: [gwei(2500), gwei(2500)].map(hex),
+	gasUsedRatio: [0.5],
+	reward: [[gwei(1), gwei(1), gwei(1)].map(hex)],
+});
+
+describe('Nonce manager', () => {
+	beforeEach(() => resetNonceManager());
+
+	it('should hand out sequential nonces while the pending count lags', async () => {
+		const { context } = createRpcStandIn({ handlers: { eth_getTransactionCount: () => '0x3' } });
+
+		const nonces = [
+			await reserveNonce.call(context, CHAIN_ID, SENDER),
+			await reserveNonce.call(context, CHAIN_ID, SENDER),
+			await reserveNonce.call(context, CHAIN_ID, SENDER),
+		];
+
+		expect(nonces).toEqual([3, 4, 5]);
+	});
+
+	it('should share nonces across RPC endpoints and keep chains apart', async () => {
+		const mainnet = createRpcStandIn({ handlers: { eth_getTransactionCount: () => '0x3' } });
+		const custom = createRpcStandIn({
+			credentials: { network: 'custom', rpcEndpoint: 'http://127.0.0.1:8545', chainId: CHAIN_ID },
+			handlers: { eth_getTransactionCount: () => '0x3' },
+		});
+
+		await reserveNonce.call(mainnet.context, CHAIN_ID, SENDER);
+		await expect(reserveNonce.call(custom.context, CHAIN_ID, SENDER)).resolves.toBe(4);
+		await expect(reserveNonce.call(mainnet.context, 88882, SENDER)).resolves.toBe(3);
+	});
+
+	it('should refill a nonce the node never saw once it goes stale', async () => {
+		const { context } = createRpcStandIn({ handlers: { eth_getTransactionCount: () => '0x3' } });
+		const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+		try {
+			await reserveNonce.call(context, CHAIN_ID, SENDER);
+			await reserveNonce.call(context, CHAIN_ID, SENDER);
+			now.mockReturnValue(1_000_000 + 61_000);
+
+			await expect(reserveNonce.call(context, CHAIN_ID, SENDER)).resolves.toBe(3);
+			await expect(reserveNonce.call(context, CHAIN_ID, SENDER)).resolves.toBe(5);
+		} finally {
+			now.mockRestore();
+		}
+	});
+
+	it('should move past a nonce the node reports as taken', async () => {
+		const broadcast: number[] = [];
+		const { context } = createRpcStandIn({
+			credentials: { privateKey: PRIVATE_KEY },
+			handlers: {
+				eth_getTransactionCount: () => '0x3',
+				eth_sendRawTransaction: ([raw]) => {
+					const tx = Transaction.from(raw as string);
+					broadcast.push(tx.nonce);
+					if (tx.nonce === 3) throw new Error('nonce too low');
+					return tx.hash;
+				},
+			},
+		});
+
+		const sent = await signAndSendTransaction.call(context, {
+			to: RECIPIENT,
+			gasLimit: BigInt(21000),
+			gasPrice: gwei(2500),
+		});
+
+		expect(broadcast).toEqual([3, 4]);
+		expect(sent.nonce).toBe(4);
+	});
+
+	it('should release the nonce of a broadcast that failed', async () => {
+		const { context } = createRpcStandIn({
+			credentials: { privateKey: PRIVATE_KEY },
+			handlers: {
+				eth_getTransactionCount: () => '0x3',
+				eth_sendRawTransaction: () => {
+					throw new Error('insufficient funds for gas * price + value');
+				},
+			},
+		});
+
+		await expect(
+			signAndSendTransaction.call(context, {
+				to: RECIPIENT,
+				gasLimit: BigInt(21000),
+				gasPrice: gwei(2500),
+			}),
+		).rejects.toThrow('insufficient funds');
+
+		await expect(reserveNonce.call(context, CHAIN_ID, SENDER)).resolves.toBe(3);
+	});
+
+	it('should report gaps below queued transactions', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { address: SENDER },
+			handlers: {
+				eth_getTransactionCount: ([, block]) => (block === 'latest' ? '0x2' : '0x3'),
+				txpool_contentFrom: () => ({ pending: {}, queued: { 5: {}, 7: {} } }),
+			},
+		});
+
+		const [result] = await getAccountNonce.call(context, 0);
+
+		expect(result.json).toMatchObject({
+			nonce: 2,
+			pendingNonce: 3,
+			nextNonce: 3,
+			queuedNonces: [5, 7],
+			gaps: [3, 4, 6],
+			hasGaps: true,
+		});
+	});
+});
+
+describe('Replace and Cancel Transaction', () => {
+	let broadcast: Transaction | undefined;
+
+	const run = (parameters: Record<string, unknown>, tx = stuckTx) =>
+		createRpcStandIn({
+			credentials: { privateKey: PRIVATE_KEY },
+			parameters: { receiptTimeout: 0, ...parameters },
+			handlers: {
+				eth_getTransactionByHash: () => tx,
+				eth_feeHistory: feeHistory,
+				eth_sendRawTransaction: ([raw]) => {
+					broadcast = Transaction.from(raw as string);
+					return broadcast.hash;
+				},
+			},
+		}).context;
+
+	beforeEach(() => {
+		resetNonceManager();
+		broadcast = undefined;
+	});
+
+	it('should resend the same call and nonce with bumped fees', async () => {
+		const [result] = await replaceTransaction.call(
+			run({ transactionHash: TX_HASH, feeBumpPercent: 20 }),
+			0,
+		);
+
+		expect(broadcast).toMatchObject({
+			nonce: 5,
+			to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+			data: '0xa9059cbb',
+			gasLimit: BigInt(100000),
+			maxPriorityFeePerGas: gwei(2) + gwei(2) / BigInt(5),
+			maxFeePerGas: gwei(6000),
+		});
+		expect(result.json).toMatchObject({
+			action: 'replace',
+			replacedHash: TX_HASH,
+			status: 'pending',
+		});
+	});
+
+	it('should cancel a nonce gap with a 0 CHZ transfer to self', async () => {
+		const [result] = await cancelTransaction.call(run({ nonce: '9' }), 0);
+
+		expect(broadcast).toMatchObject({
+			nonce: 9,
+			value: BigInt(0),
+			gasLimit: BigInt(21000),
+			maxPriorityFeePerGas: gwei(1),
+			maxFeePerGas: gwei(5001),
+		});
+		expect(broadcast!.from?.toLowerCase()).toBe(SENDER);
+		expect(broadcast!.to?.toLowerCase()).toBe(SENDER);
+		expect(result.json).toMatchObject({ action: 'cancel', replacedHash: null });
+	});
+
+	it('should refuse to replace a transaction from another key', async () => {
+		const context = run({ transactionHash: TX_HASH }, { ...stuckTx, from: RECIPIENT });
+
+		await expect(replaceTransaction.call(context, 0)).rejects.toThrow('not the credential key');
+	});
+});
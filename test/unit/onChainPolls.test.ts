@@ -0,0 +1,241 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { Transaction, id } from 'ethers';
+import type { IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import { getActivePolls, getVoteResults, voteOnPoll } from '../../nodes/Chiliz/actions/polls/polls';
+import { resetNonceManager } from '../../nodes/Chiliz/transport/nonces';
+import {
+	computeSelector,
+	decodeParameters,
+	encodeFunctionData,
+	encodeParameters,
+} from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+// Well-known development key (Hardhat account #0) - never holds real funds
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const VOTING = '0x5555555555555555555555555555555555555555';
+const BAR = '0x6666666666666666666666666666666666666666';
+const PSG = '0x7777777777777777777777777777777777777777';
+const ALICE = '0xa11ce00000000000000000000000000000000001';
+const BOB = '0xb0b0000000000000000000000000000000000002';
+const CAROL = '0xca20100000000000000000000000000000000003';
+
+const now = Math.floor(Date.now() / 1000);
+const GET_POLL =
+	'getPoll(uint256) returns (string,string,address,uint256,uint256,uint256,string[])';
+
+const polls: Record<number, unknown[]> = {
+	1: ['Kit colour', 'Ended poll', BAR, now - 7200, now - 3600, 90, ['Red', 'Blue']],
+	2: ['Walkout song', 'Pick the song', BAR, now - 600, now + 3600, 150, ['Anthem', 'Rock', 'Pop']],
+	3: ['Away kit', 'Upcoming poll', PSG, now + 600, now + 7200, 120, ['Yes', 'No']],
+};
+
+const balances: Record<string, number> = { [ALICE]: 50, [BOB]: 30, [CAROL]: 0 };
+
+const voteLog = (pollId: number, voter: string, optionId: number, blockNumber: number) => ({
+	address: VOTING,
+	topics: [
+		id('VoteCast(uint256,address,uint256)'),
+		encodeParameters(['uint256'], [pollId]),
+		encodeParameters(['address'], [voter]),
+	],
+	data: encodeParameters(['uint256'], [optionId]),
+	blockNumber: '0x' + blockNumber.toString(16),
+	logIndex: '0x0',
+	transactionHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+});
+
+const run = (
+	parameters: IDataObject,
+	extraHandlers = {},
+	http?: (request: IHttpRequestOptions) => unknown,
+) => {
+	const balanceTags: string[] = [];
+	const { context, calls } = createRpcStandIn({
+		credentials: {
+			privateKey: PRIVATE_KEY,
+			tokenList: JSON.stringify([{ symbol: 'BAR', address: BAR }]),
+		},
+		parameters: { pollBackend: 'onChain', votingContract: VOTING, ...parameters },
+		http,
+		handlers: {
+			eth_blockNumber: () => '0xc8',
+			// Block 200 is the latest, mined every 6 seconds: poll 2 started at block 100
+			eth_getBlockByNumber: ([block]) => ({
+				number: block,
+				timestamp: '0x' + (now - (200 - parseInt(block as string, 16)) * 6).toString(16),
+			}),
+			eth_call: ([call, blockTag]) => {
+				const { to, data } = call as { to: string; data: string };
+				const selector = data.slice(0, 10);
+				if (selector === computeSelector('pollCount()')) {
+					return encodeParameters(['uint256'], [3]);
+				}
+				if (selector === computeSelector(GET_POLL)) {
+					const [pollId] = decodeParameters(['uint256'], '0x' + data.slice(10));
+					return encodeParameters(
+						['string', 'string', 'address', 'uint256', 'uint256', 'uint256', 'string[]'],
+						polls[Number(pollId)],
+					);
+				}
+				if (to === BAR && selector === computeSelector('decimals()')) {
+					return encodeParameters(['uint8'], [0]);
+				}
+				if (to === BAR && selector === computeSelector('balanceOf(address)')) {
+					balanceTags.push(blockTag as string);
+					const [holder] = decodeParameters(['address'], '0x' + data.slice(10));
+					return encodeParameters(['uint256'], [balances[(holder as string).toLowerCase()]]);
+				}
+				throw new Error('execution reverted');
+			},
+			eth_getLogs: () => [
+				voteLog(2, ALICE, 0, 101),
+				voteLog(2, BOB, 1, 102),
+				voteLog(2, CAROL, 1, 103),
+				// Alice changes her vote
+				voteLog(2, ALICE, 1, 104),
+			],
+			...extraHandlers,
+		},
+	});
+	return { context, calls, balanceTags };
+};
+
+describe('On-chain poll backend', () => {
+	beforeEach(() => resetNonceManager());
+
+	it('should list the active polls of the voting contract', async () => {
+		const { context } = run({ tokenSymbol: 'BAR', limit: 5 });
+
+		const result = await getActivePolls.call(context, 0);
+
+		expect(result.map((item) => item.json)).toEqual([
+			expect.objectContaining({
+				id: '2',
+				title: 'Walkout song',
+				tokenSymbol: 'BAR',
+				status: 'active',
+				snapshotBlock: 150,
+				options: [
+					{ id: '0', text: 'Anthem' },
+					{ id: '1', text: 'Rock' },
+					{ id: '2', text: 'Pop' },
+				],
+			}),
+		]);
+	});
+
+	it('should tally the last vote of each voter by token balance at the snapshot block', async () => {
+		const { context, calls, balanceTags } = run({ pollId: '2' });
+
+		const [result] = await getVoteResults.call(context, 0);
+
+		// Votes are read from the poll's start, weights at its snapshot block
+		const logFilter = calls.find((call) => call.method === 'eth_getLogs')?.params[0];
+		expect(logFilter).toMatchObject({ address: VOTING, fromBlock: '0x64' });
+		expect(balanceTags).toEqual(['0x96', '0x96', '0x96']);
+		expect(result.json).toMatchObject({
+			totalVotes: 80,
+			totalParticipants: 3,
+			options: [
+				{ id: '0', text: 'Anthem', votes: 0, percentage: 0, voters: 0, isWinner: false },
+				{ id: '1', text: 'Rock', votes: 80, percentage: 100, voters: 3, isWinner: true },
+				{ id: '2', text: 'Pop', votes: 0, percentage: 0, voters: 0, isWinner: false },
+			],
+			winner: expect.objectContaining({ id: '1', text: 'Rock' }),
+		});
+	});
+
+	it('should read votes and latest weights while the snapshot block is ahead', async () => {
+		const snapshotBlock = polls[2][5];
+		polls[2][5] = 300;
+		try {
+			const { context, calls, balanceTags } = run({ pollId: '2' });
+
+			const [result] = await getVoteResults.call(context, 0);
+
+			const logFilter = calls.find((call) => call.method === 'eth_getLogs')?.params[0];
+			expect(logFilter).toMatchObject({ fromBlock: '0x64', toBlock: '0xc8' });
+			expect(balanceTags).toEqual(['latest', 'latest', 'latest']);
+			expect(result.json).toMatchObject({ totalVotes: 80, totalParticipants: 3 });
+		} finally {
+			polls[2][5] = snapshotBlock;
+		}
+	});
+
+	it('should refuse to weight votes when the token decimals are unreadable', async () => {
+		// The stand-in only answers token calls for BAR
+		polls[2][2] = PSG;
+		try {
+			const { context } = run({ pollId: '2' });
+
+			await expect(getVoteResults.call(context, 0)).rejects.toThrow(
+				`decimals() of token ${PSG} could not be read`,
+			);
+		} finally {
+			polls[2][2] = BAR;
+		}
+	});
+
+	it('should measure turnout against the holder count of the poll token', async () => {
+		const urls: string[] = [];
+		const { context } = run({ pollId: '2', resultsAnalytics: true }, {}, ({ url }) => {
+			urls.push(url);
+			return { status: '1', message: 'OK', result: '12' };
+		});
+
+		const [result] = await getVoteResults.call(context, 0);
+
+		expect(urls).toEqual([
+			expect.stringContaining(`action=tokenholdercount&contractaddress=${BAR}`),
+		]);
+		expect(result.json.analytics).toMatchObject({
+			turnout: { voters: 3, holders: 12, percentage: 25 },
+		});
+	});
+
+	it('should vote with a transaction signed by the credential key', async () => {
+		let broadcast: Transaction | undefined;
+		const { context } = run(
+			{ pollId: '2', optionId: '2' },
+			{
+				eth_getTransactionCount: () => '0x0',
+				eth_gasPrice: () => '0x3b9aca00',
+				eth_estimateGas: () => '0x186a0',
+				eth_sendRawTransaction: ([raw]: unknown[]) => {
+					broadcast = Transaction.from(raw as string);
+					return broadcast.hash;
+				},
+			},
+		);
+
+		const [result] = await voteOnPoll.call(context, 0);
+
+		expect(broadcast!.to?.toLowerCase()).toBe(VOTING);
+		expect(broadcast!.data).toBe(encodeFunctionData('vote(uint256,uint256)', [2, 2]));
+		expect(result.json).toMatchObject({
+			pollId: '2',
+			optionId: '2',
+			optionText: 'Pop',
+			success: true,
+			transactionHash: broadcast!.hash,
+		});
+	});
+
+	it('should refuse votes on polls that are not active', async () => {
+		const { context } = run({ pollId: '1', optionId: '0' });
+
+		await expect(voteOnPoll.call(context, 0)).rejects.toThrow('Poll 1 is ended');
+	});
+});
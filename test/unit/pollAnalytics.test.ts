@@ -0,0 +1,114 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import type { IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import { getVoteResults } from '../../nodes/Chiliz/actions/polls/polls';
+import { computeSelector, decodeParameters, encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const TOKEN = '0x1000000000000000000000000000000000000001';
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const BOB = '0x00000000000000000000000000000000000000b0';
+const CAROL = '0x00000000000000000000000000000000000000c0';
+const BALANCES: Record<string, number> = { [ALICE]: 10, [BOB]: 5, [CAROL]: 100 };
+
+/**
+ * Socios results and ChilizScan holder count stand-in: four holders, three of whom voted
+ */
+function createResultsStandIn(results: IDataObject) {
+	const http = (request: IHttpRequestOptions) => {
+		if (request.url.endsWith('/polls/7/results')) {
+			return { tokenAddress: TOKEN, ...results };
+		}
+		if (request.url.includes('action=tokenholdercount')) {
+			expect(request.url).toContain(`contractaddress=${TOKEN}`);
+			return { status: '1', message: 'OK', result: '4' };
+		}
+		throw new Error(`Unexpected request to ${request.url}`);
+	};
+
+	return createRpcStandIn({
+		credentials: { sociosApiKey: 'test-key' },
+		parameters: { pollId: '7', resultsAnalytics: true },
+		http,
+		handlers: {
+			eth_call: ([call]) => {
+				const { data } = call as { data: string };
+				if (data.startsWith(computeSelector('decimals()'))) return encodeParameters(['uint8'], [0]);
+				const [holder] = decodeParameters(['address'], '0x' + data.slice(10));
+				return encodeParameters(['uint256'], [BALANCES[(holder as string).toLowerCase()] ?? 0]);
+			},
+		},
+	});
+}
+
+describe('Poll result analytics', () => {
+	it('should compute shares, margin, turnout and a token-weighted tally', async () => {
+		const { context } = createResultsStandIn({
+			title: 'Kit colour',
+			totalParticipants: 3,
+			options: [
+				{ id: '1', text: 'Red', votes: 2 },
+				{ id: '2', text: 'Blue', votes: 1 },
+			],
+			votes: [
+				{ voter: ALICE, optionId: '1' },
+				{ voter: BOB, optionId: '1' },
+				{ voter: CAROL, optionId: '2' },
+			],
+		});
+
+		const [result] = await getVoteResults.call(context, 0);
+		const analytics = result.json.analytics as IDataObject;
+
+		expect(analytics).toMatchObject({
+			totalVotes: 3,
+			options: [
+				{ id: '1', votes: 2, percentage: 66.67, rank: 1 },
+				{ id: '2', votes: 1, percentage: 33.33, rank: 2 },
+			],
+			leader: { id: '1' },
+			runnerUp: { id: '2' },
+			margin: { votes: 1, percentagePoints: 33.33 },
+			turnout: { voters: 3, holders: 4, percentage: 75 },
+		});
+		// Carol's 100 tokens outweigh Alice and Bob together
+		expect(analytics.tokenWeighted).toMatchObject({
+			totalVotes: 115,
+			options: [
+				{ id: '2', votes: 100, voters: 1, percentage: 86.96, rank: 1 },
+				{ id: '1', votes: 15, voters: 2, percentage: 13.04, rank: 2 },
+			],
+			leader: { id: '2' },
+			margin: { votes: 85, percentagePoints: 73.91 },
+		});
+	});
+
+	it('should report no leader on a tie and skip weighting without voter addresses', async () => {
+		const { context } = createResultsStandIn({
+			totalParticipants: 2,
+			options: [
+				{ id: '1', text: 'Red', votes: 1 },
+				{ id: '2', text: 'Blue', votes: 1 },
+			],
+		});
+
+		const [result] = await getVoteResults.call(context, 0);
+
+		expect(result.json.analytics).toMatchObject({
+			leader: null,
+			margin: { votes: 0, percentagePoints: 0 },
+			turnout: { voters: 2, holders: 4, percentage: 50 },
+			tokenWeighted: null,
+		});
+	});
+});
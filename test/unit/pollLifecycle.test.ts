@@ -0,0 +1,183 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import type { IDataObject, IHttpRequestOptions, IPollFunctions } from 'n8n-workflow';
+import { ChilizTrigger } from '../../nodes/Chiliz/ChilizTrigger.node';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const START = Date.UTC(2026, 0, 1);
+const HOUR = 3600000;
+
+const poll = (id: string, endHours: number, votes: number[]) => ({
+	id,
+	title: `Poll ${id}`,
+	tokenSymbol: 'BAR',
+	endDate: new Date(START + endHours * HOUR).toISOString(),
+	options: votes.map((count, i) => ({ id: String(i + 1), text: `Option ${i + 1}`, votes: count })),
+});
+
+/**
+ * Socios API stand-in serving the given active and ended polls, with results for every poll
+ * in `results` and a 404 for any other
+ */
+function createPollContext(
+	api: { active: IDataObject[]; ended?: IDataObject[]; results?: Record<string, IDataObject> },
+	parameters: IDataObject,
+	staticData: IDataObject,
+) {
+	const http = (request: IHttpRequestOptions) => {
+		const path = request.url.split('?')[0];
+		if (path.endsWith('/polls/active')) return api.active;
+		if (path.endsWith('/polls/ended')) return api.ended ?? [];
+		const [, pollId] = /\/polls\/([^/]+)\/results$/.exec(path) ?? [];
+		if (pollId && api.results?.[pollId]) return api.results[pollId];
+		throw Object.assign(new Error('Request failed with status code 404'), {
+			response: { status: 404 },
+		});
+	};
+
+	const { context } = createRpcStandIn({
+		handlers: {},
+		credentials: { sociosApiKey: 'test-key' },
+		http,
+	});
+	const values: IDataObject = { event: 'pollLifecycle', ...parameters };
+	Object.assign(context, {
+		getNodeParameter: (name: string, fallback?: unknown) =>
+			name in values ? values[name] : fallback,
+		getWorkflowStaticData: () => staticData,
+		logger: { warn: () => undefined, error: jest.fn() },
+	});
+	return context as unknown as IPollFunctions;
+}
+
+describe('Poll Lifecycle trigger', () => {
+	const trigger = new ChilizTrigger();
+	let now = START;
+
+	beforeEach(() => {
+		now = START;
+		jest.spyOn(Date, 'now').mockImplementation(() => now);
+	});
+
+	afterEach(() => jest.restoreAllMocks());
+
+	const pollAt = async (context: IPollFunctions, hours: number) => {
+		now = START + hours * HOUR;
+		const result = await trigger.poll.call(context);
+		return result ? result[0].map((item) => item.json) : [];
+	};
+
+	it('should report leader changes, closing polls and final results once', async () => {
+		const api: { active: IDataObject[]; results: Record<string, IDataObject> } = {
+			active: [poll('a', 5, [10, 4]), poll('b', 48, [0, 0])],
+			results: {},
+		};
+		const staticData: IDataObject = {};
+		const context = createPollContext(api, {}, staticData);
+
+		expect(await pollAt(context, 0)).toEqual([]);
+
+		// Poll b gets its first leader, a tie on poll a keeps option 1 in the lead
+		api.active = [poll('a', 5, [12, 12]), poll('b', 48, [3, 1])];
+		expect(await pollAt(context, 1)).toEqual([]);
+
+		api.active = [poll('a', 5, [12, 15]), poll('b', 48, [3, 7])];
+		const changes = await pollAt(context, 2);
+		expect(changes).toEqual([
+			expect.objectContaining({
+				event: 'leaderChanged',
+				pollId: 'a',
+				previousLeader: expect.objectContaining({ id: '1' }),
+				leader: expect.objectContaining({ id: '2', votes: 15 }),
+			}),
+			expect.objectContaining({ event: 'leaderChanged', pollId: 'b' }),
+		]);
+
+		const closing = await pollAt(context, 4.5);
+		expect(closing).toEqual([
+			expect.objectContaining({ event: 'pollClosingSoon', pollId: 'a', minutesLeft: 30 }),
+		]);
+		expect(await pollAt(context, 4.75)).toEqual([]);
+
+		// Poll a has passed its end date; poll b was cancelled and has no results
+		api.active = [poll('a', 5, [12, 15])];
+		api.results = { a: { ...poll('a', 5, [12, 20]), totalVotes: 32 } };
+		const ended = await pollAt(context, 5.5);
+		expect(ended).toEqual([
+			expect.objectContaining({
+				event: 'pollEnded',
+				pollId: 'a',
+				winner: expect.objectContaining({ id: '2', votes: 20 }),
+				totalVotes: 32,
+			}),
+		]);
+		expect(staticData.pollStates).toEqual({});
+		expect(staticData.endedPollIds).toEqual(['a', 'b']);
+
+		expect(await pollAt(context, 6)).toEqual([]);
+	});
+
+	it('should only emit the selected events and cap the ended poll memory', async () => {
+		const api = { active: [poll('c', 0.5, [1, 0])], results: { c: poll('c', 0.5, [1, 0]) } };
+		const staticData: IDataObject = {
+			endedPollIds: Array.from({ length: 200 }, (_, i) => `old-${i}`),
+		};
+		const context = createPollContext(api, { lifecycleEvents: ['pollEnded'] }, staticData);
+
+		expect(await pollAt(context, 0)).toEqual([]);
+		api.active = [];
+		expect(await pollAt(context, 1)).toEqual([
+			expect.objectContaining({ event: 'pollEnded', pollId: 'c' }),
+		]);
+
+		const endedIds = staticData.endedPollIds as string[];
+		expect(endedIds).toHaveLength(200);
+		expect(endedIds[0]).toBe('old-1');
+		expect(endedIds[199]).toBe('c');
+	});
+});
+
+describe('New Poll Created trigger', () => {
+	const trigger = new ChilizTrigger();
+
+	it('should emit polls missing from the previous response regardless of ID order', async () => {
+		const api = { active: [poll('9', 48, [0]), poll('10', 48, [0])] as IDataObject[] };
+		// Stored by earlier versions, which compared IDs as strings
+		const staticData: IDataObject = { lastPollId: '9' };
+		const context = createPollContext(api, { event: 'newPollCreated' }, staticData);
+
+		expect(await trigger.poll.call(context)).toBeNull();
+		expect(staticData).toEqual({ seenPollIds: ['9', '10'] });
+
+		api.active = [poll('10', 48, [0]), poll('11', 48, [0])];
+		const result = await trigger.poll.call(context);
+
+		expect(result![0].map((item) => item.json.pollId)).toEqual(['11']);
+		expect(staticData.seenPollIds).toEqual(['10', '11']);
+	});
+
+	it('should filter polls by the registry symbol of the token', async () => {
+		const requested: string[] = [];
+		const api = { active: [poll('1', 48, [0])] as IDataObject[] };
+		const context = createPollContext(api, { event: 'newPollCreated', tokenSymbol: ' bar ' }, {});
+		const http = context.helpers.httpRequest;
+		context.helpers.httpRequest = async (request: IHttpRequestOptions) => {
+			requested.push(request.url);
+			return http(request);
+		};
+
+		await trigger.poll.call(context);
+
+		expect(requested).toEqual([expect.stringMatching(/\/polls\/active\?token=BAR$/)]);
+	});
+});
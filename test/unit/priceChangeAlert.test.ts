@@ -0,0 +1,232 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { ChilizTrigger } from '../../nodes/Chiliz/ChilizTrigger.node';
+import { registerPriceProvider } from '../../nodes/Chiliz/transport/priceProviders';
+import { computeSelector, encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+import type { RpcHandler } from '../helpers/rpcStandIn';
+
+const BAR = '0x1000000000000000000000000000000000000001';
+const USDT = '0x1000000000000000000000000000000000000003';
+const BAR_USDT_PAIR = '0x2000000000000000000000000000000000000001';
+
+const prices: number[] = [];
+
+registerPriceProvider('sequence', {
+	async getPrice(query) {
+		const priceUsd = String(prices.shift());
+		return {
+			symbol: query.symbol,
+			priceUsd,
+			priceBtc: '0',
+			priceEth: '0',
+			change24h: 0,
+			marketCap: '0',
+			source: 'sequence',
+		};
+	},
+	async getVolume(query) {
+		return { symbol: query.symbol, volume24h: '0', volumeChange: 0, trades24h: 0 };
+	},
+});
+
+/**
+ * Minimal poll context for the Price Change Alert trigger
+ */
+function createPollContext(parameters: IDataObject, staticData: IDataObject) {
+	const values: IDataObject = {
+		event: 'priceChangeAlert',
+		tokenSymbol: 'BAR',
+		priceSource: 'sequence',
+		...parameters,
+	};
+
+	return {
+		getNodeParameter: (name: string, fallback?: unknown) => (name in values ? values[name] : fallback),
+		getWorkflowStaticData: () => staticData,
+		getCredentials: async () => ({ network: 'mainnet' }),
+		getNode: () => ({ name: 'Chiliz Trigger', type: 'n8n-nodes-chiliz.chilizTrigger', typeVersion: 1 }),
+		logger: { warn: () => undefined, error: () => undefined },
+	} as unknown as IPollFunctions;
+}
+
+/**
+ * Poll context on the JSON-RPC stand-in, for the built-in DEX price source. BAR trades against
+ * USDT with the given USDT reserve for 1,000 BAR; the node serves only the latest state.
+ */
+function createDexPollContext(
+	usdtReserve: () => string,
+	parameters: IDataObject,
+	staticData: IDataObject,
+	mode = 'trigger',
+) {
+	const tokens: Record<string, { symbol: string; decimals: string }> = {
+		[BAR]: { symbol: 'BAR', decimals: '0' },
+		[USDT]: { symbol: 'USDT', decimals: '6' },
+	};
+	const ethCall: RpcHandler = ([call, blockTag]) => {
+		const { to, data } = call as { to: string; data: string };
+		const selector = data.slice(0, 10);
+		if (blockTag !== 'latest') throw new Error('missing trie node');
+		if (to === BAR_USDT_PAIR) {
+			if (selector === computeSelector('token0()')) return encodeParameters(['address'], [BAR]);
+			if (selector === computeSelector('token1()')) return encodeParameters(['address'], [USDT]);
+			return encodeParameters(['uint112', 'uint112', 'uint32'], ['1000', usdtReserve(), '0']);
+		}
+		if (selector === computeSelector('symbol()')) {
+			return encodeParameters(['string'], [tokens[to].symbol]);
+		}
+		if (selector === computeSelector('decimals()')) {
+			return encodeParameters(['uint8'], [tokens[to].decimals]);
+		}
+		throw new Error('execution reverted');
+	};
+
+	const { context } = createRpcStandIn({
+		credentials: { network: 'mainnet', tokenList: { BAR } },
+		handlers: { eth_call: ethCall, eth_blockNumber: () => '0x100000' },
+	});
+	const values: IDataObject = {
+		event: 'priceChangeAlert',
+		tokenSymbol: 'BAR',
+		priceSource: 'dex',
+		pairAddress: BAR_USDT_PAIR,
+		...parameters,
+	};
+	Object.assign(context, {
+		getNodeParameter: (name: string, fallback?: unknown) =>
+			name in values ? values[name] : fallback,
+		getWorkflowStaticData: () => staticData,
+		getMode: () => mode,
+		logger: { warn: () => undefined, error: jest.fn() },
+	});
+	return context as unknown as IPollFunctions;
+}
+
+describe('Price Change Alert trigger', () => {
+	const trigger = new ChilizTrigger();
+	let now = 0;
+
+	beforeEach(() => {
+		prices.length = 0;
+		now = Date.UTC(2026, 0, 1);
+		jest.spyOn(Date, 'now').mockImplementation(() => now);
+	});
+
+	afterEach(() => jest.restoreAllMocks());
+
+	const pollAt = async (context: IPollFunctions, minutes: number, price: number) => {
+		now = Date.UTC(2026, 0, 1) + minutes * 60000;
+		prices.push(price);
+		return trigger.poll.call(context);
+	};
+
+	it('should alert when the price moves past the percentage within the window', async () => {
+		const staticData: IDataObject = {};
+		const context = createPollContext({ priceThreshold: 5, windowMinutes: 60 }, staticData);
+
+		expect(await pollAt(context, 0, 2.0)).toBeNull();
+		expect(await pollAt(context, 30, 2.06)).toBeNull();
+		// 2.0 has left the 60 minute window, so the rise is measured from 2.06
+		expect(await pollAt(context, 70, 2.12)).toBeNull();
+
+		const result = await pollAt(context, 80, 2.2);
+
+		expect(result![0][0].json).toMatchObject({
+			previousPrice: 2.06,
+			currentPrice: 2.2,
+			percentageChange: '6.80',
+			direction: 'up',
+		});
+		// History restarts from the alert price and is kept in static data
+		expect(staticData.priceHistory).toMatchObject({ points: [{ timestamp: now, price: 2.2 }] });
+	});
+
+	it('should start the history over when the token changes', async () => {
+		const staticData: IDataObject = {};
+		const bar = createPollContext({ priceThreshold: 5 }, staticData);
+		const psg = createPollContext({ priceThreshold: 5, tokenSymbol: 'PSG' }, staticData);
+
+		expect(await pollAt(bar, 0, 2.0)).toBeNull();
+		// PSG is not compared against BAR's price
+		expect(await pollAt(psg, 5, 3.0)).toBeNull();
+		expect(staticData.priceHistory).toEqual({
+			scope: 'priceChangeAlert:PSG:sequence:::USDT:0',
+			points: [{ timestamp: now, price: 3.0 }],
+		});
+
+		const result = await pollAt(psg, 10, 3.3);
+
+		expect(result![0][0].json).toMatchObject({
+			tokenSymbol: 'PSG',
+			previousPrice: 3.0,
+			currentPrice: 3.3,
+			direction: 'up',
+		});
+	});
+
+	it('should respect absolute thresholds and the down-only mode', async () => {
+		const staticData: IDataObject = {};
+		const context = createPollContext(
+			{ thresholdType: 'absolute', absoluteThreshold: 0.25, priceDirection: 'down' },
+			staticData,
+		);
+
+		expect(await pollAt(context, 0, 3.0)).toBeNull();
+		expect(await pollAt(context, 5, 3.5)).toBeNull();
+		expect(await pollAt(context, 10, 2.8)).toBeNull();
+
+		const result = await pollAt(context, 15, 2.7);
+
+		expect(result![0][0].json).toMatchObject({
+			previousPrice: 3.0,
+			currentPrice: 2.7,
+			direction: 'down',
+			thresholdType: 'absolute',
+		});
+		expect((result![0][0].json.change as number).toFixed(2)).toBe('-0.30');
+	});
+
+	it('should alert from DEX reserves on a node without historical state', async () => {
+		let reserve = '2000000000';
+		const staticData: IDataObject = {};
+		const context = createDexPollContext(() => reserve, { priceThreshold: 5 }, staticData);
+
+		now = Date.UTC(2026, 0, 1);
+		expect(await trigger.poll.call(context)).toBeNull();
+
+		reserve = '2200000000';
+		now += 60000;
+		const result = await trigger.poll.call(context);
+
+		expect(result![0][0].json).toMatchObject({
+			previousPrice: 2,
+			currentPrice: 2.2,
+			direction: 'up',
+			source: 'dex',
+		});
+	});
+
+	it('should report a price that cannot be read on a manual run', async () => {
+		const context = createDexPollContext(() => '2000000000', { pairAddress: '' }, {}, 'manual');
+
+		const error = await trigger.poll.call(context).catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(NodeOperationError);
+		expect((error as Error).message).toBe(
+			'Failed to read the price of BAR: A DEX pair address is required for the DEX price source',
+		);
+	});
+});
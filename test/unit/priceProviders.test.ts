@@ -0,0 +1,324 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { NodeApiError } from 'n8n-workflow';
+import { getTokenPrice, getTokenVolume } from '../../nodes/Chiliz/actions/fanTokens/fanTokens';
+import { registerPriceProvider } from '../../nodes/Chiliz/transport/priceProviders';
+import { computeSelector, encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+import type { RpcHandler } from '../helpers/rpcStandIn';
+
+const BAR = '0x1000000000000000000000000000000000000001';
+const WCHZ = '0x1000000000000000000000000000000000000002';
+const USDT = '0x1000000000000000000000000000000000000003';
+const WBTC = '0x1000000000000000000000000000000000000004';
+const WETH = '0x1000000000000000000000000000000000000005';
+const FAKE_BAR = '0x1000000000000000000000000000000000000006';
+const BAR_WCHZ_PAIR = '0x2000000000000000000000000000000000000001';
+const WCHZ_USDT_PAIR = '0x2000000000000000000000000000000000000002';
+const WBTC_USDT_PAIR = '0x2000000000000000000000000000000000000003';
+const USDT_WETH_PAIR = '0x2000000000000000000000000000000000000004';
+const FAKE_BAR_WCHZ_PAIR = '0x2000000000000000000000000000000000000005';
+const TOKEN_LIST = { BAR };
+const SWAP_TOPIC = '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822';
+
+const TOKENS: Record<string, { symbol: string; decimals: number; supply?: string }> = {
+	[BAR]: { symbol: 'BAR', decimals: 0, supply: '40000000' },
+	[WCHZ]: { symbol: 'WCHZ', decimals: 18 },
+	[USDT]: { symbol: 'USDT', decimals: 6 },
+	[WBTC]: { symbol: 'WBTC', decimals: 8 },
+	[WETH]: { symbol: 'WETH', decimals: 18 },
+	[FAKE_BAR]: { symbol: 'BAR', decimals: 0 },
+};
+
+// 1,000 BAR against 20,000 WCHZ now (20 CHZ each), 16,000 WCHZ a day ago; 1 WCHZ = 0.1 USDT,
+// 1 WBTC = 64,000 USDT and 1 WETH = 3,200 USDT
+const PAIRS: Record<string, { token0: string; token1: string; reserves: string[]; past?: string[] }> = {
+	[BAR_WCHZ_PAIR]: {
+		token0: BAR,
+		token1: WCHZ,
+		reserves: ['1000', '20000000000000000000000'],
+		past: ['1000', '16000000000000000000000'],
+	},
+	[WCHZ_USDT_PAIR]: {
+		token0: WCHZ,
+		token1: USDT,
+		reserves: ['1000000000000000000000', '100000000'],
+	},
+	[WBTC_USDT_PAIR]: { token0: WBTC, token1: USDT, reserves: ['100000000', '64000000000'] },
+	[USDT_WETH_PAIR]: { token0: USDT, token1: WETH, reserves: ['3200000000', '1000000000000000000'] },
+	// A token calling itself BAR
+	[FAKE_BAR_WCHZ_PAIR]: { token0: FAKE_BAR, token1: WCHZ, reserves: ['1', '1'] },
+};
+
+const word = (value: string) => encodeParameters(['uint256'], [value]);
+const address = (value: string) => encodeParameters(['address'], [value]);
+
+/**
+ * eth_call stand-in for ERC-20 tokens and Uniswap V2 pairs
+ */
+const dexCall: RpcHandler = ([call, blockTag]) => {
+	const { to, data } = call as { to: string; data: string };
+	const selector = data.slice(0, 10);
+	const pair = PAIRS[to];
+	if (pair) {
+		if (selector === computeSelector('token0()')) return address(pair.token0);
+		if (selector === computeSelector('token1()')) return address(pair.token1);
+		const reserves = blockTag === 'latest' || !pair.past ? pair.reserves : pair.past;
+		return encodeParameters(['uint112', 'uint112', 'uint32'], [...reserves, '0']);
+	}
+	const token = TOKENS[to];
+	if (selector === computeSelector('symbol()')) return encodeParameters(['string'], [token.symbol]);
+	if (selector === computeSelector('decimals()')) return word(String(token.decimals));
+	if (selector === computeSelector('totalSupply()') && token.supply) return word(token.supply);
+	throw new Error('execution reverted');
+};
+
+describe('Price providers', () => {
+	it('should price a token from DEX reserves and convert through a USD pair', async () => {
+		const { context } = createRpcStandIn({
+			parameters: {
+				tokenAddress: 'BAR',
+				tokenList: TOKEN_LIST,
+				priceSource: 'dex',
+				pairAddress: BAR_WCHZ_PAIR,
+				usdPairAddress: WCHZ_USDT_PAIR,
+				btcPairAddress: WBTC_USDT_PAIR,
+				ethPairAddress: USDT_WETH_PAIR,
+			},
+			handlers: { eth_call: dexCall, eth_blockNumber: () => '0x100000' },
+		});
+
+		const [result] = await getTokenPrice.call(context, 0);
+
+		expect(result.json).toEqual({
+			symbol: 'BAR',
+			source: 'dex',
+			quoteSymbol: 'WCHZ',
+			priceQuote: '20',
+			priceUsd: '2',
+			priceBtc: '0.0000312500',
+			priceEth: '0.0006250000',
+			change24h: 25,
+			marketCap: '80000000',
+		});
+	});
+
+	it('should find the token in a pair by address, not by symbol', async () => {
+		const { context } = createRpcStandIn({
+			parameters: {
+				tokenAddress: 'BAR',
+				tokenList: TOKEN_LIST,
+				priceSource: 'dex',
+				pairAddress: FAKE_BAR_WCHZ_PAIR,
+			},
+			handlers: { eth_call: dexCall, eth_blockNumber: () => '0x100000' },
+		});
+
+		await expect(getTokenPrice.call(context, 0)).rejects.toThrow(
+			`Pair ${FAKE_BAR_WCHZ_PAIR} does not contain token ${BAR}`,
+		);
+	});
+
+	it('should still return the USD price without BTC and ETH pairs or an archive node', async () => {
+		const { context } = createRpcStandIn({
+			parameters: {
+				tokenAddress: 'BAR',
+				tokenList: TOKEN_LIST,
+				priceSource: 'dex',
+				pairAddress: BAR_WCHZ_PAIR,
+				usdPairAddress: WCHZ_USDT_PAIR,
+			},
+			handlers: {
+				// A pruned node only serves the latest state
+				eth_call: (params) => {
+					if (params[1] !== 'latest') throw new Error('missing trie node');
+					return dexCall(params);
+				},
+				eth_blockNumber: () => '0x100000',
+			},
+		});
+
+		const [result] = await getTokenPrice.call(context, 0);
+
+		expect(result.json).toMatchObject({
+			priceUsd: '2',
+			priceBtc: null,
+			priceEth: null,
+			change24h: null,
+			marketCap: '80000000',
+		});
+		expect(result.json.warnings).toEqual([
+			expect.stringContaining('BTC price unavailable: set the BTC pair address'),
+			expect.stringContaining('ETH price unavailable: set the ETH pair address'),
+			expect.stringContaining('24h change unavailable: the RPC endpoint did not serve'),
+		]);
+	});
+
+	it('should sum the token side of Swap events for DEX volume', async () => {
+		// BAR is token0: Swap data is (amount0In, amount1In, amount0Out, amount1Out)
+		const swap = (blockNumber: number, barIn: string, barOut: string) => ({
+			topics: [SWAP_TOPIC],
+			data: encodeParameters(
+				['uint256', 'uint256', 'uint256', 'uint256'],
+				[barIn, '0', barOut, '0'],
+			),
+			blockNumber: '0x' + blockNumber.toString(16),
+			logIndex: '0x0',
+			transactionHash: '0x' + blockNumber.toString(16).padStart(64, '0'),
+		});
+		// The latest block is 0x100000: a day is 28,800 blocks
+		const swaps = [
+			swap(0x100000 - 40000, '40', '0'),
+			swap(0x100000 - 20000, '30', '0'),
+			swap(0x100000, '0', '20'),
+		];
+		const ranges: number[] = [];
+
+		const { context } = createRpcStandIn({
+			parameters: {
+				tokenAddress: 'BAR',
+				tokenList: TOKEN_LIST,
+				priceSource: 'dex',
+				pairAddress: BAR_WCHZ_PAIR,
+			},
+			handlers: {
+				eth_call: dexCall,
+				eth_blockNumber: () => '0x100000',
+				eth_getLogs: ([filter]) => {
+					const { fromBlock, toBlock } = filter as { fromBlock: string; toBlock: string };
+					const [from, to] = [parseInt(fromBlock, 16), parseInt(toBlock, 16)];
+					ranges.push(to - from + 1);
+					return swaps.filter((log) => {
+						const block = parseInt(log.blockNumber, 16);
+						return block >= from && block <= to;
+					});
+				},
+			},
+		});
+
+		const [result] = await getTokenVolume.call(context, 0);
+
+		// Both days are read in chunks the RPC accepts
+		expect(Math.max(...ranges)).toBeLessThanOrEqual(5000);
+
+		expect(result.json).toEqual({
+			symbol: 'BAR',
+			volume24h: '50',
+			volumeChange: 25,
+			trades24h: 2,
+			source: 'dex',
+		});
+	});
+
+	it('should read the ticker API from the credential base URL', async () => {
+		const urls: string[] = [];
+		const { context } = createRpcStandIn({
+			credentials: { priceApiUrl: 'https://prices.example.com/' },
+			parameters: { tokenAddress: 'BAR', tokenList: TOKEN_LIST, priceSource: 'ticker' },
+			handlers: { eth_call: dexCall },
+			http: ({ url }) => {
+				urls.push(url);
+				if (url.includes('ticker/24hr')) return { lastPrice: '0.08', priceChangePercent: '-4.5' };
+				return { price: url.includes('BTCUSDT') ? '64000' : '3200' };
+			},
+		});
+
+		const [result] = await getTokenPrice.call(context, 0);
+
+		expect(urls[0]).toBe('https://prices.example.com/api/v3/ticker/24hr?symbol=BARUSDT');
+		expect(result.json).toMatchObject({
+			symbol: 'BAR',
+			priceUsd: '0.08',
+			priceBtc: '0.0000012500',
+			priceEth: '0.0000250000',
+			change24h: -4.5,
+			marketCap: '3200000',
+			source: 'ticker',
+		});
+	});
+
+	it('should reject an invalid ticker price for the token', async () => {
+		const { context } = createRpcStandIn({
+			credentials: { priceApiUrl: 'https://prices.example.com' },
+			parameters: { tokenAddress: 'BAR', tokenList: TOKEN_LIST, priceSource: 'ticker' },
+			handlers: { eth_call: dexCall },
+			http: ({ url }) => {
+				if (url.includes('ticker/24hr')) return { code: -1121, msg: 'Invalid symbol.' };
+				return { price: url.includes('BTCUSDT') ? '64000' : '3200' };
+			},
+		});
+
+		const error = await getTokenPrice.call(context, 0).catch((e) => e);
+
+		expect(error).toBeInstanceOf(NodeApiError);
+		expect(error.message).toContain('Ticker API returned an invalid lastPrice for BARUSDT: null');
+	});
+
+	it('should leave out ticker figures it cannot compute', async () => {
+		const { context } = createRpcStandIn({
+			credentials: { priceApiUrl: 'https://prices.example.com' },
+			parameters: { tokenAddress: 'PSG', priceSource: 'ticker' },
+			handlers: {},
+			http: ({ url }) => {
+				if (url.includes('ticker/24hr')) return { lastPrice: '0.08', priceChangePercent: '-4.5' };
+				return url.includes('BTCUSDT')
+					? { code: -1121, msg: 'Invalid symbol.' }
+					: { price: '3200' };
+			},
+		});
+
+		const [result] = await getTokenPrice.call(context, 0);
+
+		expect(result.json).toMatchObject({
+			priceUsd: '0.08',
+			priceBtc: null,
+			priceEth: '0.0000250000',
+			change24h: -4.5,
+			marketCap: null,
+		});
+		expect(result.json.warnings).toEqual([
+			'BTC price unavailable: Ticker API returned an invalid price for BTCUSDT: null',
+			expect.stringContaining(
+				'Market cap unavailable: the market cap needs the contract address of PSG',
+			),
+		]);
+	});
+
+	it('should use a registered provider', async () => {
+		registerPriceProvider('fixed', {
+			async getPrice(query) {
+				return {
+					symbol: query.symbol,
+					priceUsd: '1.25',
+					priceBtc: '0.00002',
+					priceEth: '0.0004',
+					change24h: 0,
+					marketCap: '1250000',
+					source: 'fixed',
+				};
+			},
+			async getVolume(query) {
+				return { symbol: query.symbol, volume24h: '10', volumeChange: 0, trades24h: 1 };
+			},
+		});
+
+		const { context } = createRpcStandIn({
+			parameters: { tokenAddress: 'PSG', priceSource: 'fixed' },
+			handlers: {},
+		});
+
+		const [result] = await getTokenPrice.call(context, 0);
+
+		expect(result.json).toMatchObject({ symbol: 'PSG', priceUsd: '1.25', source: 'fixed' });
+	});
+});
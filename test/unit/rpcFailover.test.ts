@@ -0,0 +1,121 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import type { IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import {
+	isTransientRpcError,
+	jsonRpcRequest,
+	resetRpcCircuitBreakers,
+} from '../../nodes/Chiliz/transport/client';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const PRIMARY = 'https://rpc.chiliz.com';
+const FALLBACK = 'https://fallback.example.com';
+
+const httpError = (status: number) =>
+	Object.assign(new Error(`Request failed with status code ${status}`), {
+		response: { status },
+	});
+
+/**
+ * Stand-in whose endpoints answer with scripted outcomes, in order
+ */
+const createEndpoints = (
+	outcomes: Record<string, Array<Error | IDataObject>>,
+	credentials: IDataObject = {},
+) => {
+	const { context } = createRpcStandIn({
+		credentials: { fallbackRpcUrls: FALLBACK, ...credentials },
+		handlers: {},
+	});
+	const requested: string[] = [];
+
+	context.helpers.httpRequest = (async (options: IHttpRequestOptions) => {
+		requested.push(options.url);
+		const outcome = outcomes[options.url]?.shift() ?? httpError(503);
+		if (outcome instanceof Error) throw outcome;
+		return { jsonrpc: '2.0', id: (options.body as IDataObject).id, ...outcome };
+	}) as typeof context.helpers.httpRequest;
+
+	return { context, requested };
+};
+
+describe('JSON-RPC retries and failover', () => {
+	beforeEach(() => resetRpcCircuitBreakers());
+
+	it('should classify transient errors', () => {
+		expect(isTransientRpcError(httpError(429))).toBe(true);
+		expect(isTransientRpcError(httpError(502))).toBe(true);
+		expect(isTransientRpcError(Object.assign(new Error('socket'), { code: 'ECONNRESET' }))).toBe(
+			true,
+		);
+		expect(isTransientRpcError({ code: -32000, message: 'header not found' })).toBe(true);
+		expect(isTransientRpcError(httpError(400))).toBe(false);
+		expect(isTransientRpcError({ code: 3, message: 'execution reverted' })).toBe(false);
+	});
+
+	it('should fail over to the next endpoint without waiting', async () => {
+		const { context, requested } = createEndpoints({
+			[PRIMARY]: [httpError(503)],
+			[FALLBACK]: [{ result: '0x10' }],
+		});
+
+		await expect(jsonRpcRequest.call(context, 'eth_blockNumber')).resolves.toBe('0x10');
+		expect(requested).toEqual([PRIMARY, FALLBACK]);
+	});
+
+	it('should retry transient JSON-RPC errors after a backoff', async () => {
+		const { context, requested } = createEndpoints(
+			{
+				[PRIMARY]: [{ error: { code: -32000, message: 'header not found' } }, { result: '0x20' }],
+			},
+			{ fallbackRpcUrls: '' },
+		);
+
+		await expect(jsonRpcRequest.call(context, 'eth_blockNumber')).resolves.toBe('0x20');
+		expect(requested).toEqual([PRIMARY, PRIMARY]);
+	});
+
+	it('should not retry errors the endpoint answered deliberately', async () => {
+		const { context, requested } = createEndpoints({
+			[PRIMARY]: [{ error: { code: 3, message: 'execution reverted' } }],
+		});
+
+		await expect(jsonRpcRequest.call(context, 'eth_call')).rejects.toThrow('execution reverted');
+		expect(requested).toEqual([PRIMARY]);
+	});
+
+	it('should skip an endpoint that keeps failing', async () => {
+		const { context, requested } = createEndpoints(
+			{
+				[PRIMARY]: [httpError(503), httpError(503), httpError(503)],
+				[FALLBACK]: [{ result: '0x1' }, { result: '0x2' }, { result: '0x3' }, { result: '0x4' }],
+			},
+			{ maxRetries: 0 },
+		);
+
+		for (let i = 0; i < 4; i++) {
+			await jsonRpcRequest.call(context, 'eth_blockNumber');
+		}
+
+		expect(requested.filter((url) => url === PRIMARY)).toHaveLength(3);
+		expect(requested.slice(-1)).toEqual([FALLBACK]);
+	});
+
+	it('should report every endpoint once retries are exhausted', async () => {
+		const { context } = createEndpoints({}, { maxRetries: 0 });
+
+		await expect(jsonRpcRequest.call(context, 'eth_blockNumber')).rejects.toThrow(
+			'RPC request failed on every endpoint: Request failed with status code 503',
+		);
+	});
+});
@@ -0,0 +1,132 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { NodeApiError } from 'n8n-workflow';
+import { getTokenHolders, getTokenPrice } from '../../nodes/Chiliz/actions/fanTokens/fanTokens';
+import { getActivePolls, getPollDetails } from '../../nodes/Chiliz/actions/polls/polls';
+import { getAvailableRewards } from '../../nodes/Chiliz/actions/rewards/rewards';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const TOKEN = '0x1000000000000000000000000000000000000001';
+
+// Any HTTP request outside the JSON-RPC stand-in fails the test
+const noHttp = (): never => {
+	throw new Error('Sandbox mode must not call an API');
+};
+
+describe('Sandbox mode', () => {
+	it('should serve fixture polls and rewards without a Socios API key', async () => {
+		const { context } = createRpcStandIn({
+			handlers: {},
+			credentials: { sandbox: true },
+			parameters: { tokenSymbol: 'BAR', limit: 10 },
+			http: noHttp,
+		});
+
+		const polls = await getActivePolls.call(context, 0);
+		const rewards = await getAvailableRewards.call(context, 0);
+
+		expect(polls.map((item) => item.json.id)).toEqual(['sandbox-poll-1']);
+		expect(polls[0].json).toMatchObject({
+			tokenSymbol: 'BAR',
+			status: 'active',
+			totalVotes: 10000,
+		});
+		expect(rewards.map((item) => item.json.id)).toEqual(['sandbox-reward-1']);
+	});
+
+	it('should serve fixture prices and holders', async () => {
+		const { context } = createRpcStandIn({
+			handlers: {},
+			credentials: { sandbox: true },
+			parameters: { tokenAddress: 'PSG', tokenList: { PSG: TOKEN }, priceSource: 'dex', limit: 2 },
+			http: noHttp,
+		});
+
+		const [price] = await getTokenPrice.call(context, 0);
+		const holders = await getTokenHolders.call(context, 0);
+
+		expect(price.json).toEqual({
+			symbol: 'PSG',
+			priceUsd: '2.1',
+			priceBtc: '0.000021',
+			priceEth: '0.000525',
+			change24h: 3.1,
+			marketCap: '84000000',
+			source: 'sandbox',
+		});
+		expect(holders.map((item) => item.json)).toEqual([
+			expect.objectContaining({ rank: 1, balanceFormatted: '5000000' }),
+			expect.objectContaining({ rank: 2, balanceFormatted: '2500000' }),
+		]);
+	});
+
+	it('should answer requests without a fixture with a 404', async () => {
+		const { context } = createRpcStandIn({
+			handlers: {},
+			credentials: { sandbox: true },
+			parameters: { pollId: 'no-such-poll' },
+			http: noHttp,
+		});
+
+		const error = await getPollDetails.call(context, 0).catch((e) => e);
+
+		expect(error).toBeInstanceOf(NodeApiError);
+		expect(error).toMatchObject({
+			httpCode: '404',
+			message: 'Sandbox has no fixture for GET /polls/no-such-poll',
+		});
+	});
+});
+
+describe('API failures outside sandbox mode', () => {
+	const unavailable = () => {
+		throw Object.assign(new Error('Request failed with status code 503'), {
+			response: { status: 503 },
+		});
+	};
+
+	it('should surface Socios API failures with the HTTP status and endpoint', async () => {
+		const { context } = createRpcStandIn({
+			handlers: {},
+			credentials: { sociosApiKey: 'test-key' },
+			parameters: { limit: 5 },
+			http: unavailable,
+		});
+
+		const error = await getActivePolls.call(context, 0).catch((e) => e);
+
+		expect(error).toBeInstanceOf(NodeApiError);
+		expect(error).toMatchObject({
+			httpCode: '503',
+			message: 'Socios API request failed (HTTP 503): GET /polls/active?limit=5',
+		});
+		expect(JSON.stringify(error)).not.toContain('test-key');
+	});
+
+	it('should surface explorer failures of the holder list', async () => {
+		const { context } = createRpcStandIn({
+			handlers: {},
+			credentials: { chilizScanApiKey: 'scan-key' },
+			parameters: { tokenAddress: TOKEN, limit: 5 },
+			http: unavailable,
+		});
+
+		const error = await getTokenHolders.call(context, 0).catch((e) => e);
+
+		expect(error).toBeInstanceOf(NodeApiError);
+		expect(error).toMatchObject({
+			httpCode: '503',
+			message: 'ChilizScan request failed (HTTP 503): token/tokenholderlist',
+		});
+	});
+});
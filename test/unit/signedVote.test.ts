@@ -0,0 +1,117 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { NodeOperationError } from 'n8n-workflow';
+import type { IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import { verifyMessage, verifyTypedData } from 'ethers';
+import { voteOnPoll } from '../../nodes/Chiliz/actions/polls/polls';
+import { computeSelector, encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+// Well-known development key (Hardhat account #0) - never holds real funds
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const VOTER = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+const TOKEN = '0x1000000000000000000000000000000000000001';
+
+/**
+ * Socios API stand-in with one poll requiring 5 BAR, recording the votes posted
+ */
+function createVoteStandIn(balance: number, parameters: IDataObject = {}) {
+	const posted: IDataObject[] = [];
+	const http = (request: IHttpRequestOptions) => {
+		if (request.method === 'GET' && request.url.endsWith('/polls/42')) {
+			return { id: '42', tokenSymbol: 'BAR', tokenAddress: TOKEN, requiredTokens: 5 };
+		}
+		if (request.method === 'POST' && request.url.endsWith('/polls/42/vote')) {
+			posted.push(request.body as IDataObject);
+			return { accepted: true, transactionHash: null };
+		}
+		throw new Error(`Unexpected request to ${request.url}`);
+	};
+
+	const { context } = createRpcStandIn({
+		credentials: { privateKey: PRIVATE_KEY, sociosApiKey: 'test-key' },
+		parameters: { pollId: '42', optionId: '2', ...parameters },
+		http,
+		handlers: {
+			eth_call: ([call]) => {
+				const { to, data } = call as { to: string; data: string };
+				expect(to).toBe(TOKEN);
+				if (data.startsWith(computeSelector('decimals()'))) return encodeParameters(['uint8'], [0]);
+				return encodeParameters(['uint256'], [balance]);
+			},
+		},
+	});
+	return { context, posted };
+}
+
+describe('Signed Socios votes', () => {
+	it('should sign the vote as EIP-712 typed data and post the signature', async () => {
+		const { context, posted } = createVoteStandIn(12);
+
+		const [result] = await voteOnPoll.call(context, 0);
+
+		const signedPayload = result.json.signedPayload as IDataObject;
+		const { domain, types, message } = signedPayload as {
+			domain: IDataObject;
+			types: Record<string, Array<{ name: string; type: string }>>;
+			message: IDataObject;
+		};
+		expect(domain).toEqual({ name: 'Socios Poll Vote', version: '1', chainId: 88888 });
+		expect(message).toMatchObject({ pollId: '42', optionId: '2', voter: VOTER, tokenCount: 1 });
+		expect(
+			verifyTypedData(domain, types, message, result.json.signature as string).toLowerCase(),
+		).toBe(VOTER);
+
+		expect(result.json).toMatchObject({
+			voter: VOTER,
+			success: true,
+			tokenAddress: TOKEN,
+			tokenBalance: '12',
+			requiredTokens: 5,
+			signatureScheme: 'eip712',
+			apiResult: { accepted: true, transactionHash: null },
+		});
+		expect(posted).toEqual([
+			expect.objectContaining({
+				pollId: '42',
+				optionId: '2',
+				nonce: message.nonce,
+				expiry: message.expiry,
+				signature: result.json.signature,
+			}),
+		]);
+	});
+
+	it('should sign the vote as an EIP-191 personal message', async () => {
+		const { context } = createVoteStandIn(5, { voteSignature: 'eip191', voteValidity: 60 });
+
+		const [result] = await voteOnPoll.call(context, 0);
+
+		const message = result.json.signedPayload as string;
+		expect(message).toContain('Vote on poll 42\nOption: 2\n');
+		expect(verifyMessage(message, result.json.signature as string).toLowerCase()).toBe(VOTER);
+		const expiresIn = Date.parse(result.json.expiry as string) - Date.now();
+		expect(expiresIn).toBeGreaterThan(50000);
+		expect(expiresIn).toBeLessThanOrEqual(60000);
+	});
+
+	it('should refuse to vote without the required fan tokens', async () => {
+		const { context, posted } = createVoteStandIn(4);
+
+		const error = await voteOnPoll.call(context, 0).catch((e) => e);
+
+		expect(error).toBeInstanceOf(NodeOperationError);
+		expect(error.message).toBe(`Wallet ${VOTER} holds 4 BAR, but poll 42 requires 5`);
+		expect(posted).toEqual([]);
+	});
+});
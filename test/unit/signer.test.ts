@@ -0,0 +1,150 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { Transaction } from 'ethers';
+import {
+	sendTransaction,
+	transferToken,
+} from '../../nodes/Chiliz/actions/transactions/transactions';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+// Well-known development key (Hardhat account #0) - never holds real funds
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER_ADDRESS = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+const RECIPIENT = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const FEE_COLLECTOR = '0x2222222222222222222222222222222222222222';
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const word = (hex: string) => '0x' + hex.replace('0x', '').padStart(64, '0');
+
+describe('Send Transaction', () => {
+	it('should sign locally and broadcast through eth_sendRawTransaction', async () => {
+		let broadcast: Transaction | undefined;
+
+		const { context, calls } = createRpcStandIn({
+			credentials: { network: 'mainnet', privateKey: PRIVATE_KEY },
+			parameters: { toAddress: RECIPIENT, amount: '1.5', gasPriceGwei: '2500', gasLimit: 21000 },
+			handlers: {
+				eth_getTransactionCount: () => '0x7',
+				eth_sendRawTransaction: ([raw]) => {
+					broadcast = Transaction.from(raw as string);
+					return broadcast.hash;
+				},
+				eth_getTransactionReceipt: () => ({
+					status: '0x1',
+					blockNumber: '0x10',
+					gasUsed: '0x5208',
+				}),
+			},
+		});
+
+		const [result] = await sendTransaction.call(context, 0);
+
+		expect(broadcast).toBeDefined();
+		expect(broadcast!.chainId).toBe(BigInt(88888));
+		expect(broadcast!.from!.toLowerCase()).toBe(SIGNER_ADDRESS);
+		expect(broadcast!.to!.toLowerCase()).toBe(RECIPIENT);
+		expect(broadcast!.nonce).toBe(7);
+		expect(broadcast!.value).toBe(BigInt('1500000000000000000'));
+		expect(broadcast!.gasPrice).toBe(BigInt('2500000000000'));
+		expect(broadcast!.gasLimit).toBe(BigInt(21000));
+
+		expect(result.json.hash).toBe(broadcast!.hash);
+		expect(result.json.nonce).toBe(7);
+		expect(result.json.gasUsed).toBe('21000');
+		expect(result.json.status).toBe('success');
+		expect(calls.map((c) => c.method)).not.toContain('eth_gasPrice');
+	});
+
+	it('should require a private key', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { toAddress: RECIPIENT, amount: '1' },
+			handlers: {},
+		});
+
+		await expect(sendTransaction.call(context, 0)).rejects.toThrow('Private key is required');
+	});
+});
+
+describe('Transfer Token', () => {
+	const parameters = { tokenAddress: TOKEN, toAddress: RECIPIENT, amount: '25', decimals: 18 };
+	const rawAmount = BigInt('25000000000000000000');
+
+	it('should sign the transfer and confirm the amount from its own Transfer log', async () => {
+		let broadcast: Transaction | undefined;
+
+		const { context } = createRpcStandIn({
+			credentials: { network: 'spicy', privateKey: PRIVATE_KEY },
+			parameters,
+			handlers: {
+				eth_call: () => word((rawAmount * BigInt(2)).toString(16)),
+				eth_getTransactionCount: () => '0x0',
+				eth_gasPrice: () => '0x3b9aca00',
+				eth_estimateGas: () => '0xea60',
+				eth_sendRawTransaction: ([raw]) => {
+					broadcast = Transaction.from(raw as string);
+					return broadcast.hash;
+				},
+				eth_getTransactionReceipt: () => ({
+					status: '0x1',
+					blockNumber: '0x20',
+					gasUsed: '0xc350',
+					logs: [
+						// Fee taken by the token before the transfer itself
+						{
+							address: TOKEN,
+							topics: [TRANSFER_TOPIC, word(SIGNER_ADDRESS), word(FEE_COLLECTOR)],
+							data: word('1'),
+						},
+						{
+							address: TOKEN,
+							topics: [TRANSFER_TOPIC, word(FEE_COLLECTOR), word(RECIPIENT)],
+							data: word('2'),
+						},
+						{
+							address: TOKEN,
+							topics: [TRANSFER_TOPIC, word(SIGNER_ADDRESS), word(RECIPIENT)],
+							data: word(rawAmount.toString(16)),
+						},
+					],
+				}),
+			},
+		});
+
+		const [result] = await transferToken.call(context, 0);
+
+		expect(broadcast!.chainId).toBe(BigInt(88882));
+		expect(broadcast!.to!.toLowerCase()).toBe(TOKEN);
+		expect(broadcast!.data.slice(0, 10)).toBe('0xa9059cbb');
+		expect(result.json.transferred).toEqual({
+			from: SIGNER_ADDRESS,
+			to: RECIPIENT,
+			amount: rawAmount.toString(),
+			amountFormatted: '25',
+		});
+		expect(result.json.amountConfirmed).toBe(true);
+	});
+
+	it('should refuse to send when the sender balance is too low', async () => {
+		const { context, calls } = createRpcStandIn({
+			credentials: { network: 'mainnet', privateKey: PRIVATE_KEY },
+			parameters,
+			handlers: {
+				eth_call: () => word('1'),
+			},
+		});
+
+		await expect(transferToken.call(context, 0)).rejects.toThrow('Insufficient token balance');
+		expect(calls.map((c) => c.method)).not.toContain('eth_sendRawTransaction');
+	});
+});
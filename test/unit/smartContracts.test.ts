@@ -0,0 +1,223 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { Transaction } from 'ethers';
+import { readContract, writeContract } from '../../nodes/Chiliz/actions/smartContracts/smartContracts';
+import { encodeFunctionData, encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const CONTRACT = '0x2222222222222222222222222222222222222222';
+const HOLDER = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+// Well-known development key (Hardhat account #0) - never holds real funds
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const revertWith = (data: string) => {
+	const error = new Error('execution reverted') as Error & { data: string };
+	error.data = data;
+	return error;
+};
+
+const POOL_ABI = [
+	{
+		type: 'function',
+		name: 'getStake',
+		stateMutability: 'view',
+		inputs: [{ name: 'account', type: 'address' }],
+		outputs: [
+			{
+				name: 'stake',
+				type: 'tuple',
+				components: [
+					{ name: 'amount', type: 'uint256' },
+					{ name: 'unlockAt', type: 'uint64' },
+				],
+			},
+			{ name: 'active', type: 'bool' },
+		],
+	},
+];
+
+describe('Read Contract', () => {
+	const stakeResult = encodeParameters(
+		['tuple(uint256 amount, uint64 unlockAt)', 'bool'],
+		[{ amount: '1000', unlockAt: '1700000000' }, true],
+	);
+
+	it('should decode multiple and struct outputs by name from a supplied ABI', async () => {
+		const { context, calls } = createRpcStandIn({
+			parameters: {
+				contractAddress: CONTRACT,
+				functionName: { __rl: true, mode: 'list', value: 'getStake' },
+				functionParams: `[{"type":"address","value":"${HOLDER}"}]`,
+				abi: JSON.stringify(POOL_ABI),
+			},
+			handlers: { eth_call: () => stakeResult },
+		});
+
+		const [result] = await readContract.call(context, 0);
+
+		expect((calls[0].params[0] as { data: string }).data).toContain(HOLDER.slice(2));
+		expect(result.json.functionName).toBe('getStake(address)');
+		expect(result.json.outputs).toEqual({
+			stake: { amount: '1000', unlockAt: '1700000000' },
+			active: true,
+		});
+		expect(result.json.decodedResult).toEqual(result.json.outputs);
+	});
+
+	it('should fall back to the verified ABI from ChilizScan', async () => {
+		const requestedUrls: string[] = [];
+		const { context } = createRpcStandIn({
+			parameters: {
+				contractAddress: CONTRACT,
+				functionName: 'totalSupply',
+				functionParams: '[]',
+			},
+			handlers: { eth_call: () => encodeParameters(['uint256'], ['5000']) },
+			http: (request) => {
+				requestedUrls.push(request.url);
+				return {
+					status: '1',
+					message: 'OK',
+					result: JSON.stringify([
+						...POOL_ABI,
+						{
+							type: 'function',
+							name: 'totalSupply',
+							stateMutability: 'view',
+							inputs: [],
+							outputs: [{ name: 'supply', type: 'uint256' }],
+						},
+					]),
+				};
+			},
+		});
+
+		const [result] = await readContract.call(context, 0);
+
+		expect(requestedUrls).toHaveLength(1);
+		expect(requestedUrls[0]).toContain('action=getabi');
+		expect(result.json.outputs).toEqual({ supply: '5000' });
+		expect(result.json.decodedResult).toBe('5000');
+	});
+
+	it('should still run workflows saved with a typed signature and no ABI', async () => {
+		const unverified = '0x3333333333333333333333333333333333333333';
+		const { context, calls } = createRpcStandIn({
+			// Saved before the function picker: a plain string rather than a resource locator
+			parameters: {
+				contractAddress: unverified,
+				functionName: 'balanceOf(address)',
+				functionParams: `["${HOLDER}"]`,
+			},
+			handlers: { eth_call: () => encodeParameters(['uint256'], ['42']) },
+			http: () => ({ status: '0', message: 'NOTOK', result: 'Contract source code not verified' }),
+		});
+
+		const [result] = await readContract.call(context, 0);
+
+		expect((calls[0].params[0] as { data: string }).data).toBe(
+			encodeFunctionData('balanceOf(address)', [HOLDER]),
+		);
+		expect(result.json.functionName).toBe('balanceOf(address)');
+		expect(result.json.decodedResult).toBe('42');
+	});
+});
+
+describe('Write Contract', () => {
+	const parameters = {
+		contractAddress: CONTRACT,
+		functionName: 'stake(uint256)',
+		functionParams: '["1000"]',
+		value: '2.5',
+		confirmations: 3,
+		receiptTimeout: 30,
+	};
+
+	it('should sign the call with a CHZ value and wait for confirmations', async () => {
+		let broadcast: Transaction | undefined;
+		const { context } = createRpcStandIn({
+			credentials: { network: 'mainnet', privateKey: PRIVATE_KEY },
+			parameters,
+			handlers: {
+				eth_call: () => '0x',
+				eth_getTransactionCount: () => '0x2',
+				eth_gasPrice: () => '0x3b9aca00',
+				eth_estimateGas: () => '0x186a0',
+				eth_sendRawTransaction: ([raw]) => {
+					broadcast = Transaction.from(raw as string);
+					return broadcast.hash;
+				},
+				eth_getTransactionReceipt: () => ({ status: '0x1', blockNumber: '0x64', gasUsed: '0xc350' }),
+				eth_blockNumber: () => '0x66',
+			},
+		});
+
+		const [result] = await writeContract.call(context, 0);
+
+		expect(broadcast!.data).toBe(encodeFunctionData('stake(uint256)', ['1000']));
+		expect(broadcast!.value).toBe(BigInt('2500000000000000000'));
+		// Estimate padded by the default gas limit multiplier
+		expect(broadcast!.gasLimit).toBe(BigInt(120000));
+		expect(result.json.status).toBe('success');
+		expect(result.json.confirmations).toBe(3);
+		expect(result.json.confirmed).toBe(true);
+	});
+
+	it('should decode custom errors from the ABI before sending', async () => {
+		const { context, calls } = createRpcStandIn({
+			credentials: { network: 'mainnet', privateKey: PRIVATE_KEY },
+			parameters: {
+				...parameters,
+				functionName: 'stake',
+				abi: 'function stake(uint256 amount) payable\nerror StakeTooLow(uint256 minimum, uint256 given)',
+			},
+			handlers: {
+				eth_call: () => {
+					throw revertWith(encodeFunctionData('StakeTooLow(uint256,uint256)', ['5000', '1000']));
+				},
+			},
+		});
+
+		await expect(writeContract.call(context, 0)).rejects.toThrow(
+			'Contract call would revert: StakeTooLow("5000", "1000")',
+		);
+		expect(calls.map((c) => c.method)).not.toContain('eth_sendRawTransaction');
+	});
+
+	it('should report the revert reason of a transaction that failed on-chain', async () => {
+		let replayed = false;
+		const { context } = createRpcStandIn({
+			credentials: { network: 'mainnet', privateKey: PRIVATE_KEY },
+			parameters: { ...parameters, confirmations: 1 },
+			handlers: {
+				eth_call: ([, blockTag]) => {
+					if (blockTag === 'latest') return '0x';
+					replayed = blockTag === '0x63';
+					throw revertWith(encodeFunctionData('Error(string)', ['Staking paused']));
+				},
+				eth_getTransactionCount: () => '0x0',
+				eth_gasPrice: () => '0x3b9aca00',
+				eth_estimateGas: () => '0x186a0',
+				eth_sendRawTransaction: ([raw]) => Transaction.from(raw as string).hash,
+				eth_getTransactionReceipt: () => ({ status: '0x0', blockNumber: '0x64', gasUsed: '0x186a0' }),
+				eth_blockNumber: () => '0x64',
+			},
+		});
+
+		const [result] = await writeContract.call(context, 0);
+
+		expect(replayed).toBe(true);
+		expect(result.json.status).toBe('failed');
+		expect(result.json.revertReason).toBe('Staking paused');
+	});
+});
@@ -0,0 +1,103 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { getTokenBalances } from '../../nodes/Chiliz/actions/accounts/accounts';
+import { getFanTokenContract } from '../../nodes/Chiliz/actions/smartContracts/smartContracts';
+import { encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import {
+	createTokenRegistry,
+	parseTokenList,
+	resolveToken,
+} from '../../nodes/Chiliz/utils/tokenRegistry';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+
+const BAR_MAINNET = '0x1000000000000000000000000000000000000001';
+const BAR_SPICY = '0x1000000000000000000000000000000000000002';
+const HOLDER = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+
+describe('Token registry', () => {
+	it('should accept an array or a symbol map and reject invalid addresses', () => {
+		expect(parseTokenList(`{"bar": "${BAR_MAINNET}"}`, 'test')).toEqual([
+			expect.objectContaining({ symbol: 'BAR', address: BAR_MAINNET, club: 'FC Barcelona' }),
+		]);
+		expect(() =>
+			parseTokenList([{ symbol: 'BAR', address: '0x...' }], 'the credential token list'),
+		).toThrow('Invalid address "0x..." for BAR in the credential token list');
+		expect(() => parseTokenList('[{"symbol": "BAR"', 'test')).toThrow('Invalid token list in test');
+	});
+
+	it('should only apply entries for the current network, with later lists winning', () => {
+		const credentialList = [
+			{ symbol: 'BAR', address: BAR_MAINNET, network: 'mainnet' },
+			{ symbol: 'BAR', address: BAR_SPICY, network: 'spicy' },
+		];
+		const nodeList = [{ symbol: 'NEW', address: BAR_SPICY, name: 'New Token', decimals: 0 }];
+
+		const mainnet = createTokenRegistry('mainnet', { list: credentialList, source: 'credential' });
+		const spicy = createTokenRegistry(
+			'spicy',
+			{ list: credentialList, source: 'credential' },
+			{ list: nodeList, source: 'node' },
+		);
+
+		expect(mainnet.BAR.address).toBe(BAR_MAINNET);
+		expect(mainnet.NEW).toBeUndefined();
+		expect(spicy.BAR.address).toBe(BAR_SPICY);
+		expect(spicy.NEW).toMatchObject({ name: 'New Token', decimals: 0, network: 'spicy' });
+	});
+
+	it('should explain how to configure a token without an address', () => {
+		const registry = createTokenRegistry('mainnet');
+
+		expect(() => resolveToken(registry, 'psg')).toThrow(
+			'No mainnet contract address is configured for PSG',
+		);
+		expect(() => resolveToken(registry, 'NOPE')).toThrow('Unknown fan token "NOPE"');
+	});
+
+	it('should resolve a Fan Token contract from the credential token list', async () => {
+		const { context } = createRpcStandIn({
+			credentials: { tokenList: JSON.stringify({ BAR: BAR_MAINNET }) },
+			parameters: { tokenSymbol: 'bar' },
+			handlers: {},
+		});
+
+		const [result] = await getFanTokenContract.call(context, 0);
+
+		expect(result.json).toMatchObject({ symbol: 'BAR', address: BAR_MAINNET, found: true });
+	});
+
+	it('should read decimals on chain for balances of listed tokens', async () => {
+		const { context } = createRpcStandIn({
+			parameters: {
+				address: HOLDER,
+				tokenList: [{ symbol: 'BAR', address: BAR_MAINNET }],
+			},
+			handlers: {
+				eth_getBalance: () => '0x0',
+				eth_call: ([call]) =>
+					(call as { data: string }).data.startsWith('0x313ce567')
+						? encodeParameters(['uint8'], ['0'])
+						: encodeParameters(['uint256'], ['12']),
+			},
+		});
+
+		const [result] = await getTokenBalances.call(context, 0);
+		const balances = result.json.balances as Array<Record<string, unknown>>;
+
+		expect(balances.find((b) => b.token === 'BAR')).toMatchObject({
+			contractAddress: BAR_MAINNET,
+			balanceFormatted: '12',
+			decimals: 0,
+		});
+	});
+});
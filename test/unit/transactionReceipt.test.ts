@@ -0,0 +1,177 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { id } from 'ethers';
+import type { IDataObject } from 'n8n-workflow';
+import { getTransactionReceipt } from '../../nodes/Chiliz/actions/transactions/transactions';
+import { clearVerifiedAbiCache } from '../../nodes/Chiliz/transport/client';
+import { encodeFunctionData, encodeParameters } from '../../nodes/Chiliz/utils/abi';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+import type { RpcHandler } from '../helpers/rpcStandIn';
+
+const TX_HASH = '0x' + 'a1'.repeat(32);
+const TOKEN = '0x1000000000000000000000000000000000000001';
+const REWARDS = '0x2222222222222222222222222222222222222222';
+const HOLDER = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+
+const REWARDS_ABI = JSON.stringify([
+	{
+		type: 'event',
+		name: 'RewardClaimed',
+		inputs: [
+			{ name: 'account', type: 'address', indexed: true },
+			{ name: 'amount', type: 'uint256', indexed: false },
+		],
+	},
+	{
+		type: 'error',
+		name: 'AlreadyClaimed',
+		inputs: [{ name: 'account', type: 'address' }],
+	},
+]);
+
+const receipt = (overrides: IDataObject = {}) => ({
+	transactionHash: TX_HASH,
+	blockNumber: '0x64',
+	blockHash: '0x' + 'bb'.repeat(32),
+	from: HOLDER,
+	to: REWARDS,
+	contractAddress: null,
+	gasUsed: '0x7530',
+	cumulativeGasUsed: '0x7530',
+	status: '0x1',
+	logs: [],
+	...overrides,
+});
+
+const claimTx = {
+	hash: TX_HASH,
+	from: HOLDER,
+	to: REWARDS,
+	input: encodeFunctionData('claim()', []),
+	value: '0x0',
+	gas: '0x186a0',
+};
+
+/**
+ * ChilizScan stand-in serving the verified rewards ABI
+ */
+const explorer = () => {
+	const requested: string[] = [];
+	const http = ({ url }: { url: string }) => {
+		requested.push(url);
+		return url.includes(REWARDS)
+			? { status: '1', message: 'OK', result: REWARDS_ABI }
+			: { status: '0', message: 'NOTOK', result: 'Contract source code not verified' };
+	};
+	return { http, requested };
+};
+
+const run = (handlers: Record<string, RpcHandler>, parameters: IDataObject = {}) => {
+	const { http, requested } = explorer();
+	const { context, calls } = createRpcStandIn({
+		parameters: { transactionHash: TX_HASH, ...parameters },
+		handlers,
+		http,
+	});
+	return { context, calls, requested };
+};
+
+describe('Get Transaction Receipt', () => {
+	beforeEach(() => clearVerifiedAbiCache());
+
+	it('should decode logs with the standard events and cached verified ABIs', async () => {
+		const claimed = {
+			address: REWARDS,
+			topics: [id('RewardClaimed(address,uint256)'), encodeParameters(['address'], [HOLDER])],
+			data: encodeParameters(['uint256'], ['500']),
+			blockNumber: '0x64',
+			transactionHash: TX_HASH,
+			transactionIndex: '0x0',
+			logIndex: '0x1',
+		};
+		const logs = [
+			{
+				...claimed,
+				address: TOKEN,
+				topics: [
+					id('Transfer(address,address,uint256)'),
+					encodeParameters(['address'], [REWARDS]),
+					encodeParameters(['address'], [HOLDER]),
+				],
+				logIndex: '0x0',
+			},
+			claimed,
+			{ ...claimed, logIndex: '0x2' },
+		];
+		const { context, requested } = run(
+			{ eth_getTransactionReceipt: () => receipt({ logs }) },
+			{ decodeLogs: true },
+		);
+
+		const [first] = await getTransactionReceipt.call(context, 0);
+		await getTransactionReceipt.call(context, 0);
+
+		expect(first.json.logs).toEqual([
+			expect.objectContaining({
+				decoded: true,
+				eventName: 'Transfer',
+				args: { from: REWARDS, to: HOLDER, value: '500' },
+			}),
+			expect.objectContaining({
+				decoded: true,
+				eventName: 'RewardClaimed',
+				args: { account: HOLDER, amount: '500' },
+			}),
+			expect.objectContaining({ decoded: true, logIndex: 2 }),
+		]);
+		// The token's Transfer needs no ABI, and the rewards ABI is fetched once
+		expect(requested).toHaveLength(1);
+		expect(requested[0]).toContain('action=getabi');
+	});
+
+	it('should replay a failed transaction at its parent block for the revert reason', async () => {
+		const { context, calls } = run({
+			eth_getTransactionReceipt: () => receipt({ status: '0x0' }),
+			eth_getTransactionByHash: () => claimTx,
+			eth_call: () => {
+				throw Object.assign(new Error('execution reverted'), {
+					data: encodeFunctionData('AlreadyClaimed(address)', [HOLDER]),
+				});
+			},
+		});
+
+		const [result] = await getTransactionReceipt.call(context, 0);
+
+		const replay = calls.find((call) => call.method === 'eth_call');
+		expect(replay?.params).toEqual([
+			expect.objectContaining({ to: REWARDS, data: claimTx.input, gas: '0x186a0' }),
+			'0x63',
+		]);
+		expect(result.json).toMatchObject({
+			status: 'failed',
+			revertReason: `AlreadyClaimed("${HOLDER}")`,
+		});
+	});
+
+	it('should report a transaction that used all its gas as out of gas', async () => {
+		const { context } = run({
+			eth_getTransactionReceipt: () => receipt({ status: '0x0', gasUsed: '0x186a0' }),
+			eth_getTransactionByHash: () => claimTx,
+			eth_call: () => '0x',
+		});
+
+		const [result] = await getTransactionReceipt.call(context, 0);
+
+		expect(result.json.revertReason).toBe('out of gas');
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * [Velocity BPA Licensing Notice]
+ *
+ * This n8n node is licensed under the Business Source License 1.1 (BSL 1.1).
+ *
+ * Use of this node by for-profit organizations in production environments
+ * requires a commercial license from Velocity BPA.
+ *
+ * For licensing information, visit https://velobpa.com/licensing
+ * or contact licensing@velobpa.com.
+ */
+
+import { waitForConfirmation } from '../../nodes/Chiliz/actions/transactions/transactions';
+import * as helpers from '../../nodes/Chiliz/utils/helpers';
+import { createRpcStandIn } from '../helpers/rpcStandIn';
+import type { RpcHandler } from '../helpers/rpcStandIn';
+
+const TX_HASH = '0x' + 'c3'.repeat(32);
+const SENDER = '0x742d35cc6634c0532925a3b844bc454e4438f44e';
+
+const pendingTx = {
+	hash: TX_HASH,
+	from: SENDER,
+	to: '0x3333333333333333333333333333333333333333',
+	nonce: '0x7',
+	gasPrice: '0x9502f9000',
+	blockNumber: null,
+};
+
+const minedReceipt = {
+	transactionHash: TX_HASH,
+	status: '0x1',
+	blockNumber: '0x64',
+	blockHash: '0x' + 'dd'.repeat(32),
+	gasUsed: '0x5208',
+	effectiveGasPrice: '0x9502f9000',
+};
+
+/**
+ * Handler answering with each scripted value in turn, then repeating the last one
+ */
+const sequence =
+	(...values: unknown[]): RpcHandler =>
+	() =>
+		values.length > 1 ? values.shift() : values[0];
+
+describe('Wait For Confirmation', () => {
+	let sleep: jest.SpyInstance;
+
+	beforeEach(() => {
+		sleep = jest.spyOn(helpers, 'sleep').mockResolvedValue();
+	});
+
+	afterEach(() => sleep.mockRestore());
+
+	it('should wait for the transaction to be mined and confirmed', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { transactionHash: TX_HASH, confirmations: 3 },
+			handlers: {
+				eth_getTransactionReceipt: sequence(null, null, minedReceipt),
+				eth_getTransactionByHash: () => pendingTx,
+				eth_blockNumber: sequence('0x64', '0x65', '0x66'),
+			},
+		});
+
+		const [result] = await waitForConfirmation.call(context, 0);
+
+		expect(result.json).toMatchObject({
+			status: 'success',
+			confirmed: true,
+			confirmations: 3,
+			timedOut: false,
+			from: SENDER,
+			nonce: 7,
+			blockNumber: 100,
+			gasUsed: '21000',
+			effectiveGasPrice: '40000000000',
+			effectiveGasPriceGwei: '40',
+			feeCHZ: '0.00084',
+		});
+		expect(sleep).toHaveBeenCalledTimes(4);
+	});
+
+	it('should report a transaction whose nonce was used by another as replaced', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { transactionHash: TX_HASH },
+			handlers: {
+				eth_getTransactionReceipt: () => null,
+				eth_getTransactionByHash: sequence(pendingTx, null),
+				eth_getTransactionCount: () => '0x8',
+			},
+		});
+
+		const [result] = await waitForConfirmation.call(context, 0);
+
+		expect(result.json).toMatchObject({ status: 'replaced', confirmed: false, nonce: 7 });
+	});
+
+	it('should report a transaction that left the mempool unmined as dropped', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { transactionHash: TX_HASH },
+			handlers: {
+				eth_getTransactionReceipt: () => null,
+				eth_getTransactionByHash: sequence(pendingTx, null),
+				eth_getTransactionCount: () => '0x7',
+			},
+		});
+
+		const [result] = await waitForConfirmation.call(context, 0);
+
+		expect(result.json).toMatchObject({ status: 'dropped', gasUsed: null });
+		// Seen once, then missing for three polls in a row
+		expect(sleep).toHaveBeenCalledTimes(3);
+	});
+
+	it('should not report a transaction the RPC briefly fails to return as dropped', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { transactionHash: TX_HASH },
+			handlers: {
+				eth_getTransactionReceipt: sequence(null, null, null, null, minedReceipt),
+				eth_getTransactionByHash: sequence(pendingTx, null, null, pendingTx),
+				eth_getTransactionCount: () => '0x7',
+				eth_blockNumber: () => '0x64',
+			},
+		});
+
+		const [result] = await waitForConfirmation.call(context, 0);
+
+		expect(result.json).toMatchObject({ status: 'success', confirmed: true });
+	});
+
+	it('should return the pending status when the timeout elapses', async () => {
+		const { context } = createRpcStandIn({
+			parameters: { transactionHash: TX_HASH, receiptTimeout: 0 },
+			handlers: {
+				eth_getTransactionReceipt: () => null,
+				eth_getTransactionByHash: () => pendingTx,
+			},
+		});
+
+		const [result] = await waitForConfirmation.call(context, 0);
+
+		expect(result.json).toMatchObject({ status: 'pending', timedOut: true, from: SENDER });
+		expect(sleep).not.toHaveBeenCalled();
+	});
+});